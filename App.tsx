@@ -1,169 +1,99 @@
 
 import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { generateImageSet, generateVideoFromScene, StoryboardScene, generatePromptFromAudio, generateCharacterDescription, AudioOptions, generateSingleImage, Character, generateCameraAnglesFromImage, editImage, EditImageParams } from './services/geminiService';
-import { fileToBase64, base64ToBytes } from './utils/fileUtils';
+import { generateScreenplay, renderScriptScenes, generateVideoFromScene, StoryboardScene, checkSceneConsistency, checkStoryboardConsistency, CONSISTENCY_THRESHOLD, isSceneInconsistent, generatePromptFromAudio, generateCharacterDescription, AudioOptions, generateSingleImage, Character, CharacterOutfit, CharacterReferenceKind, generateCameraAnglesFromImage, editImage, EditImageParams, downloadVideo, previewCharacterVoice, DEFAULT_LINE_PAUSE_SECONDS, prepareVoiceover } from './services/geminiService';
+import { getActiveProviderId, getProvider, listProviders, ProviderId, setActiveProvider } from './services/providers';
+import { exportProject, importProject, PROJECT_FILE_EXTENSION } from './services/projectService';
+import { getStorageUsage, StorageUsage } from './services/assetStore';
+import { getSavedItemAssetIds, loadItems, removeSavedItems, saveItems, storeSavedItemAssets } from './services/savedItemsService';
+import { exportTimelineVideo, isVideoExportSupported } from './services/videoExportService';
+import { cancelJob, clearFinishedJobs, getSchedulerSettings, JobInfo, SchedulerSettings, subscribeToJobs, updateSchedulerSettings } from './services/jobScheduler';
+import { ContentProfile, DEFAULT_CONTENT_PROFILE, DEFAULT_CONTENT_PROFILE_ID, deleteContentProfile, duplicateContentProfile, getSelectedContentProfile, listContentProfiles, SAFETY_CATEGORY_LABELS, SAFETY_THRESHOLD_LABELS, SafetyCategory, SafetyThreshold, saveContentProfile, selectContentProfile } from './services/contentProfiles';
+import { addStyleReferenceImage, createStyle, DEFAULT_NARRATOR_VOICE, deleteStyle, exportStyles, getNarratorVoice, getStyle, getStyleReferenceImageData, importStyles, listStyles, loadStyleReferenceImages, resetStyle, saveStyle, StyleDefinition, TTS_VOICE_TONES, TTS_VOICES } from './services/styleLibrary';
+import { createDialogueLine, createScriptScene, DialogueLine, formatDialogueScript, formatSceneHeading, NARRATOR, SCENE_DURATIONS, SCENE_SETTINGS, SceneSetting, ScriptScene, SHOT_TYPES } from './services/screenplay';
+import { importScreenplay, SCREENPLAY_FILE_EXTENSIONS } from './services/screenplayImport';
+import { DialogueClip, splitDialogueIntoClips } from './services/dialogueTiming';
+import { formatTranscriptScript, guessSpeakerMap, mappedCharacters, SpeakerMap, Transcript, transcriptToDialogue } from './services/transcript';
+import { exportStoryboard, STORYBOARD_EXPORT_FORMATS, StoryboardExportFormat } from './services/storyboardExport';
+import { BudgetMode, checkVideoBudget, clearUsageHistory, formatCost, getSessionRecords, getUsageRecords, getUsageSettings, ModelPrice, resetUsageSession, subscribeToUsage, summarizeUsage, summarizeUsageBy, updateUsageSettings, UsageRecord, UsageSettings, UsageTotals } from './services/usageTracker';
+import { buildVoiceMap, createCharacter, createOutfit, exportCharacters, findCharactersInText, getCharacterReferenceImageData, importCharacters, loadCharacterLibrary, REFERENCE_KIND_LABELS, saveCharacterLibrary, storeCharacterReferenceImage, withResolvedVoices } from './services/characterLibrary';
+import { AppStoryboardScene, GenerationItem, SavedItem, SoundtrackCue, TimelineEntry, UploadedItem, VideoClip, VideoState } from './types';
+import { fileToBase64, base64ToBytes, formatBytes } from './utils/fileUtils';
+import { clipAudioMimeType, createClipId, resolveTimeline } from './utils/timelineUtils';
 import { parseErrorMessage } from './utils/errorUtils';
-import { SparklesIcon, LoaderIcon, DownloadIcon, VideoIcon, PlusCircleIcon, ChevronLeftIcon, ChevronRightIcon, UserPlusIcon, XCircleIcon, RefreshIcon, TrashIcon, XIcon, BookmarkIcon, HistoryIcon, UploadIcon, CameraIcon, UndoIcon, ChevronDownIcon, ChevronUpIcon } from './components/Icons';
+import { decodeToPcm, toPlayableAudio } from './utils/wavUtils';
+import { extractFrameAsBase64 } from './utils/frameUtils';
+import { getSelectedTake, takeToUpload } from './utils/recordingUtils';
+import { isAbortError } from './utils/abortUtils';
+import { TimelineEditor } from './components/TimelineEditor';
+import { SoundtrackEditor } from './components/SoundtrackEditor';
+import { VoiceoverRecorder } from './components/VoiceoverRecorder';
+import { buildAnimatic, clipToPlayerItem, ScenePlayer } from './components/ScenePlayer';
+import { SparklesIcon, LoaderIcon, DownloadIcon, VideoIcon, PlusCircleIcon, UserPlusIcon, XCircleIcon, RefreshIcon, TrashIcon, XIcon, BookmarkIcon, HistoryIcon, UploadIcon, CameraIcon, UndoIcon, ChevronDownIcon, ChevronUpIcon, PlayIcon } from './components/Icons';
 
 type AppStatus = {
   status: 'idle' | 'loading' | 'error';
   error: string | null;
 };
 
-type AppStoryboardScene = StoryboardScene & { 
-    isRegenerating?: boolean;
-    isGeneratingAngles?: boolean;
-    isEditing?: boolean;
-    previousSrc?: string | null;
-};
-
-type GenerationItem = {
-  id: number;
-  prompt: string;
-  imageSet: AppStoryboardScene[];
-  videoStates: VideoState[];
-  aspectRatio: string;
-  imageStyle: string;
-  genre: string;
-  characters: Character[];
-  imageModel: string;
-};
-
-type SavedItem = {
-  id: string; // Unique ID, e.g., `${generationId}-${sceneIndex}`
-  scene: StoryboardScene;
-  videoState: VideoState;
-  originalPrompt: string;
-  aspectRatio: string;
-  imageStyle: string;
-  genre: string;
-  characters: Character[];
-  imageModel: string;
-  expiresAt: number; // UTC timestamp
-};
-
-type UploadedItem = {
-    id: string;
-    generationItem: Omit<GenerationItem, 'id' | 'videoStates'> & { imageSet: AppStoryboardScene[] };
-    videoStates: VideoState[];
-    mimeType: string;
-    detectedCharacters: string[];
-    addedCharacterIds?: number[];
-};
-
 type AudioAssignment = {
   file: File;
-  transcription: string;
-  detectedCharacters: Character[];
-  assignment: { type: 'character'; characterId: number } | { type: 'background' } | null;
+  transcript: Transcript;
+  speakerMap: SpeakerMap;
+  // 'speakers' lip-syncs the recording to the mapped characters; 'script' has their voices read the transcript again.
+  assignment: { type: 'speakers' } | { type: 'script' } | { type: 'background' } | null;
 };
 
-
-type VideoClip = {
-  videoUrl: string | null;
-  audioUrl: string | null;
-  videoObject: any;
-  audioBase64: string | null;
+/**
+ * The uploaded audio as a video's sound, used the way it was assigned. Transcript-based audio is
+ * split into clips like a voiced script, so it can run over several clips and is lip-synced line
+ * by line. Returns null when the audio is unassigned or, for a script, could not be voiced.
+ */
+const prepareAssignedAudio = async (
+    audio: AudioAssignment,
+    characters: Character[], // the library, for the characters speakers are mapped to
+    generationItem: GenerationItem,
+    linePauseSeconds: number | undefined,
+    preferredSeconds: number | undefined,
+    onProgress: (message: string) => void,
+    signal: AbortSignal,
+    usageKey: string
+): Promise<AudioOptions | null> => {
+    switch (audio.assignment?.type) {
+        case 'background':
+            return { mode: 'upload', data: await fileToBase64(audio.file), mimeType: audio.file.type, assignment: { type: 'background' } };
+        case 'speakers': {
+            onProgress('Cutting the recording into clips...');
+            const pcm = await decodeToPcm(new Uint8Array(await audio.file.arrayBuffer()));
+            return { mode: 'tts', clips: splitDialogueIntoClips(transcriptToDialogue(pcm, audio.transcript, audio.speakerMap, characters), preferredSeconds) };
+        }
+        case 'script': {
+            // Mapped characters from outside the generation's cast still need a voice of their own.
+            const speakers = mappedCharacters(audio.transcript, audio.speakerMap, characters);
+            const cast = [...generationItem.characters, ...speakers.filter(c => !generationItem.characters.some(member => member.id === c.id))];
+            const script = formatTranscriptScript(audio.transcript, audio.speakerMap, characters);
+            const clips = await prepareVoiceover(script, cast, generationItem.imageStyle, linePauseSeconds, preferredSeconds, onProgress, signal, usageKey);
+            return clips ? { mode: 'tts', clips } : null;
+        }
+        default:
+            return null;
+    }
 };
 
-type VideoState = {
-  status: 'idle' | 'loading' | 'success' | 'error';
-  clips: VideoClip[];
-  currentClipIndex: number;
-  error: string | null;
-  loadingMessage: string;
-  showScriptInput: boolean;
-  scriptPrompt: string;
-  voiceoverMode: 'tts' | 'upload';
-  voiceoverFile: File | null;
-  speaker: string; // Note: This is now legacy, kept for state structure but multi-speaker is handled dynamically
-  cameraMovement: string;
-};
 
+// Keys for the AbortControllers of cancellable work; one operation of each kind per scene.
+const GENERATION_CANCEL_KEY = 'generation';
+const cancelKey = (kind: 'video' | 'image' | 'consistency', ownerId: number | string, sceneIndex: number) => `${kind}:${ownerId}:${sceneIndex}`;
 
-// Use AI Studio's synchronized storage if available, with a fallback to local storage.
-// This enables saved items to be accessed across different devices.
-const saveItems = async (items: SavedItem[]) => {
-  const saveData = async (dataToSave: SavedItem[]) => {
-    const data = JSON.stringify(dataToSave);
-    const storage = (window as any).aistudio?.storage;
-    if (storage && typeof storage.setItem === 'function') {
-      await storage.setItem('creativeSuiteSavedItems', data);
-    } else {
-      localStorage.setItem('creativeSuiteSavedItems', data);
-    }
-  };
+// A cancelled video generation returns the scene to what it showed before, without an error.
+const cancelledVideoState = (before: VideoState): Partial<VideoState> => ({
+    status: before.clips.length > 0 ? 'success' : 'idle',
+    error: null,
+    loadingMessage: '',
+});
 
-  let currentItems = [...items];
-  // Attempt to save, and if a quota error occurs, remove the oldest item and retry.
-  while (currentItems.length > 0) {
-    try {
-      await saveData(currentItems);
-      return; // Success
-    } catch (error: any) {
-      if (error.name === 'QuotaExceededError' || (error.message && error.message.toLowerCase().includes('quota'))) {
-        console.warn('Storage quota exceeded. Removing the oldest item and retrying...');
-        // Sort by expiration to find the "oldest" (soonest to expire)
-        currentItems.sort((a, b) => a.expiresAt - b.expiresAt);
-        currentItems.shift(); // Remove the oldest item
-      } else {
-        console.error("Failed to save items:", error);
-        return; // Don't retry for other errors
-      }
-    }
-  }
-  if (items.length > 0) {
-      console.error("Failed to save items: Could not save even a single item due to storage quota.");
-  }
-};
-
-const loadItems = async (): Promise<SavedItem[]> => {
-  try {
-    let storedItems: string | null = null;
-    // FIX: Safely access window.aistudio.storage which may not be defined in the global AIStudio type.
-    const storage = (window as any).aistudio?.storage;
-    if (storage && typeof storage.getItem === 'function') {
-      storedItems = await storage.getItem('creativeSuiteSavedItems');
-    } else {
-      // FIX: localStorage.getItem takes only one argument, the key. The second argument 'data' was incorrect and not defined.
-      storedItems = localStorage.getItem('creativeSuiteSavedItems');
-    }
-
-    if (storedItems) {
-      const items: SavedItem[] = JSON.parse(storedItems);
-      const now = Date.now();
-      const validItems = items.filter(item => item.expiresAt > now);
-      if (validItems.length !== items.length) {
-        await saveItems(validItems); // Clean up expired items
-      }
-      return validItems;
-    }
-  } catch (error) {
-    console.error("Failed to load items:", error);
-  }
-  return [];
-};
+const totalClipSeconds = (clips: DialogueClip[]): number => clips.reduce((total, clip) => total + clip.durationSeconds, 0);
 
 const ASPECT_RATIOS = ["16:9", "9:16"];
-const IMAGE_STYLES = [
-    "Nigerian Cartoon",
-    "Cartoon (Big Head)",
-    "Illustration",
-    "3D Render",
-    "Realistic Photo",
-    "Oil Painting",
-    "Pixel Art",
-    "2D Flat",
-    "Anime",
-    "Clip Art",
-    "Video Game",
-    "Pastel Sketch",
-    "Dark Fantasy",
-    "Cyberpunk",
-    "Steampunk",
-    "Watercolor",
-    "Art Nouveau",
-];
 const GENRES = [
     "General", "Fiction", "Non-fiction", "Science Fiction", "Fantasy", "Mystery", "Horror", "Comedy",
 ];
@@ -248,11 +178,21 @@ const SpeakerSelector: React.FC<{ characters: Character[]; scriptPrompt: string
                     </div>
                 ))}
             </div>
-            <p className="text-xs text-gray-500 pt-1">To use multiple speakers, format your script like this:<br/>CharacterOne: Hello there!<br/>CharacterTwo: Hi!</p>
+            <p className="text-xs text-gray-500 pt-1">To use multiple speakers (as many as you like), format your script like this:<br/>CharacterOne: Hello there!<br/>CharacterTwo: Hi!</p>
         </div>
     );
 };
 
+const LinePauseInput: React.FC<{ value: number | undefined; onChange: (seconds: number) => void }> = ({ value, onChange }) => (
+    <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+        Pause between lines
+        <span className="flex items-center gap-1">
+            <input type="number" min={0} max={3} step={0.05} value={value ?? DEFAULT_LINE_PAUSE_SECONDS} onChange={(e) => onChange(Math.min(3, Math.max(0, Number(e.target.value) || 0)))} className="w-16 bg-gray-800 border border-gray-600 rounded-md text-gray-300 text-xs p-1 focus:ring-1 focus:ring-green-500" />
+            s
+        </span>
+    </label>
+);
+
 
 const CameraMovementSelector: React.FC<{
     selectedMovement: string;
@@ -294,6 +234,318 @@ const CameraMovementSelector: React.FC<{
     );
 };
 
+const JOB_STATUS_STYLES: Record<JobInfo['status'], string> = {
+    queued: 'text-gray-400',
+    waiting: 'text-amber-400',
+    running: 'text-indigo-300',
+    retrying: 'text-amber-400',
+    succeeded: 'text-green-400',
+    failed: 'text-red-400',
+    cancelled: 'text-gray-500',
+};
+
+const JobProgressList: React.FC<{ jobs: JobInfo[] }> = ({ jobs }) => {
+    if (jobs.length === 0) return null;
+    return (
+        <ul className="w-full max-w-md mt-4 space-y-1 text-left">
+            {jobs.map(job => (
+                <li key={job.id} className="flex items-center justify-between gap-3 text-sm bg-black/20 rounded-md px-3 py-1.5">
+                    <span className="text-gray-200 truncate">{job.label}</span>
+                    <span className={`text-xs shrink-0 ${JOB_STATUS_STYLES[job.status]}`}>{job.status === 'failed' ? job.error : job.message}</span>
+                </li>
+            ))}
+        </ul>
+    );
+};
+
+const isJobActive = (job: JobInfo) => job.status !== 'succeeded' && job.status !== 'failed' && job.status !== 'cancelled';
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+// Elapsed time counts from the start of the job, or from when it was queued while it still waits.
+const jobElapsedMs = (job: JobInfo, now: number) => (job.finishedAt ?? now) - (job.startedAt ?? job.createdAt);
+
+const JobsPanel: React.FC<{ jobs: JobInfo[]; maxRetries: number }> = ({ jobs, maxRetries }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [now, setNow] = useState(Date.now());
+    const activeCount = jobs.filter(isJobActive).length;
+
+    useEffect(() => {
+        if (activeCount === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [activeCount]);
+
+    if (jobs.length === 0) return null;
+
+    // Newest first, with everything still in flight above the finished jobs.
+    const ordered = [...jobs].reverse().sort((a, b) => Number(isJobActive(b)) - Number(isJobActive(a)));
+
+    return (
+        <div className="fixed bottom-4 right-4 z-40 w-96 max-w-[calc(100vw-2rem)] bg-gray-800 border border-gray-700 rounded-lg shadow-2xl">
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between gap-2 px-4 py-2 text-sm font-semibold text-gray-200">
+                <span className="flex items-center gap-2">
+                    {activeCount > 0 && <LoaderIcon className="w-4 h-4 text-indigo-400 animate-spin" />}
+                    Jobs {activeCount > 0 ? `(${activeCount} active)` : ''}
+                </span>
+                {isOpen ? <ChevronDownIcon className="w-4 h-4" /> : <ChevronUpIcon className="w-4 h-4" />}
+            </button>
+            {isOpen && (
+                <div className="border-t border-gray-700">
+                    <ul className="max-h-80 overflow-y-auto divide-y divide-gray-700/50">
+                        {ordered.map(job => (
+                            <li key={job.id} className="px-4 py-2 text-sm">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-gray-200 truncate">{job.label}</span>
+                                    <span className="flex items-center gap-2 shrink-0">
+                                        <span className="text-xs text-gray-500">{formatElapsed(jobElapsedMs(job, now))}</span>
+                                        {isJobActive(job) && (
+                                            <button onClick={() => cancelJob(job.id)} title="Cancel this job" className="text-gray-400 hover:text-red-400">
+                                                <XCircleIcon className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                    </span>
+                                </div>
+                                <div className="flex items-center justify-between gap-2 text-xs">
+                                    <span className="text-gray-500 truncate">{job.model}</span>
+                                    <span className={`shrink-0 ${JOB_STATUS_STYLES[job.status]}`}>
+                                        {job.status}{job.attempt > 1 ? ` · attempt ${job.attempt}/${maxRetries}` : ''}
+                                    </span>
+                                </div>
+                                {isJobActive(job) && job.message && <p className="text-xs text-gray-400 mt-0.5">{job.message}</p>}
+                                {job.error && <p className="text-xs text-red-400 mt-0.5 break-words">{job.error}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                    {activeCount < jobs.length && (
+                        <div className="px-4 py-2 border-t border-gray-700 text-right">
+                            <button onClick={clearFinishedJobs} className="text-xs text-gray-400 hover:text-white">Clear finished</button>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const UsageSummary: React.FC<{ usage?: UsageTotals }> = ({ usage }) => {
+    if (!usage || usage.calls === 0) return null;
+    return (
+        <p className="text-xs text-gray-500 mt-2" title="Estimated from the price table in Usage & Costs">
+            ≈ {formatCost(usage.cost)} · {usage.calls} call{usage.calls === 1 ? '' : 's'}{usage.failedCalls > 0 ? ` (${usage.failedCalls} failed or retried)` : ''}
+        </p>
+    );
+};
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+    { key: 'perRequest', label: 'Request' },
+    { key: 'perImage', label: 'Image' },
+    { key: 'perVideoSecond', label: 'Video s' },
+    { key: 'perMillionInputTokens', label: 'In /1M' },
+    { key: 'perMillionOutputTokens', label: 'Out /1M' },
+];
+
+const UsageManager: React.FC<{ records: UsageRecord[]; sessionRecords: UsageRecord[]; settings: UsageSettings }> = ({ records, sessionRecords, settings }) => {
+    const session = summarizeUsage(sessionRecords);
+    const byModel = summarizeUsageBy(records, record => record.model);
+    const models = Array.from(new Set([...Object.keys(settings.prices), ...Object.keys(byModel)]));
+
+    const handlePriceChange = (model: string, key: keyof ModelPrice, value: number) => {
+        const current = settings.prices[model] ?? { perRequest: 0, perImage: 0, perVideoSecond: 0, perMillionInputTokens: 0, perMillionOutputTokens: 0 };
+        updateUsageSettings({ prices: { ...settings.prices, [model]: { ...current, [key]: value } } });
+    };
+
+    return (
+        <div className="space-y-4 p-2">
+            <div className="flex items-center justify-between">
+                <div>
+                    <p className="text-sm font-semibold text-gray-300">This session: {formatCost(session.cost)}</p>
+                    <p className="text-xs text-gray-500">{session.calls} call{session.calls === 1 ? '' : 's'}, {session.failedCalls} failed or retried</p>
+                </div>
+                <button onClick={resetUsageSession} className="text-xs text-gray-400 hover:text-white">New session</button>
+            </div>
+            <div>
+                <label htmlFor="session-budget" className="text-sm text-gray-400 font-semibold mb-2 block">Session Budget (USD)</label>
+                <div className="flex gap-2">
+                    <input
+                        id="session-budget"
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        placeholder="No budget"
+                        value={settings.sessionBudget ?? ''}
+                        onChange={(e) => updateUsageSettings({ sessionBudget: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+                        className="flex-1 bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2"
+                    />
+                    <select value={settings.budgetMode} onChange={(e) => updateUsageSettings({ budgetMode: e.target.value as BudgetMode })} className="bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 appearance-none">
+                        <option value="warn">Warn</option>
+                        <option value="block">Block</option>
+                    </select>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Checked before each video generation, using the clip's estimated cost.</p>
+            </div>
+            <div>
+                <p className="text-sm text-gray-400 font-semibold mb-2">Per Model (all time)</p>
+                <div className="space-y-1">
+                    {models.filter(model => byModel[model]).map(model => (
+                        <div key={model} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-gray-400 font-mono truncate">{model}</span>
+                            <span className="text-gray-300 shrink-0">{byModel[model].calls} · {formatCost(byModel[model].cost)}</span>
+                        </div>
+                    ))}
+                    {Object.keys(byModel).length === 0 && <p className="text-xs text-gray-500">No calls recorded yet.</p>}
+                </div>
+            </div>
+            <details>
+                <summary className="text-sm text-gray-400 font-semibold cursor-pointer">Price Table (USD)</summary>
+                <div className="space-y-3 mt-2">
+                    {models.map(model => (
+                        <div key={model}>
+                            <p className="text-xs text-gray-400 font-mono truncate mb-1">{model}</p>
+                            <div className="grid grid-cols-5 gap-1">
+                                {PRICE_FIELDS.map(({ key, label }) => (
+                                    <label key={key} className="text-[10px] text-gray-500">
+                                        {label}
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.001"
+                                            value={settings.prices[model]?.[key] ?? 0}
+                                            onChange={(e) => handlePriceChange(model, key, Math.max(0, Number(e.target.value) || 0))}
+                                            className="w-full bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1 text-right"
+                                        />
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </details>
+            {records.length > 0 && (
+                <button onClick={() => { if (window.confirm('Clear all recorded usage?')) clearUsageHistory(); }} className="text-xs text-gray-400 hover:text-red-400">Clear usage history</button>
+            )}
+        </div>
+    );
+};
+
+const StoryboardExport: React.FC<{ generationItem: GenerationItem }> = ({ generationItem }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [isExporting, setIsExporting] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    if (!generationItem.imageSet.some(scene => scene.src)) return null;
+
+    const handleExport = async (format: StoryboardExportFormat, extension: string) => {
+        setIsOpen(false);
+        setIsExporting(true);
+        setError(null);
+        try {
+            const blob = await exportStoryboard(generationItem, format, setMessage);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `storyboard-${new Date().toISOString().slice(0, 10)}${extension}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            console.error("Failed to export the storyboard:", err);
+            setError(parseErrorMessage(err));
+        } finally {
+            setIsExporting(false);
+            setMessage('');
+        }
+    };
+
+    return (
+        <div className="relative flex flex-col items-end gap-1 shrink-0">
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                disabled={isExporting}
+                title="Export every scene as storyboard panels"
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+            >
+                {isExporting ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <DownloadIcon className="w-4 h-4" />}
+                {isExporting ? 'Exporting...' : 'Export Storyboard'}
+            </button>
+            {isOpen && (
+                <div className="absolute top-full right-0 mt-1 z-20 w-60 bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1">
+                    {STORYBOARD_EXPORT_FORMATS.map(({ format, label, extension }) => (
+                        <button key={format} onClick={() => handleExport(format, extension)} className="block w-full text-left px-3 py-2 text-sm text-gray-200 hover:bg-gray-700">
+                            {label}
+                        </button>
+                    ))}
+                    <p className="px-3 py-1 text-[10px] text-gray-500">EDL and FCPXML refer to the scene images by the file names used in the ZIP.</p>
+                </div>
+            )}
+            {isExporting && message && <p className="text-xs text-gray-400">{message}</p>}
+            {error && <p className="text-xs text-red-400 max-w-xs text-right">{error}</p>}
+        </div>
+    );
+};
+
+const FullVideoExport: React.FC<{ generationItem: GenerationItem }> = ({ generationItem }) => {
+    const [isExporting, setIsExporting] = useState(false);
+    const [message, setMessage] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const exportController = useRef<AbortController | null>(null);
+    const clips = resolveTimeline(generationItem.videoStates, generationItem.timeline);
+
+    if (clips.length === 0) return null;
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        const controller = new AbortController();
+        exportController.current = controller;
+        try {
+            const blob = await exportTimelineVideo(clips, setMessage, controller.signal, generationItem.soundtrack);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `storyboard-${new Date().toISOString().slice(0, 10)}.mp4`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Failed to export full video:", err);
+            setError(parseErrorMessage(err));
+        } finally {
+            exportController.current = null;
+            setIsExporting(false);
+            setMessage('');
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-end gap-1 shrink-0">
+            <button
+                onClick={handleExport}
+                disabled={isExporting || !isVideoExportSupported()}
+                title={isVideoExportSupported() ? `Stitch all ${clips.length} clip(s) into one MP4` : 'Requires a browser with WebCodecs support (e.g. Chrome or Edge)'}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {isExporting ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <VideoIcon className="w-4 h-4" />}
+                {isExporting ? 'Exporting...' : 'Export Full Video'}
+            </button>
+            {isExporting && (
+                <button onClick={() => exportController.current?.abort()} className="text-xs text-gray-400 hover:text-white underline">
+                    Cancel export
+                </button>
+            )}
+            {isExporting && message && <p className="text-xs text-gray-400">{message}</p>}
+            {error && <p className="text-xs text-red-400 max-w-xs text-right">{error}</p>}
+        </div>
+    );
+};
+
 const GenerationResultItem: React.FC<{
     generationItem: GenerationItem;
     savedItems: SavedItem[];
@@ -305,12 +557,19 @@ const GenerationResultItem: React.FC<{
     onDeleteVideo: (index: number) => void;
     onDeleteClip: (sceneIndex: number, clipIndex: number) => void;
     onRegenerateImage: (index: number) => void;
+    onCheckConsistency: () => void;
+    onRegenerateInconsistentScenes: () => void;
     onEditImage: (sceneIndex: number, editPrompt: string) => void;
     onUndoEdit: (sceneIndex: number) => void;
     onHydrateClips: (sceneIndex: number, clips: VideoClip[]) => void;
     onGenerateCameraAngles: (sceneIndex: number) => void;
     onDeleteScene: (sceneIndex: number) => void;
+    onCancelVideo: (sceneIndex: number) => void;
+    onCancelImageAction: (sceneIndex: number) => void;
+    onTimelineChange: (timeline: TimelineEntry[]) => void;
+    onSoundtrackChange: (soundtrack: SoundtrackCue[]) => void;
     onDelete: () => void;
+    usage?: UsageTotals;
 }> = (props) => {
     const { generationItem, onDelete, savedItems, onToggleSave, onDeleteScene } = props;
     
@@ -323,6 +582,9 @@ const GenerationResultItem: React.FC<{
     const [isHydrating, setIsHydrating] = useState(false);
     const [showEdit, setShowEdit] = useState(false);
     const [editPrompt, setEditPrompt] = useState('');
+    const [showTimeline, setShowTimeline] = useState(false);
+    const [showAnimatic, setShowAnimatic] = useState(false);
+    const animaticItems = useMemo(() => buildAnimatic(generationItem), [generationItem.imageSet, generationItem.videoStates, generationItem.script]);
 
     useEffect(() => {
         if (selectedSceneIndex >= generationItem.imageSet.length) {
@@ -352,17 +614,12 @@ const GenerationResultItem: React.FC<{
                     let newVideoUrl = clip.videoUrl;
                     let newAudioUrl = clip.audioUrl;
                     if (!newVideoUrl && clip.videoObject?.uri) {
-                        const downloadLink = clip.videoObject.uri;
-                        const downloadUrl = new URL(downloadLink);
-                        downloadUrl.searchParams.set('key', process.env.API_KEY!);
-                        const response = await fetch(downloadUrl.toString());
-                        if (!response.ok) throw new Error(`Failed to load video. Status: ${response.statusText}`);
-                        const blob = await response.blob();
+                        const blob = await downloadVideo(clip.videoObject);
                         newVideoUrl = URL.createObjectURL(blob);
                     }
                     if (!newAudioUrl && clip.audioBase64) {
                         const bytes = base64ToBytes(clip.audioBase64);
-                        const blob = new Blob([bytes], { type: 'audio/wav' });
+                        const blob = new Blob([bytes], { type: clipAudioMimeType(clip) });
                         newAudioUrl = URL.createObjectURL(blob);
                     }
                     return { ...clip, videoUrl: newVideoUrl, audioUrl: newAudioUrl };
@@ -411,7 +668,7 @@ const GenerationResultItem: React.FC<{
         
         switch (videoState.status) {
             case 'loading': 
-                return <div className="flex flex-col items-center justify-center text-center"><LoaderIcon className="w-10 h-10 animate-spin text-green-400" /><p className="mt-4 text-sm text-gray-200">{videoState.loadingMessage}</p></div>;
+                return <div className="flex flex-col items-center justify-center text-center"><LoaderIcon className="w-10 h-10 animate-spin text-green-400" /><p className="mt-4 text-sm text-gray-200">{videoState.loadingMessage}</p><button onClick={() => props.onCancelVideo(selectedSceneIndex)} className="mt-3 px-3 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600">Cancel</button></div>;
             case 'error': 
                 return (
                     <div className="p-4 bg-red-900/30 border border-red-500/50 rounded-lg flex items-start justify-between gap-4 w-full max-w-md">
@@ -428,20 +685,18 @@ const GenerationResultItem: React.FC<{
                 if (!currentClip?.videoUrl) return <div className="flex flex-col items-center justify-center"><LoaderIcon className="w-10 h-10 animate-spin text-gray-400" /><p className="mt-2 text-sm">Loading video...</p></div>;
                 return (
                     <div className="w-full h-full flex flex-col justify-center items-center gap-2 relative group">
-                        <video key={currentClip.videoUrl} src={currentClip.videoUrl} controls autoPlay muted loop className="max-w-full max-h-[75vh] object-contain rounded-lg shadow-2xl" />
+                        <ScenePlayer
+                            items={videoState.clips.map((clip, clipIndex) => clipToPlayerItem(clip, `Clip ${clipIndex + 1}`))}
+                            index={videoState.currentClipIndex}
+                            onIndexChange={(clipIndex) => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: clipIndex })}
+                            className="max-w-full max-h-[70vh] object-contain rounded-lg shadow-2xl"
+                        />
                         <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/70 backdrop-blur-sm text-white text-xs px-2.5 py-1 rounded-full flex items-center gap-2">
-                            {videoState.clips.length > 1 && <span>Clip {videoState.currentClipIndex + 1} of {videoState.clips.length}</span>}
                             <button onClick={() => { if (window.confirm(`Are you sure you want to delete Clip ${videoState.currentClipIndex + 1}?`)) props.onDeleteClip(selectedSceneIndex, videoState.currentClipIndex); }} className="text-rose-400 hover:text-rose-200" title={`Delete Clip ${videoState.currentClipIndex + 1}`}>
                                 <TrashIcon className="w-4 h-4" />
                             </button>
                         </div>
-                        {videoState.clips.length > 1 && (
-                            <>
-                                <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: videoState.currentClipIndex - 1 })} disabled={videoState.currentClipIndex === 0} className="absolute left-3 top-1/2 -translate-y-1/2 bg-black/50 text-white p-1.5 rounded-full hover:bg-black/80 disabled:opacity-30 transition-opacity"><ChevronLeftIcon className="w-6 h-6" /></button>
-                                <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: videoState.currentClipIndex + 1 })} disabled={videoState.currentClipIndex === videoState.clips.length - 1} className="absolute right-3 top-1/2 -translate-y-1/2 bg-black/50 text-white p-1.5 rounded-full hover:bg-black/80 disabled:opacity-30 transition-opacity"><ChevronRightIcon className="w-6 h-6" /></button>
-                            </>
-                        )}
-                        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/70 p-2 rounded-full backdrop-blur-sm z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                        <div className="absolute bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/70 p-2 rounded-full backdrop-blur-sm z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                              <a href={currentClip.videoUrl ?? '#'} download={`generated-video-clip-${videoState.currentClipIndex + 1}.mp4`} className={`p-2 rounded-full transition-colors ${!currentClip.videoUrl ? 'opacity-50 cursor-not-allowed' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title="Download Video Clip">
                                 <DownloadIcon className="w-5 h-5" />
                             </a>
@@ -449,7 +704,6 @@ const GenerationResultItem: React.FC<{
                                 <TrashIcon className="w-5 h-5" />
                             </button>
                         </div>
-                        {currentClip.audioUrl && <audio src={currentClip.audioUrl} controls className="w-full max-w-sm mt-2" />}
                     </div>
                 );
             default:
@@ -487,6 +741,9 @@ const GenerationResultItem: React.FC<{
                         {generationItem.imageSet.filter(s => s.isCameraAngleFor === undefined).findIndex(s => s.prompt === scene.prompt) + 1}
                     </div>
                 )}
+                {isSceneInconsistent(scene) && (
+                    <div className="absolute bottom-1.5 left-1.5 bg-amber-500 text-white text-[10px] font-bold px-1.5 py-0.5 rounded-full z-20" title="A character doesn't match their reference">!</div>
+                )}
                 
                 <div className="absolute top-1 right-1 flex gap-1 z-20">
                      <button onClick={(e) => { e.stopPropagation(); onToggleSave(generationItem, index); }} className={`p-1 rounded-full transition-all duration-200 ${isSaved ? 'bg-amber-500 text-white' : 'bg-black/50 text-gray-300 opacity-0 group-hover:opacity-100 hover:bg-amber-500 hover:text-white'}`} disabled={!scene.src || scene.isRegenerating || scene.isGeneratingAngles}>
@@ -531,6 +788,10 @@ const GenerationResultItem: React.FC<{
         );
     }
     const showVideoControls = videoState.status !== 'idle' && videoState.status !== 'loading' && !videoState.showScriptInput;
+    const hasTimelineClips = generationItem.videoStates.some(state => state?.clips.some(clip => clip.videoUrl || clip.videoObject));
+    const canCheckConsistency = generationItem.characters.some(c => c.originalImageBase64);
+    const isCheckingConsistency = generationItem.imageSet.some(s => s.isCheckingConsistency);
+    const inconsistentSceneCount = generationItem.imageSet.filter(s => isSceneInconsistent(s) && !s.isRegenerating).length;
 
     return (
         <div className="bg-gray-800/30 p-5 rounded-xl border border-gray-700/50 w-full relative">
@@ -538,13 +799,79 @@ const GenerationResultItem: React.FC<{
                 <div>
                     <h2 className="text-xl font-bold tracking-tight text-indigo-400 mb-1">Generation Result</h2>
                     <p className="text-sm text-gray-400 bg-black/20 p-3 rounded-md font-mono whitespace-pre-wrap break-words">"{generationItem.prompt}"</p>
+                    <UsageSummary usage={props.usage} />
+                </div>
+                <div className="flex items-start gap-3 ml-4">
+                    {inconsistentSceneCount > 0 && (
+                        <button
+                            onClick={props.onRegenerateInconsistentScenes}
+                            title={`Regenerate the scenes where a character scored below ${CONSISTENCY_THRESHOLD}%`}
+                            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md shrink-0 bg-amber-600 text-white hover:bg-amber-500"
+                        >
+                            <RefreshIcon className="w-4 h-4" />
+                            Fix {inconsistentSceneCount} Inconsistent
+                        </button>
+                    )}
+                    {canCheckConsistency && (
+                        <button
+                            onClick={props.onCheckConsistency}
+                            disabled={isCheckingConsistency}
+                            title="Score how closely each scene matches the characters' reference images"
+                            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md shrink-0 bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50"
+                        >
+                            {isCheckingConsistency ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+                            Check Consistency
+                        </button>
+                    )}
+                    {hasTimelineClips && (
+                        <button
+                            onClick={() => setShowTimeline(prev => !prev)}
+                            className={`inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md shrink-0 ${showTimeline ? 'bg-indigo-600 text-white hover:bg-indigo-500' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                        >
+                            <VideoIcon className="w-4 h-4" />
+                            Timeline
+                        </button>
+                    )}
+                    {animaticItems.length > 0 && (
+                        <button
+                            onClick={() => setShowAnimatic(true)}
+                            title="Play every scene in order: clips with their voiceover, and stills for scenes without video"
+                            className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-md shrink-0 bg-gray-700 text-gray-200 hover:bg-gray-600"
+                        >
+                            <PlayIcon className="w-4 h-4" />
+                            Play Animatic
+                        </button>
+                    )}
+                    <StoryboardExport generationItem={generationItem} />
+                    <FullVideoExport generationItem={generationItem} />
+                    <button onClick={onDelete} className=" text-gray-500 hover:text-white z-10"><XIcon className="w-6 h-6" /></button>
                 </div>
-                <button onClick={onDelete} className=" text-gray-500 hover:text-white z-10"><XIcon className="w-6 h-6" /></button>
             </div>
+
+            {showAnimatic && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={() => setShowAnimatic(false)}>
+                    <div className="bg-gray-900 rounded-xl shadow-2xl w-full max-w-5xl p-4 border border-gray-700" onClick={e => e.stopPropagation()}>
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-lg font-bold text-white">Animatic</h3>
+                            <button onClick={() => setShowAnimatic(false)} className="text-gray-500 hover:text-white"><XIcon className="w-6 h-6" /></button>
+                        </div>
+                        <ScenePlayer items={animaticItems} autoPlay className="max-w-full max-h-[70vh] object-contain rounded-lg" />
+                    </div>
+                </div>
+            )}
+
+            {showTimeline && hasTimelineClips && (
+                <div className="mb-6 bg-black/20 p-4 rounded-lg border border-gray-700/50">
+                    <TimelineEditor generationItem={generationItem} onChange={props.onTimelineChange} />
+                    <div className="mt-4 pt-4 border-t border-gray-700/50">
+                        <SoundtrackEditor generationItem={generationItem} onChange={props.onSoundtrackChange} />
+                    </div>
+                </div>
+            )}
             
             <div className="flex flex-col lg:flex-row gap-6">
                 <div className="lg:w-2/3 bg-black/30 flex items-center justify-center p-4 rounded-lg min-h-[400px] relative group">
-                    {isActionInProgress ? <div className="flex flex-col items-center justify-center text-center p-3"><LoaderIcon className="w-10 h-10 text-blue-400 animate-spin mb-2" /><p className="text-sm text-gray-300">{scene.isGeneratingAngles ? 'Generating Angles...' : scene.isEditing ? 'Applying Edits...' : 'Regenerating...'}</p></div>
+                    {isActionInProgress ? <div className="flex flex-col items-center justify-center text-center p-3"><LoaderIcon className="w-10 h-10 text-blue-400 animate-spin mb-2" /><p className="text-sm text-gray-300">{scene.isGeneratingAngles ? 'Generating Angles...' : scene.isEditing ? 'Applying Edits...' : 'Regenerating...'}</p><button onClick={() => props.onCancelImageAction(selectedSceneIndex)} className="mt-3 px-3 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600">Cancel</button></div>
                     : imageFailed ? <div className="w-full bg-red-900/20 rounded-lg border-2 border-dashed border-red-500/50 flex flex-col items-center justify-center p-4"><h4 className="font-bold text-red-400 mb-2">Image Failed</h4><p className="text-sm text-red-300 text-center mb-4">{scene.error}</p><button onClick={() => props.onRegenerateImage(selectedSceneIndex)} className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-white bg-red-600 rounded-md hover:bg-red-500"><RefreshIcon className="w-4 h-4"/>Try Again</button></div>
                     : renderContent()}
                 </div>
@@ -573,6 +900,25 @@ const GenerationResultItem: React.FC<{
                                 </div>
                             </div>
                         )}
+
+                        {(scene.consistency || scene.isCheckingConsistency) && (
+                            <div className="mb-2">
+                                <p className="text-sm text-green-400 font-semibold uppercase">Character Consistency</p>
+                                {scene.isCheckingConsistency ? (
+                                    <p className="text-xs text-gray-400 mt-1 flex items-center gap-2"><LoaderIcon className="w-3 h-3 animate-spin" /> Checking against the references...</p>
+                                ) : (
+                                    <ul className="mt-1 bg-black/20 p-2 rounded-md space-y-1.5">
+                                        {scene.consistency!.map(entry => (
+                                            <li key={entry.characterId} className="text-xs">
+                                                <span className="font-semibold text-gray-200">{entry.name}</span>
+                                                <span className={`ml-2 font-bold ${entry.score >= CONSISTENCY_THRESHOLD ? 'text-green-400' : 'text-amber-400'}`}>{entry.score}%</span>
+                                                {entry.notes && <p className="text-gray-400">{entry.notes}</p>}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
                         
                         {videoState.status === 'idle' && (
                             <>
@@ -606,13 +952,16 @@ const GenerationResultItem: React.FC<{
                         {videoState.showScriptInput && videoState.status !== 'loading' && (
                             <div className="space-y-4 mt-4 bg-gray-900/50 p-3 rounded-lg border border-gray-700">
                                 <h4 className="font-semibold text-white">Create Video</h4>
-                                <div className="flex border-b border-gray-700"><button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'tts'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'tts' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Text-to-Speech</button><button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'upload'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'upload' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Upload Audio</button></div>
+                                <div className="flex border-b border-gray-700"><button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'tts'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'tts' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Text-to-Speech</button><button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'upload'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'upload' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Upload Audio</button><button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'record'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'record' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Record</button></div>
                                 <div className='p-1'>
                                 {videoState.voiceoverMode === 'tts' ? (
                                     <div className="space-y-3">
                                         <SpeakerSelector characters={characters} scriptPrompt={videoState.scriptPrompt} />
                                         <textarea className="w-full bg-gray-800 border border-gray-600 rounded-md text-gray-300 text-sm p-2 focus:ring-1 focus:ring-green-500" placeholder={imageStyle === 'Nigerian Cartoon' ? "Write dialogue (AI will speak in Pidgin)..." : "Write dialogue or narration..."} rows={4} value={videoState.scriptPrompt} onChange={(e) => props.onVideoStateChange(selectedSceneIndex, { scriptPrompt: e.target.value })} />
+                                        <LinePauseInput value={videoState.linePauseSeconds} onChange={(seconds) => props.onVideoStateChange(selectedSceneIndex, { linePauseSeconds: seconds })} />
                                     </div>
+                                ) : videoState.voiceoverMode === 'record' ? (
+                                    <VoiceoverRecorder takes={videoState.voiceoverTakes ?? []} selectedTakeId={videoState.selectedTakeId ?? null} onChange={(changes) => props.onVideoStateChange(selectedSceneIndex, changes)} />
                                 ) : (
                                      <div className="space-y-2"><label className="w-full text-center text-sm p-3 block bg-gray-800 border-2 border-dashed border-gray-600 rounded-md cursor-pointer hover:border-green-500">{videoState.voiceoverFile ? videoState.voiceoverFile.name : 'Choose audio file...'}<input type="file" accept="audio/*" className="hidden" onChange={(e) => props.onVideoStateChange(selectedSceneIndex, { voiceoverFile: e.target.files?.[0] || null })} /></label></div>
                                 )}
@@ -654,6 +1003,9 @@ const UploadedItemManager: React.FC<{
     onHydrateClips: (sceneIndex: number, clips: VideoClip[]) => void;
     onGenerateCameraAngles: (sceneIndex: number) => void;
     onDeleteScene: (sceneIndex: number) => void;
+    onCancelVideo: (sceneIndex: number) => void;
+    onCancelImageAction: (sceneIndex: number) => void;
+    usage?: UsageTotals;
 }> = (props) => {
     const { uploadedItem, onDelete, savedItems, onToggleSave, onDeleteScene } = props;
     const [selectedSceneIndex, setSelectedSceneIndex] = useState<number>(0);
@@ -684,17 +1036,12 @@ const UploadedItemManager: React.FC<{
                     let newVideoUrl = clip.videoUrl;
                     let newAudioUrl = clip.audioUrl;
                     if (!newVideoUrl && clip.videoObject?.uri) {
-                        const downloadLink = clip.videoObject.uri;
-                        const downloadUrl = new URL(downloadLink);
-                        downloadUrl.searchParams.set('key', process.env.API_KEY!);
-                        const response = await fetch(downloadUrl.toString());
-                        if (!response.ok) throw new Error(`Failed to load video. Status: ${response.statusText}`);
-                        const blob = await response.blob();
+                        const blob = await downloadVideo(clip.videoObject);
                         newVideoUrl = URL.createObjectURL(blob);
                     }
                     if (!newAudioUrl && clip.audioBase64) {
                         const bytes = base64ToBytes(clip.audioBase64);
-                        const blob = new Blob([bytes], { type: 'audio/wav' });
+                        const blob = new Blob([bytes], { type: clipAudioMimeType(clip) });
                         newAudioUrl = URL.createObjectURL(blob);
                     }
                     return { ...clip, videoUrl: newVideoUrl, audioUrl: newAudioUrl };
@@ -731,7 +1078,7 @@ const UploadedItemManager: React.FC<{
         if (!videoState) return null;
         if (isHydrating) return <div className="flex flex-col items-center justify-center"><LoaderIcon className="w-10 h-10 animate-spin text-gray-400" /><p className="mt-2 text-sm">Loading Media...</p></div>;
         switch (videoState.status) {
-            case 'loading': return <div className="flex flex-col items-center justify-center text-center"><LoaderIcon className="w-10 h-10 animate-spin text-green-400" /><p className="mt-4 text-sm text-gray-200">{videoState.loadingMessage}</p></div>;
+            case 'loading': return <div className="flex flex-col items-center justify-center text-center"><LoaderIcon className="w-10 h-10 animate-spin text-green-400" /><p className="mt-4 text-sm text-gray-200">{videoState.loadingMessage}</p><button onClick={() => props.onCancelVideo(selectedSceneIndex)} className="mt-3 px-3 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600">Cancel</button></div>;
             case 'error': return (
                 <div className="p-4 bg-red-900/30 border border-red-500/50 rounded-lg flex items-start justify-between gap-4 w-full max-w-md">
                     <div className="flex-grow">
@@ -747,9 +1094,13 @@ const UploadedItemManager: React.FC<{
                 if (!currentClip?.videoUrl) return <div className="flex flex-col items-center justify-center"><LoaderIcon className="w-10 h-10 animate-spin text-gray-400" /><p className="mt-2 text-sm">Loading video...</p></div>;
                 return (
                     <div className="w-full h-full flex flex-col justify-center items-center gap-2 relative group">
-                        <video key={currentClip.videoUrl} src={currentClip.videoUrl} controls autoPlay muted loop className="max-w-full max-h-[75vh] object-contain rounded-lg shadow-2xl" />
+                        <ScenePlayer
+                            items={videoState.clips.map((clip, clipIndex) => clipToPlayerItem(clip, `Clip ${clipIndex + 1}`))}
+                            index={videoState.currentClipIndex}
+                            onIndexChange={(clipIndex) => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: clipIndex })}
+                            className="max-w-full max-h-[70vh] object-contain rounded-lg shadow-2xl"
+                        />
                         <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/70 backdrop-blur-sm text-white text-xs px-2.5 py-1 rounded-full flex items-center gap-2">
-                            {videoState.clips.length > 1 && <span>Clip {videoState.currentClipIndex + 1} of {videoState.clips.length}</span>}
                             <button
                                 onClick={() => {
                                     if (window.confirm(`Are you sure you want to delete Clip ${videoState.currentClipIndex + 1}? This action cannot be undone.`)) {
@@ -762,13 +1113,7 @@ const UploadedItemManager: React.FC<{
                                 <TrashIcon className="w-4 h-4" />
                             </button>
                         </div>
-                        {videoState.clips.length > 1 && (
-                            <>
-                                <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: videoState.currentClipIndex - 1 })} disabled={videoState.currentClipIndex === 0} className="absolute left-3 top-1/2 -translate-y-1/2 bg-black/50 text-white p-1.5 rounded-full hover:bg-black/80 disabled:opacity-30 transition-opacity"><ChevronLeftIcon className="w-6 h-6" /></button>
-                                <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { currentClipIndex: videoState.currentClipIndex + 1 })} disabled={videoState.currentClipIndex === videoState.clips.length - 1} className="absolute right-3 top-1/2 -translate-y-1/2 bg-black/50 text-white p-1.5 rounded-full hover:bg-black/80 disabled:opacity-30 transition-opacity"><ChevronRightIcon className="w-6 h-6" /></button>
-                            </>
-                        )}
-                        <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/70 p-2 rounded-full backdrop-blur-sm z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                        <div className="absolute bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-3 bg-black/70 p-2 rounded-full backdrop-blur-sm z-10 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                              <a href={currentClip.videoUrl ?? '#'} download={`generated-video-clip-${videoState.currentClipIndex + 1}.mp4`} className={`p-2 rounded-full transition-colors ${!currentClip.videoUrl ? 'opacity-50 cursor-not-allowed' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`} title="Download Video Clip">
                                 <DownloadIcon className="w-5 h-5" />
                             </a>
@@ -776,7 +1121,6 @@ const UploadedItemManager: React.FC<{
                                 <TrashIcon className="w-5 h-5" />
                             </button>
                         </div>
-                        {currentClip.audioUrl && <audio src={currentClip.audioUrl} controls className="w-full max-w-sm mt-2" />}
                     </div>
                 );
             default:
@@ -846,12 +1190,13 @@ const UploadedItemManager: React.FC<{
                  <div>
                     <h2 className="text-xl font-bold tracking-tight text-green-400 mb-1">Animate Custom Image</h2>
                     <p className="text-sm text-gray-400">Edit your image, generate camera angles, or create a video directly.</p>
+                    <UsageSummary usage={props.usage} />
                 </div>
                 <button onClick={onDelete} className="text-gray-500 hover:text-white z-10"><XIcon className="w-6 h-6" /></button>
             </div>
             <div className="flex flex-col lg:flex-row gap-6">
                 <div className="lg:w-2/3 bg-black/30 flex items-center justify-center p-4 rounded-lg relative group min-h-[400px]">
-                    {isActionInProgress ? <div className="flex flex-col items-center justify-center text-center p-3"><LoaderIcon className="w-10 h-10 text-blue-400 animate-spin mb-2" /><p className="text-sm text-gray-300">{scene.isGeneratingAngles ? 'Generating Angles...' : 'Applying Edits...'}</p></div> : renderContent()}
+                    {isActionInProgress ? <div className="flex flex-col items-center justify-center text-center p-3"><LoaderIcon className="w-10 h-10 text-blue-400 animate-spin mb-2" /><p className="text-sm text-gray-300">{scene.isGeneratingAngles ? 'Generating Angles...' : 'Applying Edits...'}</p><button onClick={() => props.onCancelImageAction(selectedSceneIndex)} className="mt-3 px-3 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600">Cancel</button></div> : renderContent()}
                 </div>
                 <div className="lg:w-1/3 flex flex-col gap-4">
                     <div>
@@ -915,6 +1260,7 @@ const UploadedItemManager: React.FC<{
                                 <div className="flex border-b border-gray-700">
                                     <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'tts'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'tts' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Text-to-Speech</button>
                                     <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'upload'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'upload' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Upload Audio</button>
+                                    <button onClick={() => props.onVideoStateChange(selectedSceneIndex, { voiceoverMode: 'record'})} className={`flex-1 text-sm py-1.5 rounded-t-md ${videoState.voiceoverMode === 'record' ? 'bg-gray-700 font-semibold' : 'bg-transparent text-gray-400'}`}>Record</button>
                                 </div>
                                 <div className='p-1'>
                                 {videoState.voiceoverMode === 'tts' ? (
@@ -927,7 +1273,10 @@ const UploadedItemManager: React.FC<{
                                             value={videoState.scriptPrompt} 
                                             onChange={(e) => props.onVideoStateChange(selectedSceneIndex, { scriptPrompt: e.target.value })} 
                                         />
+                                        <LinePauseInput value={videoState.linePauseSeconds} onChange={(seconds) => props.onVideoStateChange(selectedSceneIndex, { linePauseSeconds: seconds })} />
                                     </div>
+                                ) : videoState.voiceoverMode === 'record' ? (
+                                    <VoiceoverRecorder takes={videoState.voiceoverTakes ?? []} selectedTakeId={videoState.selectedTakeId ?? null} onChange={(changes) => props.onVideoStateChange(selectedSceneIndex, changes)} />
                                 ) : (
                                      <div className="space-y-2">
                                         <label className="w-full text-center text-sm p-3 block bg-gray-800 border-2 border-dashed border-gray-600 rounded-md cursor-pointer hover:border-green-500">
@@ -964,10 +1313,178 @@ const UploadedItemManager: React.FC<{
     );
 };
 
+type SceneDraft = {
+    id: number; // becomes the generation's id, so the breakdown is metered with its images
+    prompt: string;
+    scenes: ScriptScene[];
+};
+
+const SCRIPT_INPUT_CLASS = "bg-gray-800 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+const SCRIPT_SELECT_CLASS = "bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1";
+
+// One screenplay scene: heading, description, action, dialogue and shot.
+const ScriptSceneCard: React.FC<{
+    scene: ScriptScene;
+    index: number;
+    count: number;
+    cast: Character[];
+    isDisabled: boolean;
+    onChange: (changes: Partial<ScriptScene>) => void;
+    onMove: (offset: number) => void;
+    onDelete: () => void;
+}> = ({ scene, index, count, cast, isDisabled, onChange, onMove, onDelete }) => {
+    const speakers = [NARRATOR, ...cast.map(c => c.name).filter(Boolean)];
+    const updateLine = (lineIndex: number, changes: Partial<DialogueLine>) =>
+        onChange({ dialogue: scene.dialogue.map((line, i) => i === lineIndex ? { ...line, ...changes } : line) });
+    const toggleCharacter = (characterId: number) => onChange({
+        characterIds: scene.characterIds.includes(characterId)
+            ? scene.characterIds.filter(id => id !== characterId)
+            : [...scene.characterIds, characterId],
+    });
+
+    return (
+        <div className="bg-gray-900/50 border border-gray-700 rounded-lg p-3 space-y-3">
+            <div className="flex justify-between items-center">
+                <span className="text-sm font-semibold text-gray-300">Scene {index + 1} <span className="font-mono text-xs text-gray-500 ml-2">{formatSceneHeading(scene)}</span></span>
+                <div className="flex items-center gap-1">
+                    <button onClick={() => onMove(-1)} disabled={isDisabled || index === 0} title="Move up" className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"><ChevronUpIcon className="w-4 h-4" /></button>
+                    <button onClick={() => onMove(1)} disabled={isDisabled || index === count - 1} title="Move down" className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"><ChevronDownIcon className="w-4 h-4" /></button>
+                    <button onClick={onDelete} disabled={isDisabled} title="Delete scene" className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"><TrashIcon className="w-4 h-4" /></button>
+                </div>
+            </div>
+            <div className="flex gap-2">
+                <select value={scene.setting} onChange={(e) => onChange({ setting: e.target.value as SceneSetting })} disabled={isDisabled} className={SCRIPT_SELECT_CLASS}>
+                    {SCENE_SETTINGS.map(setting => (<option key={setting} value={setting}>{setting}.</option>))}
+                </select>
+                <input value={scene.location} onChange={(e) => onChange({ location: e.target.value })} disabled={isDisabled} placeholder="Location" className={`flex-grow ${SCRIPT_INPUT_CLASS}`} />
+                <input value={scene.timeOfDay} onChange={(e) => onChange({ timeOfDay: e.target.value })} disabled={isDisabled} placeholder="Time of day" className={`w-28 ${SCRIPT_INPUT_CLASS}`} />
+            </div>
+            <textarea
+                value={scene.description}
+                onChange={(e) => onChange({ description: e.target.value })}
+                disabled={isDisabled}
+                rows={3}
+                placeholder="What the frame shows..."
+                className={`w-full ${SCRIPT_INPUT_CLASS}`}
+            />
+            <textarea
+                value={scene.action.join('\n')}
+                onChange={(e) => onChange({ action: e.target.value.split('\n') })}
+                disabled={isDisabled}
+                rows={2}
+                placeholder="Action, one line each..."
+                className={`w-full ${SCRIPT_INPUT_CLASS}`}
+            />
+            <div className="space-y-2">
+                <span className="text-xs text-gray-400 font-semibold">Dialogue</span>
+                {scene.dialogue.map((line, lineIndex) => (
+                    <div key={lineIndex} className="flex gap-2 items-start">
+                        <select value={line.speaker} onChange={(e) => updateLine(lineIndex, { speaker: e.target.value })} disabled={isDisabled} className={`w-28 ${SCRIPT_SELECT_CLASS}`}>
+                            {(speakers.includes(line.speaker) ? speakers : [...speakers, line.speaker]).map(name => (<option key={name} value={name}>{name}</option>))}
+                        </select>
+                        <input value={line.parenthetical} onChange={(e) => updateLine(lineIndex, { parenthetical: e.target.value })} disabled={isDisabled} placeholder="(delivery)" className={`w-28 ${SCRIPT_INPUT_CLASS}`} />
+                        <input value={line.text} onChange={(e) => updateLine(lineIndex, { text: e.target.value })} disabled={isDisabled} placeholder="Line" className={`flex-grow ${SCRIPT_INPUT_CLASS}`} />
+                        <button onClick={() => onChange({ dialogue: scene.dialogue.filter((_, i) => i !== lineIndex) })} disabled={isDisabled} title="Remove line" className="p-2 text-gray-400 hover:text-red-400 disabled:opacity-30"><XIcon className="w-4 h-4" /></button>
+                    </div>
+                ))}
+                <button onClick={() => onChange({ dialogue: [...scene.dialogue, createDialogueLine()] })} disabled={isDisabled} className="text-xs font-semibold text-indigo-300 hover:text-indigo-200 disabled:opacity-50">+ Add line</button>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                {cast.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                        <span className="text-xs text-gray-400 font-semibold">In scene:</span>
+                        {cast.map(character => (
+                            <label key={character.id} className="flex items-center gap-1 text-xs text-gray-300">
+                                <input type="checkbox" checked={scene.characterIds.includes(character.id)} onChange={() => toggleCharacter(character.id)} disabled={isDisabled} className="accent-indigo-500" />
+                                {character.name || 'Unnamed'}
+                            </label>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap items-center gap-3 ml-auto text-xs text-gray-400 font-semibold">
+                    <label className="flex items-center gap-1">
+                        Shot
+                        <select value={scene.shotType} onChange={(e) => onChange({ shotType: e.target.value })} disabled={isDisabled} className={SCRIPT_SELECT_CLASS}>
+                            {SHOT_TYPES.map(shot => (<option key={shot} value={shot}>{shot}</option>))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Camera
+                        <select value={scene.cameraMovement} onChange={(e) => onChange({ cameraMovement: e.target.value })} disabled={isDisabled} className={SCRIPT_SELECT_CLASS}>
+                            {CAMERA_MOVEMENTS.map(({ name, label, emoji }) => (<option key={name} value={name}>{emoji} {label}</option>))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Length
+                        <select value={scene.durationSeconds} onChange={(e) => onChange({ durationSeconds: Number(e.target.value) })} disabled={isDisabled} className={SCRIPT_SELECT_CLASS}>
+                            {SCENE_DURATIONS.map(seconds => (<option key={seconds} value={seconds}>{seconds}s</option>))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// The story's screenplay, edited before any image is rendered.
+const SceneBreakdownEditor: React.FC<{
+    draft: SceneDraft;
+    cast: Character[];
+    isDisabled: boolean;
+    onChange: (scenes: ScriptScene[]) => void;
+    onRender: () => void;
+    onDiscard: () => void;
+}> = ({ draft, cast, isDisabled, onChange, onRender, onDiscard }) => {
+    const { scenes } = draft;
+    const moveScene = (index: number, offset: number) => {
+        const reordered = [...scenes];
+        const [moved] = reordered.splice(index, 1);
+        reordered.splice(index + offset, 0, moved);
+        onChange(reordered);
+    };
+    // A scene needs something to draw: a description, or at least where it takes place.
+    const canRender = scenes.length > 0 && scenes.every(scene => scene.description.trim() || scene.location.trim());
+
+    return (
+        <div className="bg-gray-800/50 rounded-xl border border-gray-700 p-4 space-y-4">
+            <div className="flex justify-between items-start gap-4">
+                <div>
+                    <h3 className="text-lg font-bold text-gray-100">Screenplay</h3>
+                    <p className="text-sm text-gray-400 mt-1 line-clamp-2" title={draft.prompt}>{draft.prompt}</p>
+                </div>
+                <button onClick={onDiscard} disabled={isDisabled} className="flex-shrink-0 px-3 py-1.5 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">Discard</button>
+            </div>
+            <p className="text-xs text-gray-500">Review the scenes before their images are rendered. Each image is drawn from the scene's heading, shot, description and action; its voiceover from the dialogue; its video from the action, camera and length. Marked characters are drawn from their reference images.</p>
+            {scenes.map((scene, index) => (
+                <ScriptSceneCard
+                    key={scene.id}
+                    scene={scene}
+                    index={index}
+                    count={scenes.length}
+                    cast={cast}
+                    isDisabled={isDisabled}
+                    onChange={(changes) => onChange(scenes.map(existing => existing.id === scene.id ? { ...existing, ...changes } : existing))}
+                    onMove={(offset) => moveScene(index, offset)}
+                    onDelete={() => onChange(scenes.filter(existing => existing.id !== scene.id))}
+                />
+            ))}
+            <div className="flex justify-between items-center gap-2">
+                <button onClick={() => onChange([...scenes, createScriptScene()])} disabled={isDisabled} className="inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed">
+                    <PlusCircleIcon className="w-4 h-4" /> Add Scene
+                </button>
+                <button onClick={onRender} disabled={isDisabled || !canRender} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-bold text-white rounded-md accent-gradient accent-gradient-hover disabled:bg-gray-700 disabled:bg-none disabled:text-gray-500 disabled:cursor-not-allowed">
+                    <SparklesIcon className="w-4 h-4" /> Render {scenes.length} {scenes.length === 1 ? 'Scene' : 'Scenes'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
 const ResultsView: React.FC<{
     appStatus: AppStatus;
     history: GenerationItem[];
     loadingMessage: string;
+    jobs: JobInfo[];
     savedItems: SavedItem[];
     uploadedItems: UploadedItem[];
     onToggleSave: (generationItem: GenerationItem, sceneIndex: number) => void;
@@ -978,11 +1495,18 @@ const ResultsView: React.FC<{
     onDeleteVideo: (generationId: number, sceneIndex: number) => void;
     onDeleteClip: (generationId: number, sceneIndex: number, clipIndex: number) => void;
     onRegenerateImage: (generationId: number, sceneIndex: number) => void;
+    onCheckConsistency: (generationId: number) => void;
+    onRegenerateInconsistentScenes: (generationId: number) => void;
     onEditImage: (generationId: number, sceneIndex: number, editPrompt: string) => void;
     onUndoEdit: (generationId: number, sceneIndex: number) => void;
     onHydrateClips: (generationId: number, sceneIndex: number, clips: VideoClip[]) => void;
     onGenerateCameraAngles: (generationId: number, sceneIndex: number) => void;
     onDeleteScene: (generationId: number, sceneIndex: number) => void;
+    onTimelineChange: (generationId: number, timeline: TimelineEntry[]) => void;
+    onSoundtrackChange: (generationId: number, soundtrack: SoundtrackCue[]) => void;
+    onCancelVideo: (generationId: number, sceneIndex: number) => void;
+    onCancelImageAction: (generationId: number, sceneIndex: number) => void;
+    onCancelGeneration?: () => void; // set while the loading overlay's work can be cancelled
     onDeleteGeneration: (id: number) => void;
     // Props for UploadedItemManager
     onDeleteUploadedItem: (id: string) => void;
@@ -998,16 +1522,20 @@ const ResultsView: React.FC<{
     onHydrateClipsForUploaded: (id: string, sceneIndex: number, clips: VideoClip[]) => void;
     onGenerateCameraAnglesForUploaded: (id: string, sceneIndex: number) => void;
     onDeleteSceneForUploaded: (id: string, sceneIndex: number) => void;
+    onCancelVideoForUploaded: (id: string, sceneIndex: number) => void;
+    onCancelImageActionForUploaded: (id: string, sceneIndex: number) => void;
+    usageTotals: Record<string, UsageTotals>;
+    sceneBreakdown?: React.ReactNode; // the scene breakdown awaiting approval, shown above the history
 }> = (props) => {
-    const { appStatus, history, loadingMessage, uploadedItems } = props;
+    const { appStatus, history, loadingMessage, uploadedItems, sceneBreakdown } = props;
 
-    if (history.length === 0 && appStatus.status === 'idle' && uploadedItems.length === 0) {
+    if (history.length === 0 && appStatus.status === 'idle' && uploadedItems.length === 0 && !sceneBreakdown) {
         return (
             <div className="flex items-center justify-center w-full h-full border-2 border-dashed border-gray-700/50 rounded-xl bg-gray-500/5">
                 <div className="text-center p-8">
                     <SparklesIcon className="mx-auto h-12 w-12 text-gray-600" />
                     <p className="mt-4 text-lg font-medium text-gray-400">Your creations will appear here</p>
-                    <p className="text-sm text-gray-500 mt-1">Describe what you want to create and click Generate</p>
+                    <p className="text-sm text-gray-500 mt-1">Describe what you want to create and click Break Down Story</p>
                 </div>
             </div>
         );
@@ -1033,6 +1561,9 @@ const ResultsView: React.FC<{
                     onHydrateClips={(sceneIndex, clips) => props.onHydrateClipsForUploaded(item.id, sceneIndex, clips)}
                     onGenerateCameraAngles={(index) => props.onGenerateCameraAnglesForUploaded(item.id, index)}
                     onDeleteScene={(sceneIndex) => props.onDeleteSceneForUploaded(item.id, sceneIndex)}
+                    onCancelVideo={(sceneIndex) => props.onCancelVideoForUploaded(item.id, sceneIndex)}
+                    onCancelImageAction={(sceneIndex) => props.onCancelImageActionForUploaded(item.id, sceneIndex)}
+                    usage={props.usageTotals[item.id]}
                  />
              ))}
             {appStatus.status === 'loading' && (
@@ -1040,6 +1571,10 @@ const ResultsView: React.FC<{
                     <LoaderIcon className="w-12 h-12 text-indigo-400 animate-spin mb-4" />
                     <p className="text-lg text-gray-200">{loadingMessage}</p>
                     <p className="text-sm text-gray-400 mt-2">This may take a few moments. Previous results are shown below.</p>
+                    <JobProgressList jobs={props.jobs.filter(isJobActive)} />
+                    {props.onCancelGeneration && (
+                        <button onClick={props.onCancelGeneration} className="mt-4 px-4 py-2 text-sm font-semibold text-white bg-gray-700 rounded-md hover:bg-gray-600">Cancel</button>
+                    )}
                 </div>
             )}
 
@@ -1052,6 +1587,8 @@ const ResultsView: React.FC<{
                 </div>
             )}
 
+            {sceneBreakdown}
+
             {history.map((result) => (
                 <GenerationResultItem
                     key={result.id}
@@ -1066,11 +1603,18 @@ const ResultsView: React.FC<{
                     onDeleteVideo={(index) => props.onDeleteVideo(result.id, index)}
                     onDeleteClip={(sceneIndex, clipIndex) => props.onDeleteClip(result.id, sceneIndex, clipIndex)}
                     onRegenerateImage={(index) => props.onRegenerateImage(result.id, index)}
+                    onCheckConsistency={() => props.onCheckConsistency(result.id)}
+                    onRegenerateInconsistentScenes={() => props.onRegenerateInconsistentScenes(result.id)}
                     onEditImage={(sceneIndex, editPrompt) => props.onEditImage(result.id, sceneIndex, editPrompt)}
                     onUndoEdit={(sceneIndex) => props.onUndoEdit(result.id, sceneIndex)}
                     onHydrateClips={(sceneIndex, clips) => props.onHydrateClips(result.id, sceneIndex, clips)}
                     onGenerateCameraAngles={(index) => props.onGenerateCameraAngles(result.id, index)}
                     onDeleteScene={(index) => props.onDeleteScene(result.id, index)}
+                    onCancelVideo={(index) => props.onCancelVideo(result.id, index)}
+                    onCancelImageAction={(index) => props.onCancelImageAction(result.id, index)}
+                    onTimelineChange={(timeline) => props.onTimelineChange(result.id, timeline)}
+                    onSoundtrackChange={(soundtrack) => props.onSoundtrackChange(result.id, soundtrack)}
+                    usage={props.usageTotals[String(result.id)]}
                 />
             ))}
         </div>
@@ -1078,32 +1622,268 @@ const ResultsView: React.FC<{
 };
 
 
+const ContentProfileManager: React.FC<{
+    profiles: ContentProfile[];
+    selected: ContentProfile;
+    isDisabled: boolean;
+    onChange: () => void; // called after the profile library or selection changed
+}> = ({ profiles, selected, isDisabled, onChange }) => {
+    const update = (changes: Partial<ContentProfile>) => {
+        saveContentProfile({ ...selected, ...changes });
+        onChange();
+    };
+
+    const handleDuplicate = () => {
+        selectContentProfile(duplicateContentProfile(selected).id);
+        onChange();
+    };
+
+    const handleDelete = () => {
+        if (!window.confirm(`Delete the profile "${selected.name}"? Generations made with it keep their copy.`)) return;
+        deleteContentProfile(selected.id);
+        onChange();
+    };
+
+    const inputClass = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="space-y-4 p-2">
+            <div>
+                <label htmlFor="content-profile" className="text-sm text-gray-400 font-semibold mb-2 block">Profile</label>
+                <div className="flex gap-2">
+                    <select id="content-profile" value={selected.id} onChange={(e) => { selectContentProfile(e.target.value); onChange(); }} disabled={isDisabled} className={`${inputClass} appearance-none`}>
+                        {profiles.map(profile => (<option key={profile.id} value={profile.id}>{profile.name}</option>))}
+                    </select>
+                    <button onClick={handleDuplicate} disabled={isDisabled} title="Duplicate this profile" className="px-3 text-sm font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50">Copy</button>
+                    {selected.id !== DEFAULT_CONTENT_PROFILE_ID && (
+                        <button onClick={handleDelete} disabled={isDisabled} title="Delete this profile" className="px-2 text-gray-400 hover:text-red-400 disabled:opacity-50"><TrashIcon className="w-4 h-4" /></button>
+                    )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">New generations use this profile. Each generation keeps the profile it was made with.</p>
+            </div>
+            <div>
+                <label htmlFor="profile-name" className="text-sm text-gray-400 font-semibold mb-2 block">Name</label>
+                <input id="profile-name" value={selected.name} onChange={(e) => update({ name: e.target.value })} disabled={isDisabled} className={inputClass} />
+            </div>
+            <div>
+                <label htmlFor="profile-demographic" className="text-sm text-gray-400 font-semibold mb-2 block">Demographic Direction</label>
+                <input id="profile-demographic" value={selected.demographicDirection} onChange={(e) => update({ demographicDirection: e.target.value })} disabled={isDisabled} placeholder="No direction, e.g. 'of South Asian descent'" className={inputClass} />
+                <p className="text-xs text-gray-500 mt-1">Completes "All human characters must be ...".</p>
+            </div>
+            <div>
+                <label htmlFor="profile-setting" className="text-sm text-gray-400 font-semibold mb-2 block">Cultural Setting</label>
+                <textarea id="profile-setting" rows={2} value={selected.culturalSetting} onChange={(e) => update({ culturalSetting: e.target.value })} disabled={isDisabled} className={`${inputClass} resize-none`} />
+            </div>
+            <div>
+                <label htmlFor="profile-topics" className="text-sm text-gray-400 font-semibold mb-2 block">Forbidden Topics</label>
+                <textarea
+                    id="profile-topics"
+                    rows={2}
+                    value={selected.forbiddenTopics.join(', ')}
+                    onChange={(e) => update({ forbiddenTopics: e.target.value.split(',').map(topic => topic.trimStart()) })}
+                    disabled={isDisabled}
+                    placeholder="Comma-separated"
+                    className={`${inputClass} resize-none`}
+                />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={selected.familyFriendly} onChange={(e) => update({ familyFriendly: e.target.checked })} disabled={isDisabled} className="accent-indigo-500" />
+                Keep scenes family-friendly
+            </label>
+            <div>
+                <p className="text-sm text-gray-400 font-semibold mb-2">Safety Filters</p>
+                <div className="space-y-1">
+                    {(Object.keys(SAFETY_CATEGORY_LABELS) as SafetyCategory[]).map(category => (
+                        <div key={category} className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-gray-400">{SAFETY_CATEGORY_LABELS[category]}</span>
+                            <select
+                                value={selected.safetyThresholds[category]}
+                                onChange={(e) => update({ safetyThresholds: { ...selected.safetyThresholds, [category]: e.target.value as SafetyThreshold } })}
+                                disabled={isDisabled}
+                                className="bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1 appearance-none"
+                            >
+                                {(Object.keys(SAFETY_THRESHOLD_LABELS) as SafetyThreshold[]).map(threshold => (<option key={threshold} value={threshold}>{SAFETY_THRESHOLD_LABELS[threshold]}</option>))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const StyleLibraryManager: React.FC<{
+    style: StyleDefinition;
+    isDisabled: boolean;
+    onSelect: (name: string) => void; // makes a style the current image style
+    onChange: () => void; // called after the library changed
+}> = ({ style, isDisabled, onSelect, onChange }) => {
+    const [error, setError] = useState<string | null>(null);
+    const [nameDraft, setNameDraft] = useState(style.name);
+    const referenceInputRef = useRef<HTMLInputElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => setNameDraft(style.name), [style.id, style.name]);
+
+    const run = async (action: () => void | Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+            onChange();
+        } catch (err) {
+            setError(parseErrorMessage(err));
+        }
+    };
+
+    const update = (changes: Partial<StyleDefinition>) => run(() => saveStyle({ ...style, ...changes }));
+
+    // Names are committed on blur so that a half-typed name never clashes with another style.
+    const handleRename = () => {
+        const name = nameDraft.trim();
+        if (name === style.name) return;
+        setError(null);
+        try {
+            saveStyle({ ...style, name });
+            onSelect(name);
+            onChange();
+        } catch (err) {
+            setError(parseErrorMessage(err));
+            setNameDraft(style.name);
+        }
+    };
+
+    const handleAddReference = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        run(async () => {
+            let current = style;
+            for (const file of files) {
+                current = await addStyleReferenceImage(current, await fileToBase64(file), file.type);
+            }
+        });
+    };
+
+    const handleExport = (ids: string[], fileName: string) => {
+        const url = URL.createObjectURL(exportStyles(ids));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) run(async () => { await importStyles(file); });
+    };
+
+    const buttonClass = "px-2 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50";
+    const inputClass = "w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="space-y-4 p-2">
+            <p className="text-xs text-gray-500">Editing the current image style. Images, edits, videos and voiceovers all use this definition.</p>
+            <div className="flex flex-wrap gap-2">
+                <button onClick={() => run(() => onSelect(createStyle().name))} disabled={isDisabled} className={buttonClass}>New</button>
+                <button onClick={() => run(() => onSelect(createStyle(style).name))} disabled={isDisabled} className={buttonClass}>Duplicate</button>
+                {style.builtIn
+                    ? <button onClick={() => run(() => resetStyle(style.id))} disabled={isDisabled} className={buttonClass}>Reset</button>
+                    : <button onClick={() => { if (window.confirm(`Delete the style "${style.name}"?`)) run(() => { deleteStyle(style.id); onSelect(listStyles()[0].name); }); }} disabled={isDisabled} className={buttonClass}>Delete</button>}
+                <button onClick={() => importInputRef.current?.click()} disabled={isDisabled} className={buttonClass}>Import</button>
+                <button onClick={() => handleExport([style.id], `style-${style.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}.json`)} className={buttonClass}>Export</button>
+                <button onClick={() => handleExport(listStyles().filter(s => !s.builtIn).map(s => s.id), 'storyweaver-styles.json')} disabled={!listStyles().some(s => !s.builtIn)} className={buttonClass}>Export Custom</button>
+                <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+            </div>
+            <div>
+                <label htmlFor="style-name" className="text-sm text-gray-400 font-semibold mb-2 block">Name</label>
+                <input id="style-name" value={nameDraft} onChange={(e) => setNameDraft(e.target.value)} onBlur={handleRename} disabled={isDisabled} className={inputClass} />
+            </div>
+            <div>
+                <label htmlFor="style-guide" className="text-sm text-gray-400 font-semibold mb-2 block">Prompt Guide</label>
+                <textarea id="style-guide" rows={4} value={style.promptGuide} onChange={(e) => update({ promptGuide: e.target.value })} disabled={isDisabled} className={`${inputClass} resize-none`} />
+            </div>
+            <div>
+                <label htmlFor="style-negative" className="text-sm text-gray-400 font-semibold mb-2 block">Negative Guidance</label>
+                <textarea id="style-negative" rows={2} value={style.negativeGuidance} onChange={(e) => update({ negativeGuidance: e.target.value })} disabled={isDisabled} placeholder="What this style must avoid" className={`${inputClass} resize-none`} />
+            </div>
+            <div>
+                <p className="text-sm text-gray-400 font-semibold mb-2">Reference Images</p>
+                <div className="flex flex-wrap gap-2">
+                    {style.referenceImages.map(image => {
+                        const data = getStyleReferenceImageData(image);
+                        return (
+                            <div key={image.assetId} className="relative w-16 h-16 rounded-md overflow-hidden bg-black/30 group">
+                                {data && <img src={`data:${image.mimeType};base64,${data}`} alt="" className="w-full h-full object-cover" />}
+                                <button onClick={() => update({ referenceImages: style.referenceImages.filter(other => other.assetId !== image.assetId) })} disabled={isDisabled} className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 rounded-full text-white opacity-0 group-hover:opacity-100"><XIcon className="w-3 h-3" /></button>
+                            </div>
+                        );
+                    })}
+                    <button onClick={() => referenceInputRef.current?.click()} disabled={isDisabled} title="Add reference images" className="w-16 h-16 flex items-center justify-center rounded-md border-2 border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 disabled:opacity-50">
+                        <PlusCircleIcon className="w-6 h-6" />
+                    </button>
+                    <input type="file" ref={referenceInputRef} onChange={handleAddReference} accept="image/*" multiple className="hidden" />
+                </div>
+                {style.referenceImages.length > 0 && <p className="text-xs text-gray-500 mt-1">Scenes in this style are rendered with Nano Banana, which can take reference images.</p>}
+            </div>
+            <div>
+                <label htmlFor="style-voice" className="text-sm text-gray-400 font-semibold mb-2 block">Narration Voice</label>
+                <select id="style-voice" value={style.ttsVoice ?? ''} onChange={(e) => update({ ttsVoice: e.target.value || null })} disabled={isDisabled} className={`${inputClass} appearance-none`}>
+                    <option value="">Automatic ({DEFAULT_NARRATOR_VOICE})</option>
+                    {TTS_VOICES.map(voice => (<option key={voice} value={voice}>{voice} ({TTS_VOICE_TONES[voice]})</option>))}
+                </select>
+            </div>
+            <div>
+                <label htmlFor="style-speech" className="text-sm text-gray-400 font-semibold mb-2 block">Narration Direction</label>
+                <textarea id="style-speech" rows={2} value={style.speechDirection} onChange={(e) => update({ speechDirection: e.target.value })} disabled={isDisabled} className={`${inputClass} resize-none`} />
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
+
 const CharacterManager: React.FC<{
-    characters: Character[];
+    characters: Character[]; // the whole library
     setCharacters: React.Dispatch<React.SetStateAction<Character[]>>;
+    castIds: number[]; // the library characters used for new generations
+    setCastIds: React.Dispatch<React.SetStateAction<number[]>>;
+    imageStyle: string; // the narrator speaks in this style's voice, which characters are cast around
     isDisabled: boolean;
-}> = ({ characters, setCharacters, isDisabled }) => {
+}> = ({ characters, setCharacters, castIds, setCastIds, imageStyle, isDisabled }) => {
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const [referenceKind, setReferenceKind] = useState<CharacterReferenceKind>('fullBody');
+    const [error, setError] = useState<string | null>(null);
+    const [previewingId, setPreviewingId] = useState<number | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const previewAudioRef = useRef<HTMLAudioElement | null>(null);
+
+    useEffect(() => () => previewAudioRef.current?.pause(), []);
 
     const addCharacter = () => {
-        if (characters.length < 4) {
-            setCharacters(prev => [...prev, { id: Date.now(), name: '', imagePreview: null, originalImageBase64: null, originalImageMimeType: null, description: null, detectedImageStyle: null, isDescribing: false }]);
-        }
+        const character = createCharacter();
+        setCharacters(prev => [...prev, character]);
+        setCastIds(prev => [...prev, character.id]);
+        setExpandedId(character.id);
     };
 
     const removeCharacter = (id: number) => {
         const charToRemove = characters.find(c => c.id === id);
+        if (!window.confirm(`Remove ${charToRemove?.name || 'this character'} from the character library?`)) return;
         if (charToRemove?.imagePreview) {
             URL.revokeObjectURL(charToRemove.imagePreview);
         }
         setCharacters(prev => prev.filter(c => c.id !== id));
+        setCastIds(prev => prev.filter(castId => castId !== id));
     };
 
-    const updateCharacterName = (id: number, name: string) => {
-        setCharacters(prev => prev.map(c => c.id === id ? { ...c, name } : c));
+    const updateCharacter = (id: number, changes: Partial<Character>) => {
+        setCharacters(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
     };
 
-    const updateCharacterDescription = (id: number, description: string) => {
-        setCharacters(prev => prev.map(c => c.id === id ? { ...c, description } : c));
+    const toggleCast = (id: number) => {
+        setCastIds(prev => prev.includes(id) ? prev.filter(castId => castId !== id) : [...prev, id]);
     };
 
     const handleCharacterImageUpload = async (id: number, file: File) => {
@@ -1123,92 +1903,252 @@ const CharacterManager: React.FC<{
         }
     };
 
+    const handleAddReference = async (id: number, e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(e.target.files ?? []);
+        e.target.value = '';
+        setError(null);
+        try {
+            for (const file of files) {
+                const image = await storeCharacterReferenceImage(await fileToBase64(file), file.type, referenceKind);
+                setCharacters(prev => prev.map(c => c.id === id ? { ...c, referenceImages: [...(c.referenceImages ?? []), image] } : c));
+            }
+        } catch (err) {
+            setError(parseErrorMessage(err));
+        }
+    };
+
+    const updateOutfit = (character: Character, outfitId: string, changes: Partial<CharacterOutfit>) => {
+        updateCharacter(character.id, { outfits: (character.outfits ?? []).map(outfit => outfit.id === outfitId ? { ...outfit, ...changes } : outfit) });
+    };
+
+    const removeOutfit = (character: Character, outfitId: string) => {
+        updateCharacter(character.id, {
+            outfits: (character.outfits ?? []).filter(outfit => outfit.id !== outfitId),
+            outfitId: character.outfitId === outfitId ? null : character.outfitId,
+        });
+    };
+
+    const handleExport = (list: Character[], fileName: string) => {
+        const url = URL.createObjectURL(exportCharacters(list));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const imported = await importCharacters(file, characters);
+            setCharacters(prev => [...prev, ...imported]);
+        } catch (err) {
+            setError(parseErrorMessage(err));
+        }
+    };
+
+    const handlePreviewVoice = async (character: Character) => {
+        previewAudioRef.current?.pause();
+        setPreviewingId(character.id);
+        setError(null);
+        try {
+            const audioBase64 = await previewCharacterVoice(character, cast, imageStyle);
+            const url = URL.createObjectURL(new Blob([toPlayableAudio(base64ToBytes(audioBase64))], { type: 'audio/wav' }));
+            const audio = new Audio(url);
+            audio.onended = () => URL.revokeObjectURL(url);
+            previewAudioRef.current = audio;
+            await audio.play();
+        } catch (err) {
+            setError(parseErrorMessage(err));
+        } finally {
+            setPreviewingId(null);
+        }
+    };
+
+    const buttonClass = "px-2 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 disabled:opacity-50";
+    const inputClass = "w-full bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1.5 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500";
+    const cast = characters.filter(c => castIds.includes(c.id));
+    const narratorVoice = getNarratorVoice(imageStyle);
+    const castVoices = buildVoiceMap(cast, [narratorVoice]);
+    // The voice "Automatic" gives a character: its place in the cast's voice map, or where it would go if added.
+    const automaticVoiceOf = (character: Character) => castVoices.get(character.id)
+        ?? buildVoiceMap([...cast, { ...character, voiceName: null }], [narratorVoice]).get(character.id);
+
     return (
         <div className="space-y-3">
-            {characters.map((char) => (
-                <div key={char.id} className="flex items-start gap-3 bg-gray-800/50 p-2.5 rounded-lg">
-                    <label className="w-16 h-16 bg-gray-700 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 relative shrink-0">
-                        <input
-                            type="file"
-                            accept="image/*"
-                            className="hidden"
-                            disabled={isDisabled || char.isDescribing}
-                            onChange={(e) => {
-                                if (e.target.files?.[0]) {
-                                    handleCharacterImageUpload(char.id, e.target.files[0]);
-                                }
-                            }}
-                        />
-                        {char.imagePreview ? (
-                            <img src={char.imagePreview} alt={char.name} className="w-full h-full object-cover rounded-md" />
-                        ) : (
-                            <span className="text-xs text-gray-400 text-center">Upload Face</span>
-                        )}
-                        {char.isDescribing && (
-                            <div className="absolute inset-0 bg-black/70 flex items-center justify-center rounded-md">
-                                <LoaderIcon className="w-6 h-6 animate-spin text-white" />
+            <div className="flex flex-wrap items-center gap-2">
+                <p className="text-xs text-gray-500 flex-1">{cast.length} of {characters.length} in the cast for new generations.</p>
+                <button onClick={() => importInputRef.current?.click()} disabled={isDisabled} className={buttonClass}>Import</button>
+                <button onClick={() => handleExport(cast, 'storyweaver-cast.json')} disabled={cast.length === 0} className={buttonClass}>Export Cast</button>
+                <button onClick={() => handleExport(characters, 'storyweaver-characters.json')} disabled={characters.length === 0} className={buttonClass}>Export All</button>
+                <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+            </div>
+            {characters.map((char) => {
+                const isExpanded = expandedId === char.id;
+                const outfits = char.outfits ?? [];
+                const referenceImages = char.referenceImages ?? [];
+                return (
+                <div key={char.id} className={`bg-gray-800/50 p-2.5 rounded-lg space-y-3 ${castIds.includes(char.id) ? '' : 'opacity-60'}`}>
+                    <div className="flex items-start gap-3">
+                        <label className="w-16 h-16 bg-gray-700 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-600 relative shrink-0">
+                            <input
+                                type="file"
+                                accept="image/*"
+                                className="hidden"
+                                disabled={isDisabled || char.isDescribing}
+                                onChange={(e) => {
+                                    if (e.target.files?.[0]) {
+                                        handleCharacterImageUpload(char.id, e.target.files[0]);
+                                    }
+                                }}
+                            />
+                            {char.imagePreview ? (
+                                <img src={char.imagePreview} alt={char.name} className="w-full h-full object-cover rounded-md" />
+                            ) : (
+                                <span className="text-xs text-gray-400 text-center">Upload Face</span>
+                            )}
+                            {char.isDescribing && (
+                                <div className="absolute inset-0 bg-black/70 flex items-center justify-center rounded-md">
+                                    <LoaderIcon className="w-6 h-6 animate-spin text-white" />
+                                </div>
+                            )}
+                        </label>
+                        <div className="flex-1 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    placeholder="Character Name"
+                                    value={char.name}
+                                    disabled={isDisabled}
+                                    onChange={(e) => updateCharacter(char.id, { name: e.target.value })}
+                                    className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-1.5 focus:ring-1 focus:ring-indigo-500"
+                                />
+                                <label className="flex items-center gap-1 text-xs text-gray-400 shrink-0" title="Use this character in new generations">
+                                    <input type="checkbox" checked={castIds.includes(char.id)} onChange={() => toggleCast(char.id)} disabled={isDisabled} className="rounded bg-gray-700 border-gray-600 text-indigo-500 focus:ring-indigo-500" />
+                                    In cast
+                                </label>
                             </div>
-                        )}
-                    </label>
-                    <div className="flex-1 space-y-2">
-                        <input
-                            type="text"
-                            placeholder="Character Name"
-                            value={char.name}
-                            disabled={isDisabled}
-                            onChange={(e) => updateCharacterName(char.id, e.target.value)}
-                            className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-1.5 focus:ring-1 focus:ring-indigo-500"
-                        />
-                        <textarea
-                            placeholder={char.isDescribing ? 'AI is analyzing...' : 'AI description will appear here.'}
-                            value={char.description || ''}
-                            disabled={isDisabled || char.isDescribing}
-                            onChange={(e) => updateCharacterDescription(char.id, e.target.value)}
-                            className="w-full text-xs h-10 bg-gray-700/50 border border-transparent text-gray-300 rounded-md p-1 resize-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
-                            rows={2}
-                        />
+                            <textarea
+                                placeholder={char.isDescribing ? 'AI is analyzing...' : 'AI description will appear here.'}
+                                value={char.description || ''}
+                                disabled={isDisabled || char.isDescribing}
+                                onChange={(e) => updateCharacter(char.id, { description: e.target.value })}
+                                className="w-full text-xs h-10 bg-gray-700/50 border border-transparent text-gray-300 rounded-md p-1 resize-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500"
+                                rows={2}
+                            />
+                        </div>
+                        <div className="flex flex-col items-center gap-2">
+                            <button
+                                onClick={() => removeCharacter(char.id)}
+                                disabled={isDisabled || char.isDescribing}
+                                title="Remove from library"
+                                className="text-gray-500 hover:text-red-400 disabled:text-gray-600"
+                            >
+                                <XCircleIcon className="w-5 h-5" />
+                            </button>
+                            <button onClick={() => setExpandedId(isExpanded ? null : char.id)} title={isExpanded ? 'Hide details' : 'Show references, outfits and voice'} className="text-gray-500 hover:text-white">
+                                {isExpanded ? <ChevronUpIcon className="w-5 h-5" /> : <ChevronDownIcon className="w-5 h-5" />}
+                            </button>
+                        </div>
                     </div>
-                    <button
-                        onClick={() => removeCharacter(char.id)}
-                        disabled={isDisabled || char.isDescribing}
-                        className="text-gray-500 hover:text-red-400 disabled:text-gray-600"
-                    >
-                        <XCircleIcon className="w-5 h-5" />
-                    </button>
+                    {isExpanded && (
+                        <div className="space-y-3 border-t border-gray-700 pt-3">
+                            <div>
+                                <p className="text-xs text-gray-400 font-semibold mb-1">Reference Images</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {referenceImages.map(image => {
+                                        const data = getCharacterReferenceImageData(image);
+                                        return (
+                                            <div key={image.assetId} className="relative w-14 h-14 rounded-md overflow-hidden bg-black/30 group" title={REFERENCE_KIND_LABELS[image.kind]}>
+                                                {data && <img src={`data:${image.mimeType};base64,${data}`} alt="" className="w-full h-full object-cover" />}
+                                                <span className="absolute bottom-0 inset-x-0 bg-black/60 text-[10px] text-center text-gray-200">{REFERENCE_KIND_LABELS[image.kind]}</span>
+                                                <button onClick={() => updateCharacter(char.id, { referenceImages: referenceImages.filter(other => other !== image) })} disabled={isDisabled} className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 rounded-full text-white opacity-0 group-hover:opacity-100"><XIcon className="w-3 h-3" /></button>
+                                            </div>
+                                        );
+                                    })}
+                                    <label className={`w-14 h-14 flex items-center justify-center rounded-md border-2 border-dashed border-gray-600 text-gray-400 hover:text-white hover:border-gray-400 ${isDisabled ? 'opacity-50' : 'cursor-pointer'}`} title="Add reference images">
+                                        <PlusCircleIcon className="w-5 h-5" />
+                                        <input type="file" accept="image/*" multiple className="hidden" disabled={isDisabled} onChange={(e) => handleAddReference(char.id, e)} />
+                                    </label>
+                                    <select value={referenceKind} onChange={(e) => setReferenceKind(e.target.value as CharacterReferenceKind)} disabled={isDisabled} className="self-center bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1">
+                                        {(Object.keys(REFERENCE_KIND_LABELS) as CharacterReferenceKind[]).map(kind => (<option key={kind} value={kind}>{REFERENCE_KIND_LABELS[kind]}</option>))}
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <div className="flex items-center justify-between mb-1">
+                                    <p className="text-xs text-gray-400 font-semibold">Outfits</p>
+                                    <button onClick={() => updateCharacter(char.id, { outfits: [...outfits, createOutfit()] })} disabled={isDisabled} className={buttonClass}>Add Outfit</button>
+                                </div>
+                                <div className="space-y-2">
+                                    {outfits.map(outfit => (
+                                        <div key={outfit.id} className="flex items-start gap-2">
+                                            <input type="radio" name={`outfit-${char.id}`} checked={char.outfitId === outfit.id} onChange={() => updateCharacter(char.id, { outfitId: outfit.id })} disabled={isDisabled} title="Wear in new scenes" className="mt-2" />
+                                            <div className="flex-1 space-y-1">
+                                                <input value={outfit.name} onChange={(e) => updateOutfit(char, outfit.id, { name: e.target.value })} disabled={isDisabled} placeholder="Outfit name, e.g. School uniform" className={inputClass} />
+                                                <textarea value={outfit.description} onChange={(e) => updateOutfit(char, outfit.id, { description: e.target.value })} disabled={isDisabled} placeholder="What the outfit looks like" rows={2} className={`${inputClass} resize-none`} />
+                                            </div>
+                                            <button onClick={() => removeOutfit(char, outfit.id)} disabled={isDisabled} className="mt-1.5 text-gray-500 hover:text-red-400"><XIcon className="w-4 h-4" /></button>
+                                        </div>
+                                    ))}
+                                    {outfits.length > 0 && (
+                                        <label className="flex items-center gap-2 text-xs text-gray-400">
+                                            <input type="radio" name={`outfit-${char.id}`} checked={!char.outfitId} onChange={() => updateCharacter(char.id, { outfitId: null })} disabled={isDisabled} />
+                                            As in the description
+                                        </label>
+                                    )}
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label htmlFor={`voice-${char.id}`} className="text-xs text-gray-400 font-semibold mb-1 block">Voice</label>
+                                    <div className="flex gap-1">
+                                        <select id={`voice-${char.id}`} value={char.voiceName ?? ''} onChange={(e) => updateCharacter(char.id, { voiceName: e.target.value || null })} disabled={isDisabled} className={`${inputClass} appearance-none`}>
+                                            <option value="">{char.voiceName ? 'Automatic' : `Automatic (${automaticVoiceOf(char) ?? narratorVoice})`}</option>
+                                            {TTS_VOICES.map(voice => (<option key={voice} value={voice}>{voice} ({TTS_VOICE_TONES[voice]})</option>))}
+                                        </select>
+                                        <button onClick={() => handlePreviewVoice(char)} disabled={isDisabled || previewingId !== null} title="Hear a sample line in this voice" className={buttonClass}>
+                                            {previewingId === char.id ? <LoaderIcon className="w-3.5 h-3.5 animate-spin" /> : 'Preview'}
+                                        </button>
+                                    </div>
+                                    <input value={char.voiceStyle ?? ''} onChange={(e) => updateCharacter(char.id, { voiceStyle: e.target.value })} disabled={isDisabled} placeholder="Speaking style, e.g. warm and unhurried" className={`${inputClass} mt-1`} />
+                                    <input value={char.accentNotes ?? ''} onChange={(e) => updateCharacter(char.id, { accentNotes: e.target.value })} disabled={isDisabled} placeholder="Accent, e.g. Lagos Nigerian English" className={`${inputClass} mt-1`} />
+                                </div>
+                                <div>
+                                    <label htmlFor={`personality-${char.id}`} className="text-xs text-gray-400 font-semibold mb-1 block">Personality</label>
+                                    <textarea id={`personality-${char.id}`} value={char.personality ?? ''} onChange={(e) => updateCharacter(char.id, { personality: e.target.value })} disabled={isDisabled} placeholder="Temperament, mannerisms" rows={2} className={`${inputClass} resize-none`} />
+                                </div>
+                            </div>
+                        </div>
+                    )}
                 </div>
-            ))}
-            {characters.length < 4 && (
-                <button
-                    onClick={addCharacter}
-                    disabled={isDisabled}
-                    className="w-full flex items-center justify-center gap-2 p-2 text-sm font-semibold text-indigo-300 bg-indigo-500/10 rounded-md hover:bg-indigo-500/20 transition-colors disabled:bg-gray-700 disabled:text-gray-500"
-                >
-                    <UserPlusIcon className="w-5 h-5" />
-                    Add Character
-                </button>
-            )}
+                );
+            })}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <button
+                onClick={addCharacter}
+                disabled={isDisabled}
+                className="w-full flex items-center justify-center gap-2 p-2 text-sm font-semibold text-indigo-300 bg-indigo-500/10 rounded-md hover:bg-indigo-500/20 transition-colors disabled:bg-gray-700 disabled:text-gray-500"
+            >
+                <UserPlusIcon className="w-5 h-5" />
+                Add Character
+            </button>
         </div>
     );
 };
 
-const calculateTimeRemaining = (expiresAt: number): string => {
-    const now = Date.now();
-    const diff = expiresAt - now;
-    if (diff <= 0) return "Expired";
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    if (days > 0) return `Expires in ${days} day${days > 1 ? 's' : ''}`;
-    const hours = Math.floor(diff / (1000 * 60 * 60));
-    if (hours > 0) return `Expires in ${hours} hour${hours > 1 ? 's' : ''}`;
-    const minutes = Math.floor(diff / (1000 * 60));
-    return `Expires in ${minutes} min${minutes > 1 ? 's' : ''}`;
-};
-
-
 const SavedItemsManager: React.FC<{
     savedItems: SavedItem[];
+    storageUsage: StorageUsage | null;
     onUnsave: (itemId: string) => void;
+    onClearAll: () => void;
     onSelect: (item: SavedItem) => void;
-}> = ({ savedItems, onUnsave, onSelect }) => {
+}> = ({ savedItems, storageUsage, onUnsave, onClearAll, onSelect }) => {
     
     if (savedItems.length === 0) {
         return (
@@ -1221,16 +2161,39 @@ const SavedItemsManager: React.FC<{
         );
     }
 
+    const itemSize = (item: SavedItem) =>
+        getSavedItemAssetIds(item).reduce((sum, id) => sum + (storageUsage?.sizes[id] ?? 0), 0);
+
     return (
         <div className="space-y-4">
-            {savedItems.sort((a,b) => b.expiresAt - a.expiresAt).map(item => (
+            {storageUsage && (
+                <div className="bg-gray-800/50 p-3 rounded-lg text-xs text-gray-400 space-y-2">
+                    <div className="flex justify-between items-center">
+                        <span>Stored media: <span className="text-gray-200 font-semibold">{formatBytes(storageUsage.assetBytes)}</span> in {storageUsage.assetCount} file{storageUsage.assetCount === 1 ? '' : 's'}</span>
+                        <button onClick={onClearAll} className="text-red-400 hover:text-red-300 font-semibold">Remove all</button>
+                    </div>
+                    {storageUsage.usage !== null && storageUsage.quota !== null && storageUsage.quota > 0 && (
+                        <>
+                            <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-amber-500" style={{ width: `${Math.min(100, (storageUsage.usage / storageUsage.quota) * 100)}%` }} />
+                            </div>
+                            <p>Browser storage: {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used</p>
+                        </>
+                    )}
+                </div>
+            )}
+            {savedItems.sort((a,b) => b.savedAt - a.savedAt).map(item => (
                 <div 
                     key={item.id} 
                     className="bg-gray-800/50 p-3 rounded-lg flex gap-3 relative cursor-pointer hover:bg-gray-700/50 transition-colors"
                     onDoubleClick={() => onSelect(item)}
                 >
                      <div className="w-24 h-24 shrink-0 relative">
-                        <img src={`data:image/png;base64,${item.scene.src}`} alt="Saved item" className="w-full h-full object-cover rounded-md"/>
+                        {item.scene.src ? (
+                            <img src={`data:image/png;base64,${item.scene.src}`} alt="Saved item" className="w-full h-full object-cover rounded-md"/>
+                        ) : (
+                            <div className="w-full h-full rounded-md bg-gray-700 flex items-center justify-center text-center text-[10px] text-gray-400 p-1">Media not stored on this device</div>
+                        )}
                         {item.videoState?.status === 'success' && (
                             <div className="absolute bottom-1 right-1 bg-black/60 p-1 rounded-full backdrop-blur-sm">
                                 <VideoIcon className="w-4 h-4 text-green-300" />
@@ -1240,9 +2203,9 @@ const SavedItemsManager: React.FC<{
                      <div className="overflow-hidden">
                         <p className="text-xs text-indigo-400 font-semibold truncate">{item.imageStyle} &bull; {item.aspectRatio}</p>
                         <p className="text-sm text-gray-300 mt-1 line-clamp-2">{item.scene.prompt}</p>
-                        <p className="text-xs text-gray-500 mt-2 font-mono">{calculateTimeRemaining(item.expiresAt)}</p>
+                        <p className="text-xs text-gray-500 mt-2 font-mono">Saved {new Date(item.savedAt).toLocaleDateString()}{storageUsage ? ` \u2022 ${formatBytes(itemSize(item))}` : ''}</p>
                      </div>
-                     <button onClick={(e) => { e.stopPropagation(); onUnsave(item.id);}} className="absolute top-2 right-2 text-gray-500 hover:text-red-400">
+                     <button onClick={(e) => { e.stopPropagation(); onUnsave(item.id);}} className="absolute top-2 right-2 text-gray-500 hover:text-red-400" title="Remove saved item">
                         <XCircleIcon className="w-5 h-5" />
                      </button>
                 </div>
@@ -1301,44 +2264,79 @@ const CameraAngleModal: React.FC<{
 
 const AudioAssignmentManager: React.FC<{
     assignment: AudioAssignment;
-    onAssign: (newAssignment: { type: 'character'; characterId: number } | { type: 'background' } | null) => void;
+    characters: Character[]; // the cast speakers can be mapped to
+    onChange: (changes: Partial<AudioAssignment>) => void;
     isDisabled: boolean;
-}> = ({ assignment, onAssign, isDisabled }) => {
+}> = ({ assignment, characters, onChange, isDisabled }) => {
     
-    const { transcription, detectedCharacters, assignment: currentAssignment } = assignment;
-    const canAssign = detectedCharacters.length > 0;
+    const { transcript, speakerMap, assignment: currentAssignment } = assignment;
+    const hasSegments = transcript.segments.length > 0;
+    const hasMappedSpeaker = Object.values(speakerMap).some(id => id !== null && characters.some(c => c.id === id));
+
+    const optionClass = (isSelected: boolean, selectedClass: string) => `px-3 py-1 text-xs font-semibold rounded-md transition-colors text-center border disabled:opacity-50 ${
+        isSelected ? selectedClass : 'bg-gray-700 text-gray-300 hover:bg-gray-600 border-gray-600'
+    }`;
     
     return (
         <div className="space-y-3 mt-4 p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
             <div>
                 <h4 className="text-sm font-semibold text-green-300 uppercase tracking-wider mb-2">Uploaded Audio</h4>
-                <p className="text-xs text-gray-400 bg-black/20 p-2 rounded-md font-mono italic">"{transcription}"</p>
+                <div className="text-xs text-gray-400 bg-black/20 p-2 rounded-md font-mono max-h-40 overflow-y-auto space-y-1">
+                    {hasSegments ? transcript.segments.map((segment, index) => (
+                        <p key={index}>
+                            <span className="text-gray-500">{segment.startSeconds.toFixed(1)}s</span>{' '}
+                            <span className="text-indigo-300">{characters.find(c => c.id === speakerMap[segment.speaker])?.name || segment.speaker}:</span>{' '}
+                            <span className="italic">{segment.text}</span>
+                        </p>
+                    )) : <p className="italic">No speech was found.</p>}
+                </div>
             </div>
-            {canAssign && (
-                 <div>
-                    <h5 className="font-semibold text-white text-sm mb-2">How should this audio be used for video?</h5>
-                    <div className="flex flex-wrap gap-2">
-                        {detectedCharacters.map(char => (
-                            <button
-                                key={char.id}
-                                disabled={isDisabled}
-                                onClick={() => onAssign({ type: 'character', characterId: char.id })}
-                                className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors text-center border ${
-                                    currentAssignment?.type === 'character' && currentAssignment.characterId === char.id
-                                        ? 'bg-green-600 text-white border-green-500 shadow-md'
-                                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600 border-gray-600'
-                                }`}
-                            >
-                                Assign to: {char.name}
-                            </button>
+            {hasSegments && (
+                <div>
+                    <h5 className="font-semibold text-white text-sm mb-2">Who is speaking?</h5>
+                    <div className="space-y-1.5">
+                        {transcript.speakers.map(speaker => (
+                            <label key={speaker} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                                <span className="font-semibold truncate">{speaker}</span>
+                                <select
+                                    value={speakerMap[speaker] ?? ''}
+                                    disabled={isDisabled}
+                                    onChange={(e) => onChange({ speakerMap: { ...speakerMap, [speaker]: e.target.value ? Number(e.target.value) : null } })}
+                                    className="bg-gray-800 border border-gray-600 rounded-md p-1 text-xs text-gray-200"
+                                >
+                                    <option value="">Narrator (off screen)</option>
+                                    {characters.map(c => <option key={c.id} value={c.id}>{c.name || 'Unnamed character'}</option>)}
+                                </select>
+                            </label>
                         ))}
                     </div>
                 </div>
             )}
+            <div>
+                <h5 className="font-semibold text-white text-sm mb-2">How should this audio be used for video?</h5>
+                <div className="flex flex-wrap gap-2">
+                    <button
+                        disabled={isDisabled || !hasMappedSpeaker}
+                        onClick={() => onChange({ assignment: { type: 'speakers' } })}
+                        title="Play the recording and lip-sync each line to the character who speaks it"
+                        className={optionClass(currentAssignment?.type === 'speakers', 'bg-green-600 text-white border-green-500 shadow-md')}
+                    >
+                        Lip-sync to Speakers
+                    </button>
+                    <button
+                        disabled={isDisabled || !hasSegments}
+                        onClick={() => onChange({ assignment: { type: 'script' } })}
+                        title="Have each character's own voice read the transcript as the scene's dialogue"
+                        className={optionClass(currentAssignment?.type === 'script', 'bg-green-600 text-white border-green-500 shadow-md')}
+                    >
+                        Re-voice as Script
+                    </button>
+                </div>
+            </div>
             <div>
                  <button
                     disabled={isDisabled}
-                    onClick={() => onAssign({ type: 'background' })}
+                    onClick={() => onChange({ assignment: { type: 'background' } })}
                     className={`w-full px-3 py-1.5 mt-2 text-sm font-semibold rounded-md transition-colors text-center border ${
                         currentAssignment?.type === 'background'
                             ? 'bg-indigo-600 text-white border-indigo-500 shadow-md'
@@ -1352,45 +2350,6 @@ const AudioAssignmentManager: React.FC<{
     );
 };
 
-const extractFrameAsBase64 = (videoUrl: string): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const video = document.createElement('video');
-        video.crossOrigin = "anonymous";
-        video.preload = 'metadata';
-
-        video.onloadedmetadata = () => {
-            video.currentTime = Math.max(0, video.duration - 0.1); 
-        };
-
-        video.onseeked = () => {
-            try {
-                const canvas = document.createElement('canvas');
-                canvas.width = video.videoWidth;
-                canvas.height = video.videoHeight;
-                const ctx = canvas.getContext('2d');
-                if (!ctx) {
-                    return reject(new Error('Could not get canvas context.'));
-                }
-                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                const base64 = canvas.toDataURL('image/png').split(',')[1];
-                if (!base64) {
-                     return reject(new Error('Canvas toDataURL returned empty.'));
-                }
-                resolve(base64); 
-            } catch (e) {
-                reject(e);
-            }
-        };
-
-        video.onerror = (e) => {
-            reject(new Error('Failed to load video for frame extraction.'));
-        };
-
-        video.src = videoUrl;
-    });
-};
-
-
 export default function App() {
   const getInitialVideoState = (): VideoState => ({
     status: 'idle', clips: [], currentClipIndex: 0, error: null, loadingMessage: '', showScriptInput: false, scriptPrompt: '', voiceoverMode: 'tts', voiceoverFile: null, speaker: 'Narrator', cameraMovement: 'Static Hold',
@@ -1400,16 +2359,31 @@ export default function App() {
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState<boolean>(false);
   const [appStatus, setAppStatus] = useState<AppStatus>({ status: 'idle', error: null });
   const [generationHistory, setGenerationHistory] = useState<GenerationItem[]>([]);
+  const [sceneDraft, setSceneDraft] = useState<SceneDraft | null>(null);
   const [loadingMessage, setLoadingMessage] = useState('');
   const [imageCount, setImageCount] = useState<number>(1);
   const [aspectRatio, setAspectRatio] = useState<string>('16:9');
   const [imageStyle, setImageStyle] = useState<string>('Nigerian Cartoon');
+  const [styles, setStyles] = useState<StyleDefinition[]>(listStyles);
   const [imageModel, setImageModel] = useState<string>('gemini-2.5-flash-image');
   const [videoModel, setVideoModel] = useState<string>('veo-3.1-fast-generate-preview');
   const [videoResolution, setVideoResolution] = useState<'720p' | '1080p'>('720p');
   const [genre, setGenre] = useState<string>('General');
+  const [contentProfiles, setContentProfiles] = useState<ContentProfile[]>(listContentProfiles);
+  const [contentProfile, setContentProfile] = useState<ContentProfile>(getSelectedContentProfile);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProviderId());
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(getSchedulerSettings());
+  const [jobs, setJobs] = useState<JobInfo[]>([]);
+  const [isGenerationCancellable, setIsGenerationCancellable] = useState(false);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(getUsageRecords);
+  const [sessionUsageRecords, setSessionUsageRecords] = useState<UsageRecord[]>(getSessionRecords);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(getUsageSettings);
+  const abortControllers = useRef(new Map<string, AbortController>());
   const [characters, setCharacters] = useState<Character[]>([]);
+  const [castIds, setCastIds] = useState<number[]>([]);
+  const [isCharacterLibraryLoaded, setIsCharacterLibraryLoaded] = useState(false);
   const [savedItems, setSavedItems] = useState<SavedItem[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
   const [activeTab, setActiveTab] = useState<'controls' | 'saved'>('controls');
   
   const [audioAssignment, setAudioAssignment] = useState<AudioAssignment | null>(null);
@@ -1418,6 +2392,8 @@ export default function App() {
   
   const [angleModal, setAngleModal] = useState({ isOpen: false, generationId: 0, sceneIndex: 0, isUploaded: false, uploadedId: '' });
   const [selectedAngles, setSelectedAngles] = useState({ front: true, back: true, side: true });
+  const [isProjectBusy, setIsProjectBusy] = useState(false);
+  const projectInputRef = useRef<HTMLInputElement>(null);
 
 
   useEffect(() => {
@@ -1425,13 +2401,83 @@ export default function App() {
       try {
         const items = await loadItems();
         setSavedItems(items);
+        setStorageUsage(await getStorageUsage());
       } catch (error) {
         console.error("Failed to load saved items", error);
+        setAppStatus({ status: 'error', error: `Failed to load saved items: ${parseErrorMessage(error)}` });
       }
     };
     fetchItems();
   }, []);
 
+  useEffect(() => subscribeToJobs(setJobs), []);
+
+  useEffect(() => {
+    loadStyleReferenceImages()
+      .then(() => setStyles([...listStyles()]))
+      .catch(error => console.warn("Could not load the style reference images:", error));
+  }, []);
+
+  useEffect(() => {
+    loadCharacterLibrary()
+      .then(library => {
+        // Keep anything added while the library was loading.
+        setCharacters(prev => [...library.characters, ...prev]);
+        setCastIds(prev => [...library.castIds, ...prev]);
+      })
+      .catch(error => console.warn("Could not load the character library:", error))
+      .finally(() => setIsCharacterLibraryLoaded(true));
+  }, []);
+
+  // The library is written back on every change once it has loaded, so the empty initial state
+  // never overwrites it.
+  useEffect(() => {
+    if (!isCharacterLibraryLoaded) return;
+    saveCharacterLibrary({ characters, castIds })
+      .catch(error => console.warn("Could not save the character library:", error));
+  }, [characters, castIds, isCharacterLibraryLoaded]);
+
+  // The characters new generations are made with.
+  const cast = useMemo(() => characters.filter(c => castIds.includes(c.id)), [characters, castIds]);
+
+  useEffect(() => subscribeToUsage(() => {
+    setUsageRecords(getUsageRecords());
+    setSessionUsageRecords(getSessionRecords());
+    setUsageSettings(getUsageSettings());
+  }), []);
+
+  // Costs are derived from the price table, so totals follow edits to it.
+  const usageTotals = useMemo(() => summarizeUsageBy(usageRecords, record => record.usageKey), [usageRecords, usageSettings]);
+
+  const confirmVideoBudget = (model: string, seconds?: number): boolean => {
+    const { status, sessionCost, estimate, budget } = checkVideoBudget(model, seconds);
+    if (status === 'ok' || budget === null) return true;
+    const message = `This video is estimated at ${formatCost(estimate)}, which would take this session's spend of ${formatCost(sessionCost)} over its ${formatCost(budget)} budget.`;
+    if (status === 'block') {
+      alert(`${message} Raise the budget under Usage & Costs to continue.`);
+      return false;
+    }
+    return window.confirm(`${message} Generate anyway?`);
+  };
+
+  // Starting an operation replaces (and cancels) any earlier one under the same key.
+  const beginCancellable = useCallback((key: string): AbortSignal => {
+    abortControllers.current.get(key)?.abort();
+    const controller = new AbortController();
+    abortControllers.current.set(key, controller);
+    return controller.signal;
+  }, []);
+
+  const endCancellable = useCallback((key: string, signal: AbortSignal) => {
+    if (abortControllers.current.get(key)?.signal === signal) {
+      abortControllers.current.delete(key);
+    }
+  }, []);
+
+  const handleCancel = useCallback((key: string) => {
+    abortControllers.current.get(key)?.abort();
+  }, []);
+
   const handleVideoGenerationError = useCallback(async (
       error: unknown,
       updateState: (changes: Partial<VideoState>) => void,
@@ -1456,14 +2502,11 @@ export default function App() {
       setAudioAssignment(null);
       try {
         const audioBase64 = await fileToBase64(file);
-        const transcription = await generatePromptFromAudio(audioBase64, file.type);
-        setPromptText(transcription);
-
-        if (transcription) {
-          const detectedCharacters = characters.filter(c => 
-              c.name && transcription.toLowerCase().includes(c.name.toLowerCase())
-          );
-          setAudioAssignment({ file, transcription, detectedCharacters, assignment: null });
+        const transcript = await generatePromptFromAudio(audioBase64, file.type, cast);
+        setPromptText(transcript.text);
+
+        if (transcript.text) {
+          setAudioAssignment({ file, transcript, speakerMap: guessSpeakerMap(transcript, cast), assignment: null });
         }
       } catch (err) {
         setAppStatus({ status: 'error', error: 'Could not generate prompt from audio.' });
@@ -1474,6 +2517,38 @@ export default function App() {
     }
   };
 
+  // Seeds the screenplay editor from a Fountain or Final Draft file. Every speaking role becomes a
+  // cast member, taken from the library when a character of that name exists.
+  const handleImportScreenplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (sceneDraft && !window.confirm('Replace the current scene breakdown with the imported screenplay?')) return;
+    try {
+      const screenplay = await importScreenplay(file);
+      const findByName = (name: string) => characters.find(c => c.name.toLowerCase() === name.toLowerCase());
+      const newCharacters = screenplay.speakers
+        .filter(name => !findByName(name))
+        .map((name, index) => createCharacter({ id: Date.now() + index, name }));
+      const roles = [...screenplay.speakers.map(findByName).filter((c): c is Character => !!c), ...newCharacters];
+      const importCast = [...cast, ...roles.filter(role => !castIds.includes(role.id))];
+
+      setCharacters(prev => [...prev, ...newCharacters]);
+      setCastIds(prev => [...prev, ...roles.map(role => role.id).filter(id => !prev.includes(id))]);
+      // A scene's characters are those who speak in it or are named in its description and action.
+      const scenes = screenplay.scenes.map(scene => {
+        const speaking = importCast.filter(c => scene.dialogue.some(line => line.speaker.toLowerCase() === c.name.toLowerCase()));
+        const named = findCharactersInText([scene.description, ...scene.action].join('\n'), importCast);
+        return { ...scene, characterIds: importCast.filter(c => speaking.includes(c) || named.includes(c)).map(c => c.id) };
+      });
+      setSceneDraft({ id: Date.now(), prompt: screenplay.title, scenes });
+      setAppStatus({ status: 'idle', error: null });
+    } catch (error) {
+      console.error('Screenplay import failed:', error);
+      setAppStatus({ status: 'error', error: `Could not import the screenplay: ${parseErrorMessage(error)}` });
+    }
+  };
+
   const handleImageUploadForVideo = async (event: React.ChangeEvent<HTMLInputElement>) => {
     if (!event.target.files?.[0]) return;
     const file = event.target.files[0];
@@ -1501,19 +2576,21 @@ export default function App() {
 
         const newCharactersToAdd = detectedCharacters
             .filter(name => !existingCharNamesLower.has(name.toLowerCase()))
-            .map(name => ({
+            .map(name => createCharacter({
                 id: Date.now() + Math.random(),
                 name: name,
                 imagePreview: previewUrl,
                 originalImageBase64: base64,
                 originalImageMimeType: file.type,
-                description: null,
-                detectedImageStyle: null,
                 isDescribing: true,
             }));
+        // Library characters named in the file are used for this image even when they aren't in the cast.
+        const namedLibraryCharacters = characters.filter(c =>
+            !castIds.includes(c.id) && detectedCharacters.some(name => name.toLowerCase() === c.name.toLowerCase()));
 
         if (newCharactersToAdd.length > 0) {
             setCharacters(prev => [...prev, ...newCharactersToAdd]);
+            setCastIds(prev => [...prev, ...newCharactersToAdd.map(c => c.id)]);
             newCharactersToAdd.forEach(async (newChar) => {
                 try {
                     const { description, detectedStyle } = await generateCharacterDescription(base64, file.type);
@@ -1552,7 +2629,8 @@ export default function App() {
               imageStyle: imageStyle,
               imageModel: imageModel,
               genre: genre,
-              characters: [...characters, ...newCharactersToAdd],
+              characters: withResolvedVoices([...cast, ...namedLibraryCharacters, ...newCharactersToAdd], [getNarratorVoice(imageStyle)]),
+              contentProfile: contentProfile,
             },
             videoStates: [getInitialVideoState()],
             mimeType: file.type,
@@ -1646,77 +2724,156 @@ export default function App() {
     );
   }, []);
 
+  const refreshStorageUsage = useCallback(async () => {
+    try {
+      setStorageUsage(await getStorageUsage());
+    } catch (error) {
+      console.error("Failed to read storage usage:", error);
+    }
+  }, []);
+
+  const addSavedItem = useCallback(async (item: Omit<SavedItem, 'assets'>) => {
+    try {
+      const savedItem = await storeSavedItemAssets(item);
+      const newItems = [savedItem, ...savedItems];
+      await saveItems(newItems);
+      setSavedItems(newItems);
+    } catch (error) {
+      console.error("Failed to save item:", error);
+      setAppStatus({ status: 'error', error: `Could not save this scene: ${parseErrorMessage(error)}` });
+    }
+    refreshStorageUsage();
+  }, [savedItems, refreshStorageUsage]);
+
+  const handleUnsaveScene = useCallback(async (itemId: string) => {
+    const removed = savedItems.filter(item => item.id === itemId);
+    const newItems = savedItems.filter(item => item.id !== itemId);
+    try {
+      await removeSavedItems(newItems, removed);
+      setSavedItems(newItems);
+    } catch (error) {
+      console.error("Failed to remove saved item:", error);
+      setAppStatus({ status: 'error', error: `Could not remove the saved item: ${parseErrorMessage(error)}` });
+    }
+    refreshStorageUsage();
+  }, [savedItems, refreshStorageUsage]);
+
+  const handleClearSavedItems = useCallback(async () => {
+    if (!window.confirm('Remove all saved items and their stored media from this browser? This action cannot be undone.')) return;
+    try {
+      await removeSavedItems([], savedItems);
+      setSavedItems([]);
+    } catch (error) {
+      console.error("Failed to clear saved items:", error);
+      setAppStatus({ status: 'error', error: `Could not clear saved items: ${parseErrorMessage(error)}` });
+    }
+    refreshStorageUsage();
+  }, [savedItems, refreshStorageUsage]);
+
   const handleToggleSaveScene = useCallback(async (generationItem: GenerationItem, sceneIndex: number) => {
     const scene = generationItem.imageSet[sceneIndex];
     if (!scene || !scene.src) return;
     const itemId = `${generationItem.id}-${sceneIndex}`;
     const videoState = generationItem.videoStates[sceneIndex];
 
-    const isAlreadySaved = savedItems.some(item => item.id === itemId);
-    let newItems;
-    if (isAlreadySaved) {
-        newItems = savedItems.filter(item => item.id !== itemId);
-    } else {
-        const serializableVideoState = {
-            ...videoState,
-            voiceoverFile: null,
-        };
-
-        const newItem: SavedItem = {
-            id: itemId,
-            scene: scene,
-            videoState: serializableVideoState,
-            originalPrompt: generationItem.prompt,
-            aspectRatio: generationItem.aspectRatio,
-            imageStyle: generationItem.imageStyle,
-            imageModel: generationItem.imageModel,
-            genre: generationItem.genre,
-            characters: JSON.parse(JSON.stringify(generationItem.characters)), // Take a deep copy
-            expiresAt: Date.now() + 5 * 24 * 60 * 60 * 1000,
-        };
-        newItems = [newItem, ...savedItems];
+    if (savedItems.some(item => item.id === itemId)) {
+        await handleUnsaveScene(itemId);
+        return;
     }
-    await saveItems(newItems);
-    setSavedItems(newItems);
-  }, [savedItems]);
-
-    const handleUnsaveScene = useCallback(async (itemId: string) => {
-        const newItems = savedItems.filter(item => item.id !== itemId);
-        await saveItems(newItems);
-        setSavedItems(newItems);
-    }, [savedItems]);
+    await addSavedItem({
+        id: itemId,
+        scene: scene,
+        videoState: { ...videoState, voiceoverFile: null, voiceoverTakes: [], selectedTakeId: null },
+        originalPrompt: generationItem.prompt,
+        aspectRatio: generationItem.aspectRatio,
+        imageStyle: generationItem.imageStyle,
+        imageModel: generationItem.imageModel,
+        genre: generationItem.genre,
+        characters: JSON.parse(JSON.stringify(generationItem.characters)), // Take a deep copy
+        contentProfile: generationItem.contentProfile,
+        savedAt: Date.now(),
+    });
+  }, [savedItems, addSavedItem, handleUnsaveScene]);
 
-  const handleGenerateImage = useCallback(async () => {
+  // First step of a generation: break the story into scenes for the user to review.
+  const handleBreakDownStory = useCallback(async () => {
     if (!promptText) {
       setAppStatus({ status: 'error', error: 'Please enter a prompt or upload audio to generate one.' });
       return;
     }
+    if (sceneDraft && !window.confirm('Replace the current scene breakdown with a new one?')) return;
+    setAppStatus({ status: 'loading', error: null });
+    setLoadingMessage('Breaking down the story into scenes...');
+    const signal = beginCancellable(GENERATION_CANCEL_KEY);
+    setIsGenerationCancellable(true);
+    // Taken up front so the calls made for this generation are metered against it.
+    const generationId = Date.now();
+
+    try {
+      const scenes = await generateScreenplay(promptText, imageCount, genre, cast, contentProfile, signal, String(generationId));
+      setSceneDraft({ id: generationId, prompt: promptText, scenes });
+      setAppStatus({ status: 'idle', error: null });
+    } catch (err) {
+        if (isAbortError(err)) {
+            setAppStatus({ status: 'idle', error: null });
+            return;
+        }
+        console.error('Scene breakdown failed:', err);
+        setAppStatus({ status: 'error', error: parseErrorMessage(err) });
+    } finally {
+        endCancellable(GENERATION_CANCEL_KEY, signal);
+        setIsGenerationCancellable(false);
+    }
+  }, [promptText, sceneDraft, imageCount, genre, cast, contentProfile, beginCancellable, endCancellable]);
+
+  // Second step: render the approved breakdown. The draft is kept until this succeeds.
+  const handleRenderScenes = useCallback(async () => {
+    if (!sceneDraft) return;
     setAppStatus({ status: 'loading', error: null });
     setLoadingMessage('Initializing...');
-    
+    const signal = beginCancellable(GENERATION_CANCEL_KEY);
+    setIsGenerationCancellable(true);
+    const generationId = sceneDraft.id;
+    const castIdSet = new Set(cast.map(c => c.id));
+    // Characters removed from the cast since the breakdown are dropped from its scenes.
+    const script = sceneDraft.scenes.map(scene => ({ ...scene, characterIds: scene.characterIds.filter(id => castIdSet.has(id)) }));
+
     try {
-      const result = await generateImageSet(promptText, imageCount, aspectRatio, imageStyle, genre, characters.filter(c => c.name && c.description), characters, imageModel, (message) => setLoadingMessage(message));
-      
+      const storyboard = await renderScriptScenes(script, aspectRatio, imageStyle, genre, cast.filter(c => c.name && c.description), cast, imageModel, contentProfile, (message) => setLoadingMessage(message), signal, String(generationId));
+      const imageSet = await checkStoryboardConsistency(storyboard, cast, (message) => setLoadingMessage(message), signal, String(generationId));
+
       const newGenerationItem: GenerationItem = {
-        id: Date.now(),
-        prompt: promptText,
-        imageSet: result.storyboard,
-        videoStates: new Array(result.storyboard.length).fill(null).map(() => getInitialVideoState()),
+        id: generationId,
+        prompt: sceneDraft.prompt,
+        imageSet,
+        // Each scene's voiceover and camera start from its screenplay scene.
+        videoStates: script.map(scene => ({ ...getInitialVideoState(), scriptPrompt: formatDialogueScript(scene), cameraMovement: scene.cameraMovement })),
         aspectRatio,
         imageStyle,
         imageModel,
         genre,
-        characters: JSON.parse(JSON.stringify(characters))
+        // Automatic voices are written in, so the generation keeps them whatever happens to the library.
+        characters: withResolvedVoices(JSON.parse(JSON.stringify(cast)), [getNarratorVoice(imageStyle)]),
+        contentProfile,
+        script,
       };
 
       setGenerationHistory(prev => [newGenerationItem, ...prev]);
+      setSceneDraft(null);
       setAppStatus({ status: 'idle', error: null });
     } catch (err) {
+        if (isAbortError(err)) {
+            setAppStatus({ status: 'idle', error: null });
+            return;
+        }
         console.error('Image generation failed:', err);
         const displayError = parseErrorMessage(err);
         setAppStatus({ status: 'error', error: displayError });
+    } finally {
+        endCancellable(GENERATION_CANCEL_KEY, signal);
+        setIsGenerationCancellable(false);
     }
-  }, [promptText, imageCount, aspectRatio, imageStyle, imageModel, genre, characters]);
+  }, [sceneDraft, aspectRatio, imageStyle, imageModel, genre, cast, contentProfile, beginCancellable, endCancellable]);
 
   const handleOpenAngleModal = useCallback((generationId: number, sceneIndex: number) => {
       setAngleModal({ isOpen: true, generationId, sceneIndex, isUploaded: false, uploadedId: '' });
@@ -1744,7 +2901,8 @@ export default function App() {
         generationItem: { ...item.generationItem, imageSet: item.generationItem.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: true } : s) }
     } : item));
 
-
+    const key = cancelKey('image', uploadedId, sceneIndex);
+    const signal = beginCancellable(key);
     try {
         const { generationItem } = uploadedItem;
         const newScenes = await generateCameraAnglesFromImage(sceneToUpdate, {
@@ -1753,7 +2911,8 @@ export default function App() {
             imageModel: generationItem.imageModel,
             genre: generationItem.genre,
             characters: generationItem.characters,
-        }, angleNames, () => {});
+            contentProfile: generationItem.contentProfile,
+        }, angleNames, () => {}, signal, uploadedId);
 
         setUploadedItems(prev => prev.map(item => {
             if (item.id !== uploadedId) return item;
@@ -1766,14 +2925,16 @@ export default function App() {
             return { ...item, generationItem: { ...item.generationItem, imageSet: updatedImageSet }, videoStates: newVideoStates };
         }));
     } catch (error) {
-        const parsedError = parseErrorMessage(error);
-        console.error(`Uploaded camera angle generation failed:`, parsedError);
+        const parsedError = isAbortError(error) ? null : parseErrorMessage(error);
+        if (parsedError) console.error(`Uploaded camera angle generation failed:`, parsedError);
         setUploadedItems(prev => prev.map(item => item.id === uploadedId ? {
             ...item,
-            generationItem: { ...item.generationItem, imageSet: item.generationItem.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: false, error: `Angle generation failed: ${parsedError}` } : s) }
+            generationItem: { ...item.generationItem, imageSet: item.generationItem.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: false, error: parsedError && `Angle generation failed: ${parsedError}` } : s) }
         }: item));
+    } finally {
+        endCancellable(key, signal);
     }
-  }, [uploadedItems, selectedAngles, angleModal]);
+  }, [uploadedItems, selectedAngles, angleModal, beginCancellable, endCancellable]);
 
   const handleConfirmAngleGeneration = useCallback(async () => {
     if (angleModal.isUploaded) {
@@ -1796,10 +2957,13 @@ export default function App() {
         item.id === generationId ? { ...item, imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: true } : s) } : item
     ));
 
+    const key = cancelKey('image', generationId, sceneIndex);
+    const signal = beginCancellable(key);
     try {
         const newScenes = await generateCameraAnglesFromImage(sceneToUpdate, {
             aspectRatio: generationItem.aspectRatio, imageStyle: generationItem.imageStyle, imageModel: generationItem.imageModel, genre: generationItem.genre, characters: generationItem.characters,
-        }, angleNames, () => {});
+            contentProfile: generationItem.contentProfile,
+        }, angleNames, () => {}, signal, String(generationId));
 
         setGenerationHistory(prev => prev.map(item => {
             if (item.id !== generationId) return item;
@@ -1812,13 +2976,50 @@ export default function App() {
             return { ...item, imageSet: updatedImageSet, videoStates: newVideoStates };
         }));
     } catch (error) {
-        const parsedError = parseErrorMessage(error);
+        const parsedError = isAbortError(error) ? null : parseErrorMessage(error);
         setGenerationHistory(prev => prev.map(item =>
-            item.id === generationId ? { ...item, imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: false, error: `Angle generation failed: ${parsedError}` } : s) } : item
+            item.id === generationId ? { ...item, imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isGeneratingAngles: false, error: parsedError && `Angle generation failed: ${parsedError}` } : s) } : item
         ));
+    } finally {
+        endCancellable(key, signal);
+    }
+  }, [generationHistory, selectedAngles, handleGenerateCameraAnglesForUploaded, angleModal, beginCancellable, endCancellable]);
+
+
+  const updateScene = useCallback((generationId: number, sceneIndex: number, changes: Partial<AppStoryboardScene>) => {
+    setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
+        ...item,
+        imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, ...changes } : s)
+    } : item));
+  }, []);
+
+  // Scores a scene's new image against the generation's characters. A failed or cancelled check
+  // leaves the scene unscored rather than failing the action that produced the image.
+  const scoreScene = useCallback(async (generationId: number, sceneIndex: number, scene: StoryboardScene, characters: Character[], signal: AbortSignal) => {
+    updateScene(generationId, sceneIndex, { isCheckingConsistency: true });
+    try {
+        const consistency = await checkSceneConsistency(scene, characters, signal, String(generationId));
+        updateScene(generationId, sceneIndex, { consistency: consistency ?? undefined, isCheckingConsistency: false });
+    } catch (error) {
+        if (!isAbortError(error)) console.warn(`Consistency check for scene ${sceneIndex + 1} failed:`, error);
+        updateScene(generationId, sceneIndex, { isCheckingConsistency: false });
     }
-  }, [generationHistory, selectedAngles, handleGenerateCameraAnglesForUploaded, angleModal]);
+  }, [updateScene]);
 
+  const handleCheckConsistency = useCallback(async (generationId: number) => {
+    const generationItem = generationHistory.find(item => item.id === generationId);
+    if (!generationItem) return;
+    await Promise.all(generationItem.imageSet.map(async (scene, sceneIndex) => {
+        if (!scene.src) return;
+        const key = cancelKey('consistency', generationId, sceneIndex);
+        const signal = beginCancellable(key);
+        try {
+            await scoreScene(generationId, sceneIndex, scene, generationItem.characters, signal);
+        } finally {
+            endCancellable(key, signal);
+        }
+    }));
+  }, [generationHistory, scoreScene, beginCancellable, endCancellable]);
 
   const handleRegenerateImage = useCallback(async (generationId: number, sceneIndex: number) => {
     const generationItem = generationHistory.find(item => item.id === generationId);
@@ -1832,6 +3033,8 @@ export default function App() {
         imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isRegenerating: true } : s)
     } : item));
     
+    const key = cancelKey('image', generationId, sceneIndex);
+    const signal = beginCancellable(key);
     try {
         let referenceImageSrc: string | null = null;
         
@@ -1845,22 +3048,41 @@ export default function App() {
             validCharactersForPrompt, // For prompt content
             generationItem.characters, // All characters for style detection
             generationItem.imageModel,
-            referenceImageSrc
+            referenceImageSrc,
+            undefined,
+            { signal, usageKey: String(generationId), contentProfile: generationItem.contentProfile, characterIds: sceneToRegenerate.characterIds }
         );
         
-        setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
-            ...item,
-            imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, src: newImageSrc, error: newImageError, isRegenerating: false } : s)
-        } : item));
+        updateScene(generationId, sceneIndex, { src: newImageSrc, error: newImageError, isRegenerating: false, consistency: undefined });
+        if (newImageSrc) {
+            await scoreScene(generationId, sceneIndex, { ...sceneToRegenerate, src: newImageSrc }, generationItem.characters, signal);
+        }
     } catch (error) {
+        if (isAbortError(error)) {
+            setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
+                ...item,
+                imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isRegenerating: false } : s)
+            } : item));
+            return;
+        }
         const parsedError = parseErrorMessage(error);
         console.error(`Image regeneration for scene ${sceneIndex + 1} failed:`, parsedError);
         setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
             ...item,
             imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, error: parsedError, isRegenerating: false } : s)
         } : item));
+    } finally {
+        endCancellable(key, signal);
     }
-  }, [generationHistory]);
+  }, [generationHistory, updateScene, scoreScene, beginCancellable, endCancellable]);
+
+  // Regenerates every scene with a character scored below CONSISTENCY_THRESHOLD.
+  const handleRegenerateInconsistentScenes = useCallback(async (generationId: number) => {
+    const generationItem = generationHistory.find(item => item.id === generationId);
+    if (!generationItem) return;
+    const sceneIndexes = generationItem.imageSet.map((scene, index) => isSceneInconsistent(scene) ? index : -1).filter(index => index >= 0);
+    await Promise.all(sceneIndexes.map(index => handleRegenerateImage(generationId, index)));
+  }, [generationHistory, handleRegenerateImage]);
 
     const handleEditImage = useCallback(async (generationId: number, sceneIndex: number, editPrompt: string) => {
         const generationItem = generationHistory.find(item => item.id === generationId);
@@ -1876,6 +3098,8 @@ export default function App() {
             imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isEditing: true, previousSrc: newPreviousSrc } : s)
         } : item));
         
+        const key = cancelKey('image', generationId, sceneIndex);
+        const signal = beginCancellable(key);
         try {
             const { src: newImageSrc, error: newImageError } = await editImage({
                 imageBase64: sceneToEdit.src,
@@ -1885,28 +3109,42 @@ export default function App() {
                 imageStyle: generationItem.imageStyle,
                 genre: generationItem.genre,
                 characters: generationItem.characters,
-            });
+                contentProfile: generationItem.contentProfile,
+                scenePrompt: sceneToEdit.prompt,
+                characterIds: sceneToEdit.characterIds,
+            }, { signal, usageKey: String(generationId) });
             
-            setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
-                ...item,
-                imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, src: newImageSrc, error: newImageError, isEditing: false } : s)
-            } : item));
+            updateScene(generationId, sceneIndex, { src: newImageSrc, error: newImageError, isEditing: false, consistency: undefined });
+            if (newImageSrc) {
+                await scoreScene(generationId, sceneIndex, { ...sceneToEdit, src: newImageSrc }, generationItem.characters, signal);
+            }
         } catch (error) {
+            if (isAbortError(error)) {
+                // Nothing was changed, so there is nothing to undo either.
+                setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
+                    ...item,
+                    imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, isEditing: false, previousSrc: sceneToEdit.previousSrc } : s)
+                } : item));
+                return;
+            }
             const parsedError = parseErrorMessage(error);
             console.error(`Image editing for scene ${sceneIndex + 1} failed:`, parsedError);
             setGenerationHistory(prev => prev.map(item => item.id === generationId ? {
                 ...item,
                 imageSet: item.imageSet.map((s, i) => i === sceneIndex ? { ...s, error: parsedError, isEditing: false } : s)
             } : item));
+        } finally {
+            endCancellable(key, signal);
         }
-    }, [generationHistory]);
+    }, [generationHistory, updateScene, scoreScene, beginCancellable, endCancellable]);
 
     const handleUndoEdit = useCallback((generationId: number, sceneIndex: number) => {
         setGenerationHistory(prev => prev.map(item => {
             if (item.id !== generationId) return item;
             const newImageSet = item.imageSet.map((s, i) => {
                 if (i === sceneIndex && s.previousSrc) {
-                    return { ...s, src: s.previousSrc, previousSrc: null };
+                    // The score was for the edited image; check the restored one again if needed.
+                    return { ...s, src: s.previousSrc, previousSrc: null, consistency: undefined };
                 }
                 return s;
             });
@@ -1926,41 +3164,51 @@ export default function App() {
   const handleConfirmGenerateVideo = useCallback(async (generationId: number, scene: StoryboardScene, sceneIndex: number) => {
     const generationItem = generationHistory.find(item => item.id === generationId);
     if (!generationItem || !scene.src) return; 
+    const scriptScene = generationItem.script?.find(entry => entry.id === scene.scriptSceneId);
 
+    const videoState = generationItem.videoStates[sceneIndex];
     handleVideoStateChange(generationId, sceneIndex, { status: 'loading', error: null, showScriptInput: false, loadingMessage: 'Initializing video generation...' });
     
+    const key = cancelKey('video', generationId, sceneIndex);
+    const signal = beginCancellable(key);
     try {
-      if (typeof window !== 'undefined' && window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function' && typeof window.aistudio.openSelectKey === 'function') {
+      if (getProvider().requiresApiKey && typeof window !== 'undefined' && window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function' && typeof window.aistudio.openSelectKey === 'function') {
         if (!await window.aistudio.hasSelectedApiKey()) {
           await window.aistudio.openSelectKey();
         }
       }
+      const recordedTake = getSelectedTake(videoState);
       let audioOptions: AudioOptions | null = null;
-      const videoState = generationItem.videoStates[sceneIndex];
-
-      if (audioAssignment?.file && audioAssignment.assignment) {
-          const assignedChar = characters.find(c => c.id === (audioAssignment.assignment as any).characterId);
-          audioOptions = {
-              mode: 'upload',
-              data: await fileToBase64(audioAssignment.file),
-              mimeType: audioAssignment.file.type,
-              assignment: audioAssignment.assignment.type === 'character' && assignedChar
-                  ? { type: 'character', characterName: assignedChar.name }
-                  : { type: 'background' }
-          };
+
+      if (audioAssignment?.assignment) {
+          audioOptions = await prepareAssignedAudio(audioAssignment, characters, generationItem, videoState.linePauseSeconds, scriptScene?.durationSeconds, (message) => handleVideoStateChange(generationId, sceneIndex, { loadingMessage: message }), signal, String(generationId));
       } else if (videoState.voiceoverMode === 'upload' && videoState.voiceoverFile) { 
           audioOptions = { mode: 'upload', data: await fileToBase64(videoState.voiceoverFile), mimeType: videoState.voiceoverFile.type }; 
+      } else if (videoState.voiceoverMode === 'record' && recordedTake) {
+          audioOptions = { mode: 'upload', ...await takeToUpload(recordedTake) };
       } else if (videoState.voiceoverMode === 'tts' && videoState.scriptPrompt) { 
-          audioOptions = { mode: 'tts', data: videoState.scriptPrompt }; 
+          const clips = await prepareVoiceover(videoState.scriptPrompt, generationItem.characters, generationItem.imageStyle, videoState.linePauseSeconds, scriptScene?.durationSeconds, (message) => handleVideoStateChange(generationId, sceneIndex, { loadingMessage: message }), signal, String(generationId));
+          if (clips) audioOptions = { mode: 'tts', clips };
+      }
+      // The voiceover is measured first: a long one needs several clips, which the budget has to cover.
+      if (!confirmVideoBudget(videoModel, audioOptions?.mode === 'tts' ? totalClipSeconds(audioOptions.clips) : scriptScene?.durationSeconds)) {
+          handleVideoStateChange(generationId, sceneIndex, cancelledVideoState(videoState));
+          return;
       }
       
-      const { videoUrl, audioUrl, videoObject, audioBase64 } = await generateVideoFromScene(scene, generationItem.aspectRatio, videoState.scriptPrompt, generationItem.characters, audioOptions, generationItem.imageStyle, videoModel, videoResolution, videoState.cameraMovement, (message) => handleVideoStateChange(generationId, sceneIndex, { loadingMessage: message }));
-      handleVideoStateChange(generationId, sceneIndex, { status: 'success', clips: [{ videoUrl, audioUrl, videoObject, audioBase64 }], currentClipIndex: 0 });
+      const generatedClips = await generateVideoFromScene(scene, generationItem.aspectRatio, videoState.scriptPrompt, generationItem.characters, audioOptions, generationItem.imageStyle, videoModel, videoResolution, videoState.cameraMovement, generationItem.contentProfile ?? DEFAULT_CONTENT_PROFILE, (message) => handleVideoStateChange(generationId, sceneIndex, { loadingMessage: message }), signal, String(generationId), scriptScene);
+      handleVideoStateChange(generationId, sceneIndex, { status: 'success', clips: generatedClips.map(clip => ({ id: createClipId(), ...clip })), currentClipIndex: 0 });
     } catch (err) {
+        if (isAbortError(err)) {
+            handleVideoStateChange(generationId, sceneIndex, cancelledVideoState(videoState));
+            return;
+        }
         const context = `Video generation for scene ${sceneIndex + 1} failed:`;
         await handleVideoGenerationError(err, (changes) => handleVideoStateChange(generationId, sceneIndex, changes), context);
+    } finally {
+        endCancellable(key, signal);
     }
-  }, [generationHistory, handleVideoStateChange, handleVideoGenerationError, videoModel, videoResolution, audioAssignment, characters]);
+  }, [generationHistory, handleVideoStateChange, handleVideoGenerationError, videoModel, videoResolution, audioAssignment, characters, beginCancellable, endCancellable]);
 
   const handleHydrateClips = useCallback((generationId: number, sceneIndex: number, clips: VideoClip[]) => {
       handleVideoStateChange(generationId, sceneIndex, { clips });
@@ -1975,6 +3223,7 @@ export default function App() {
         imageModel: item.imageModel,
         genre: item.genre,
         characters: item.characters,
+        contentProfile: item.contentProfile,
     };
 
     const restoredVideoState = item.videoState || getInitialVideoState();
@@ -2030,37 +3279,47 @@ export default function App() {
 
     handleVideoStateChangeFromUploaded(id, index, { status: 'loading', error: null, showScriptInput: false, loadingMessage: 'Initializing video generation...' });
     
+    const key = cancelKey('video', id, index);
+    const signal = beginCancellable(key);
     try {
-      if (typeof window !== 'undefined' && window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function' && typeof window.aistudio.openSelectKey === 'function') {
+      if (getProvider().requiresApiKey && typeof window !== 'undefined' && window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function' && typeof window.aistudio.openSelectKey === 'function') {
         if (!await window.aistudio.hasSelectedApiKey()) {
           await window.aistudio.openSelectKey();
         }
       }
+      const recordedTake = getSelectedTake(videoState);
       let audioOptions: AudioOptions | null = null;
-      if (audioAssignment?.file && audioAssignment.assignment) {
-          const assignedChar = characters.find(c => c.id === (audioAssignment.assignment as any).characterId);
-          audioOptions = {
-              mode: 'upload',
-              data: await fileToBase64(audioAssignment.file),
-              mimeType: audioAssignment.file.type,
-              assignment: audioAssignment.assignment.type === 'character' && assignedChar
-                  ? { type: 'character', characterName: assignedChar.name }
-                  : { type: 'background' }
-          };
+      if (audioAssignment?.assignment) {
+          audioOptions = await prepareAssignedAudio(audioAssignment, characters, generationItem, videoState.linePauseSeconds, undefined, (message) => handleVideoStateChangeFromUploaded(id, index, { loadingMessage: message }), signal, id);
       } else if (videoState.voiceoverMode === 'upload' && videoState.voiceoverFile) { 
           audioOptions = { mode: 'upload', data: await fileToBase64(videoState.voiceoverFile), mimeType: videoState.voiceoverFile.type }; 
+      } else if (videoState.voiceoverMode === 'record' && recordedTake) {
+          audioOptions = { mode: 'upload', ...await takeToUpload(recordedTake) };
       } else if (videoState.voiceoverMode === 'tts' && videoState.scriptPrompt) { 
-          audioOptions = { mode: 'tts', data: videoState.scriptPrompt }; 
+          const clips = await prepareVoiceover(videoState.scriptPrompt, generationItem.characters, generationItem.imageStyle, videoState.linePauseSeconds, undefined, (message) => handleVideoStateChangeFromUploaded(id, index, { loadingMessage: message }), signal, id);
+          if (clips) audioOptions = { mode: 'tts', clips };
+      }
+      if (!confirmVideoBudget(videoModel, audioOptions?.mode === 'tts' ? totalClipSeconds(audioOptions.clips) : undefined)) {
+          handleVideoStateChangeFromUploaded(id, index, cancelledVideoState(videoState));
+          return;
       }
       
-      const { videoUrl, audioUrl, videoObject, audioBase64 } = await generateVideoFromScene(
+      const generatedClips = await generateVideoFromScene(
         scene, generationItem.aspectRatio, videoState.scriptPrompt, generationItem.characters, audioOptions, generationItem.imageStyle, 
-        videoModel, videoResolution, videoState.cameraMovement,
-        (message) => handleVideoStateChangeFromUploaded(id, index, { loadingMessage: message })
+        videoModel, videoResolution, videoState.cameraMovement, generationItem.contentProfile ?? DEFAULT_CONTENT_PROFILE,
+        (message) => handleVideoStateChangeFromUploaded(id, index, { loadingMessage: message }),
+        signal,
+        id
       );
-      handleVideoStateChangeFromUploaded(id, index, { status: 'success', clips: [{ videoUrl, audioUrl, videoObject, audioBase64 }], currentClipIndex: 0 });
+      handleVideoStateChangeFromUploaded(id, index, { status: 'success', clips: generatedClips.map(clip => ({ id: createClipId(), ...clip })), currentClipIndex: 0 });
     } catch (err) {
+        if (isAbortError(err)) {
+            handleVideoStateChangeFromUploaded(id, index, cancelledVideoState(videoState));
+            return;
+        }
         await handleVideoGenerationError(err, (changes) => handleVideoStateChangeFromUploaded(id, index, changes), "Video generation from uploaded item failed:");
+    } finally {
+        endCancellable(key, signal);
     }
   };
 
@@ -2079,12 +3338,17 @@ export default function App() {
         return { ...item, generationItem: { ...item.generationItem, imageSet: updatedImageSet } };
     }));
 
+    const key = cancelKey('image', id, sceneIndex);
+    const signal = beginCancellable(key);
     try {
         const { src: newImageSrc, error: newImageError } = await editImage({
             imageBase64: sceneToEdit.src, mimeType: uploadedItem.mimeType, editPrompt,
             aspectRatio: uploadedItem.generationItem.aspectRatio, imageStyle: uploadedItem.generationItem.imageStyle,
             genre: uploadedItem.generationItem.genre, characters: uploadedItem.generationItem.characters,
-        });
+            contentProfile: uploadedItem.generationItem.contentProfile,
+            // Uploaded images have no scene prompt; the names in their file name say who is in them.
+            scenePrompt: uploadedItem.detectedCharacters.join(', '),
+        }, { signal, usageKey: id });
 
         setUploadedItems(prev => prev.map(item => {
             if (item.id !== id) return item;
@@ -2092,12 +3356,17 @@ export default function App() {
             return { ...item, generationItem: { ...item.generationItem, imageSet: updatedImageSet } };
         }));
     } catch (error) {
-        const parsedError = parseErrorMessage(error);
+        const cancelled = isAbortError(error);
+        const parsedError = cancelled ? null : parseErrorMessage(error);
         setUploadedItems(prev => prev.map(item => {
             if (item.id !== id) return item;
-            const updatedImageSet: AppStoryboardScene[] = item.generationItem.imageSet.map((s, i) => i === sceneIndex ? { ...s, error: parsedError, isEditing: false } : s);
+            const updatedImageSet: AppStoryboardScene[] = item.generationItem.imageSet.map((s, i) => i !== sceneIndex ? s
+                : cancelled ? { ...s, isEditing: false, previousSrc: sceneToEdit.previousSrc }
+                : { ...s, error: parsedError, isEditing: false });
             return { ...item, generationItem: { ...item.generationItem, imageSet: updatedImageSet } };
         }));
+    } finally {
+        endCancellable(key, signal);
     }
 };
 
@@ -2122,29 +3391,20 @@ const handleToggleSaveUploadedItem = useCallback(async (id: string, sceneIndex:
 
     const videoState = uploadedItem.videoStates[sceneIndex];
     const itemId = `${uploadedItem.id}-${sceneIndex}`;
-    const isAlreadySaved = savedItems.some(item => item.id === itemId);
-
-    let newItems;
-    if (isAlreadySaved) {
-        newItems = savedItems.filter(item => item.id !== itemId);
-    } else {
-        const serializableVideoState = {
-            ...videoState,
-            voiceoverFile: null,
-        };
-        const newItem: SavedItem = {
-            id: itemId, scene: scene,
-            videoState: serializableVideoState,
-            originalPrompt: uploadedItem.generationItem.prompt, aspectRatio: uploadedItem.generationItem.aspectRatio,
-            imageStyle: uploadedItem.generationItem.imageStyle, imageModel: uploadedItem.generationItem.imageModel,
-            genre: uploadedItem.generationItem.genre, characters: JSON.parse(JSON.stringify(uploadedItem.generationItem.characters)),
-            expiresAt: Date.now() + 5 * 24 * 60 * 60 * 1000,
-        };
-        newItems = [newItem, ...savedItems];
+    if (savedItems.some(item => item.id === itemId)) {
+        await handleUnsaveScene(itemId);
+        return;
     }
-    await saveItems(newItems);
-    setSavedItems(newItems);
-}, [savedItems, uploadedItems]);
+    await addSavedItem({
+        id: itemId, scene: scene,
+        videoState: { ...videoState, voiceoverFile: null, voiceoverTakes: [], selectedTakeId: null },
+        originalPrompt: uploadedItem.generationItem.prompt, aspectRatio: uploadedItem.generationItem.aspectRatio,
+        imageStyle: uploadedItem.generationItem.imageStyle, imageModel: uploadedItem.generationItem.imageModel,
+        genre: uploadedItem.generationItem.genre, characters: JSON.parse(JSON.stringify(uploadedItem.generationItem.characters)),
+        contentProfile: uploadedItem.generationItem.contentProfile,
+        savedAt: Date.now(),
+    });
+}, [savedItems, uploadedItems, addSavedItem, handleUnsaveScene]);
 
 const handleDeleteClipForUploaded = (id: string, sceneIndex: number, clipIndex: number) => {
     setUploadedItems(prev => prev.map(item => {
@@ -2405,16 +3665,85 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                 return updateLogic(prev as UploadedItem);
             }
         });
-
+        setAppStatus({ status: 'idle', error: null });
     } catch (error) {
         const message = parseErrorMessage(error);
         setAppStatus({ status: 'error', error: `Failed to create from last frame: ${message}` });
     } finally {
-        setAppStatus({ status: 'idle', error: null });
         setLoadingMessage("");
     }
 };
 
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+  };
+
+  const handleSchedulerSettingsChange = (changes: Partial<SchedulerSettings>) => {
+    updateSchedulerSettings(changes);
+    setSchedulerSettings(getSchedulerSettings());
+  };
+
+  const handleRateLimitChange = (model: string, requestsPerMinute: number) => {
+    const current = schedulerSettings.rateLimits[model];
+    handleSchedulerSettingsChange({ rateLimits: { ...schedulerSettings.rateLimits, [model]: { ...current, requestsPerMinute } } });
+  };
+
+  const handleSaveProject = async () => {
+    setIsProjectBusy(true);
+    try {
+      const blob = await exportProject({ generationHistory, uploadedItems, characters: cast });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `storyboard-${new Date().toISOString().slice(0, 10)}${PROJECT_FILE_EXTENSION}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setAppStatus({ status: 'error', error: `Failed to save project: ${parseErrorMessage(error)}` });
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const hasWork = generationHistory.length > 0 || uploadedItems.length > 0;
+    if (hasWork && !window.confirm('Opening a project will replace your current storyboards and uploads. Its characters are added to your character library. Continue?')) {
+      return;
+    }
+
+    setIsProjectBusy(true);
+    try {
+      const project = await importProject(file);
+      setGenerationHistory(project.generationHistory);
+      setUploadedItems(project.uploadedItems);
+      // The project's cast joins the library and becomes the cast, keeping any characters already there.
+      setCharacters(prev => [...prev, ...project.characters.filter(c => !prev.some(existing => existing.id === c.id))]);
+      setCastIds(project.characters.map(c => c.id));
+      setAppStatus({ status: 'idle', error: null });
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      setAppStatus({ status: 'error', error: `Failed to open project: ${parseErrorMessage(error)}` });
+    } finally {
+      setIsProjectBusy(false);
+    }
+  };
+
+  const handleTimelineChange = (generationId: number, timeline: TimelineEntry[]) => {
+    setGenerationHistory(prev => prev.map(item => item.id === generationId ? { ...item, timeline } : item));
+  };
+
+  const handleSoundtrackChange = (generationId: number, soundtrack: SoundtrackCue[]) => {
+    setGenerationHistory(prev => prev.map(item => item.id === generationId ? { ...item, soundtrack } : item));
+  };
+
   const handleDeleteGeneration = (id: number) => {
     if (window.confirm('Are you sure you want to delete this entire generation result? This action cannot be undone.')) {
       setGenerationHistory(prev => prev.filter(item => item.id !== id));
@@ -2422,13 +3751,31 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
   };
 
   const isDisabled = appStatus.status === 'loading' || isGeneratingPrompt;
-  const isGenerateDisabled = !promptText || isDisabled || characters.some(c => c.isDescribing);
+  const isGenerateDisabled = !promptText || isDisabled || cast.some(c => c.isDescribing);
   const showPromptLoader = isGeneratingPrompt && !promptText;
   
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col md:flex-row font-sans">
       <div className="w-full md:w-1/3 lg:w-[450px] p-4 bg-gray-800/30 flex flex-col border-b md:border-b-0 md:border-r border-white/10 md:h-screen">
         
+        <div className="flex gap-2 mb-4">
+            <button
+              onClick={handleSaveProject}
+              disabled={isDisabled || isProjectBusy || (generationHistory.length === 0 && uploadedItems.length === 0 && cast.length === 0)}
+              className="flex-1 flex items-center justify-center gap-2 p-2 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <DownloadIcon className="w-4 h-4" /> Save Project
+            </button>
+            <button
+              onClick={() => projectInputRef.current?.click()}
+              disabled={isDisabled || isProjectBusy}
+              className="flex-1 flex items-center justify-center gap-2 p-2 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isProjectBusy ? <LoaderIcon className="w-4 h-4 animate-spin" /> : <UploadIcon className="w-4 h-4" />} Open Project
+            </button>
+            <input ref={projectInputRef} type="file" accept={PROJECT_FILE_EXTENSION} onChange={handleOpenProject} className="hidden" />
+        </div>
+
         <div className="flex border-b border-gray-700 mb-4">
             <button onClick={() => setActiveTab('controls')} className={`flex-1 font-semibold text-sm p-3 rounded-t-lg transition-colors ${activeTab === 'controls' ? 'bg-gray-700/50 text-white' : 'text-gray-400 hover:bg-gray-800/50'}`}>Controls</button>
             <button onClick={() => setActiveTab('saved')} className={`flex-1 font-semibold text-sm p-3 rounded-t-lg relative transition-colors ${activeTab === 'saved' ? 'bg-gray-700/50 text-white' : 'text-gray-400 hover:bg-gray-800/50'}`}>
@@ -2458,12 +3805,17 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                                     </button>
                                 )}
                             </div>
+                            <label className={`block p-2 text-center text-sm rounded-md font-semibold border border-gray-600 cursor-pointer transition-colors ${isDisabled ? 'bg-gray-700 text-gray-400 cursor-not-allowed' : 'bg-gray-900/50 text-gray-300 hover:border-indigo-400 hover:text-indigo-300'}`}>
+                                Import Screenplay (Fountain or Final Draft)
+                                <input type="file" className="hidden" accept={SCREENPLAY_FILE_EXTENSIONS.join(',')} onChange={handleImportScreenplay} disabled={isDisabled} />
+                            </label>
                             
                             {audioAssignment && (
                                 <AudioAssignmentManager
                                     assignment={audioAssignment}
-                                    onAssign={(newAssignment) => {
-                                        setAudioAssignment(prev => prev ? { ...prev, assignment: newAssignment } : null);
+                                    characters={cast}
+                                    onChange={(changes) => {
+                                        setAudioAssignment(prev => prev ? { ...prev, ...changes } : null);
                                     }}
                                     isDisabled={isDisabled}
                                 />
@@ -2491,14 +3843,40 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                         </div>
                     </CollapsibleSection>
 
-                    <CollapsibleSection title="Character Definition (Optional)">
+                    <CollapsibleSection title="Character Bible (Optional)">
                         <div className="p-2">
-                          <CharacterManager characters={characters} setCharacters={setCharacters} isDisabled={isDisabled} />
+                          <CharacterManager characters={characters} setCharacters={setCharacters} castIds={castIds} setCastIds={setCastIds} imageStyle={imageStyle} isDisabled={isDisabled} />
                         </div>
                     </CollapsibleSection>
 
                     <CollapsibleSection title="Generation Settings">
                         <div className="space-y-4 p-2">
+                            <div>
+                                <label htmlFor="provider" className="text-sm text-gray-400 font-semibold mb-2 block">Generation Backend</label>
+                                <select id="provider" value={providerId} onChange={(e) => handleProviderChange(e.target.value as ProviderId)} disabled={isDisabled} className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 block appearance-none">
+                                    {listProviders().map((provider) => (<option key={provider.id} value={provider.id}>{provider.label}</option>))}
+                                </select>
+                                {providerId === 'mock' && <p className="text-xs text-amber-400 mt-1">Mock backend returns placeholder images, silent audio and short test videos. No API quota is used.</p>}
+                            </div>
+                            <div className="w-full">
+                                <label htmlFor="concurrency" className="text-sm font-semibold text-gray-300 flex justify-between">
+                                    <span>Parallel Requests</span>
+                                    <span>{schedulerSettings.concurrency}</span>
+                                </label>
+                                <input id="concurrency" type="range" min="1" max="8" value={schedulerSettings.concurrency} onChange={(e) => handleSchedulerSettingsChange({ concurrency: Number(e.target.value) })} className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 mt-2" />
+                            </div>
+                            <div>
+                                <p className="text-sm text-gray-400 font-semibold mb-2">Rate Limits (requests per minute)</p>
+                                <div className="space-y-1">
+                                    {Object.keys(schedulerSettings.rateLimits).map((model) => (
+                                        <div key={model} className="flex items-center justify-between gap-2">
+                                            <span className="text-xs text-gray-400 font-mono truncate">{model}</span>
+                                            <input type="number" min="1" max="1000" value={schedulerSettings.rateLimits[model].requestsPerMinute} onChange={(e) => handleRateLimitChange(model, Math.max(1, Number(e.target.value) || 1))} className="w-16 bg-gray-700 border border-gray-600 text-white text-xs rounded-md p-1 text-right" />
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1">Requests above these limits wait in the queue. Rate-limit responses from the API pause the model for as long as the server asks.</p>
+                            </div>
                             <div>
                                 <label htmlFor="genre" className="text-sm text-gray-400 font-semibold mb-2 block">Genre</label>
                                 <select id="genre" value={genre} onChange={(e) => setGenre(e.target.value)} disabled={isDisabled} className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 block appearance-none">
@@ -2515,6 +3893,19 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                         </div>
                     </CollapsibleSection>
 
+                    <CollapsibleSection title="Casting & Safety">
+                        <ContentProfileManager
+                            profiles={contentProfiles}
+                            selected={contentProfile}
+                            isDisabled={isDisabled}
+                            onChange={() => { setContentProfiles(listContentProfiles()); setContentProfile(getSelectedContentProfile()); }}
+                        />
+                    </CollapsibleSection>
+
+                    <CollapsibleSection title="Usage & Costs">
+                        <UsageManager records={usageRecords} sessionRecords={sessionUsageRecords} settings={usageSettings} />
+                    </CollapsibleSection>
+
                     <CollapsibleSection title="Style & Formatting">
                         <div className="space-y-4 p-2">
                             <div>
@@ -2527,7 +3918,7 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                             <div>
                                 <label htmlFor="image-style" className="text-sm text-gray-400 font-semibold mb-2 block">Image Style</label>
                                 <select id="image-style" value={imageStyle} onChange={(e) => setImageStyle(e.target.value)} disabled={isDisabled} className="w-full bg-gray-700 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 block appearance-none">
-                                    {IMAGE_STYLES.map((style) => (<option key={style} value={style}>{style}</option>))}
+                                    {styles.map((style) => (<option key={style.id} value={style.name}>{style.name}</option>))}
                                 </select>
                             </div>
                             <div className="w-full">
@@ -2543,6 +3934,10 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                         </div>
                     </CollapsibleSection>
 
+                    <CollapsibleSection title="Style Library">
+                        <StyleLibraryManager style={getStyle(imageStyle)} isDisabled={isDisabled} onSelect={setImageStyle} onChange={() => setStyles([...listStyles()])} />
+                    </CollapsibleSection>
+
                     <CollapsibleSection title="Video Settings">
                          <div className="space-y-4 p-2">
                             <div>
@@ -2565,21 +3960,21 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
                 </div>
             )}
             {activeTab === 'saved' && (
-                <SavedItemsManager savedItems={savedItems} onUnsave={handleUnsaveScene} onSelect={handleSelectSavedItem} />
+                <SavedItemsManager savedItems={savedItems} storageUsage={storageUsage} onUnsave={handleUnsaveScene} onClearAll={handleClearSavedItems} onSelect={handleSelectSavedItem} />
             )}
         </div>
 
         <div className="mt-auto pt-4">
             {activeTab === 'controls' && (
               <button
-                onClick={handleGenerateImage}
+                onClick={handleBreakDownStory}
                 disabled={isGenerateDisabled}
                 className="w-full p-3 font-bold text-lg text-center uppercase tracking-wider rounded-md transition-all duration-300 ease-in-out disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed accent-gradient accent-gradient-hover text-white shadow-lg hover:shadow-xl transform hover:-translate-y-0.5"
               >
                 {appStatus.status === 'loading' ? 'Generating...' : (
                   <div className="flex items-center justify-center">
                     <SparklesIcon className="w-6 h-6 mr-2" />
-                    <span>Generate</span>
+                    <span>Break Down Story</span>
                   </div>
                 )}
               </button>
@@ -2591,7 +3986,8 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
           <ResultsView
               appStatus={appStatus} 
               history={generationHistory}
-              loadingMessage={loadingMessage} 
+              loadingMessage={loadingMessage}
+              jobs={jobs} 
               savedItems={savedItems}
               uploadedItems={uploadedItems}
               onToggleSave={handleToggleSaveScene}
@@ -2602,11 +3998,18 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
               onDeleteVideo={handleDeleteVideo}
               onDeleteClip={handleDeleteClip}
               onRegenerateImage={handleRegenerateImage}
+              onCheckConsistency={handleCheckConsistency}
+              onRegenerateInconsistentScenes={handleRegenerateInconsistentScenes}
               onEditImage={handleEditImage}
               onUndoEdit={handleUndoEdit}
               onHydrateClips={handleHydrateClips}
               onGenerateCameraAngles={handleOpenAngleModal}
               onDeleteScene={handleDeleteScene}
+              onTimelineChange={handleTimelineChange}
+              onSoundtrackChange={handleSoundtrackChange}
+              onCancelVideo={(generationId, sceneIndex) => handleCancel(cancelKey('video', generationId, sceneIndex))}
+              onCancelImageAction={(generationId, sceneIndex) => handleCancel(cancelKey('image', generationId, sceneIndex))}
+              onCancelGeneration={isGenerationCancellable ? () => handleCancel(GENERATION_CANCEL_KEY) : undefined}
               onDeleteGeneration={handleDeleteGeneration}
               onDeleteUploadedItem={handleDeleteUploadedItem}
               onToggleSaveUploadedItem={handleToggleSaveUploadedItem}
@@ -2620,7 +4023,20 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
               onUndoEditForUploaded={handleUndoEditForUploaded}
               onHydrateClipsForUploaded={(id, index, clips) => handleVideoStateChangeFromUploaded(id, index, { clips })}
               onGenerateCameraAnglesForUploaded={handleOpenAngleModalForUploaded}
+              onCancelVideoForUploaded={(id, sceneIndex) => handleCancel(cancelKey('video', id, sceneIndex))}
+              onCancelImageActionForUploaded={(id, sceneIndex) => handleCancel(cancelKey('image', id, sceneIndex))}
+              usageTotals={usageTotals}
               onDeleteSceneForUploaded={handleDeleteSceneForUploaded}
+              sceneBreakdown={sceneDraft && (
+                  <SceneBreakdownEditor
+                      draft={sceneDraft}
+                      cast={cast}
+                      isDisabled={appStatus.status === 'loading'}
+                      onChange={(scenes) => setSceneDraft(prev => prev && { ...prev, scenes })}
+                      onRender={handleRenderScenes}
+                      onDiscard={() => setSceneDraft(null)}
+                  />
+              )}
           />
       </main>
       
@@ -2631,6 +4047,8 @@ const handleExtendFromLastFrame = async (id: number | string, sceneIndex: number
         setSelectedAngles={setSelectedAngles}
         onSubmit={handleConfirmAngleGeneration}
       />
+
+      <JobsPanel jobs={jobs} maxRetries={schedulerSettings.maxRetries} />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LineTiming } from '../services/geminiService';
+import { GenerationItem, VideoClip } from '../types';
+import { CLIP_AUDIO_GAIN_UNDER_VOICEOVER } from '../utils/timelineUtils';
+import { ChevronLeftIcon, ChevronRightIcon, PauseIcon, PlayIcon } from './Icons';
+
+// Drift allowed between a clip and its voiceover before the voiceover is re-seeked.
+const SYNC_TOLERANCE_SECONDS = 0.15;
+// How long an animatic holds a scene that has no video yet.
+export const ANIMATIC_STILL_SECONDS = 4;
+
+// One thing the player plays: a video clip with its voiceover, or a still held for a while.
+export type PlayerItem = {
+    id: string;
+    label: string;
+    videoUrl: string | null;
+    audioUrl: string | null;
+    imageSrc: string | null; // base64 PNG, shown when there is no video
+    stillSeconds: number; // how long the still is held
+    timings: LineTiming[] | null; // voiceover lines, shown as subtitles
+    caption: string; // shown under a still
+};
+
+export const clipToPlayerItem = (clip: VideoClip, label: string): PlayerItem => ({
+    id: clip.id,
+    label,
+    videoUrl: clip.videoUrl,
+    audioUrl: clip.audioUrl,
+    imageSrc: null,
+    stillSeconds: 0,
+    timings: clip.audioTimings ?? null,
+    caption: '',
+});
+
+/**
+ * The whole storyboard in order: every clip of every scene that has video, and a still of
+ * every scene that doesn't, held for its screenplay length with its script as a caption.
+ */
+export function buildAnimatic(generationItem: GenerationItem): PlayerItem[] {
+    return generationItem.imageSet.flatMap((scene, sceneIndex) => {
+        const videoState = generationItem.videoStates[sceneIndex];
+        const clips = (videoState?.clips ?? []).filter(clip => clip.videoUrl);
+        if (clips.length > 0) {
+            return clips.map((clip, clipIndex) => clipToPlayerItem(clip, clips.length > 1 ? `Scene ${sceneIndex + 1} · Clip ${clipIndex + 1}` : `Scene ${sceneIndex + 1}`));
+        }
+        if (!scene.src) return [];
+        const scriptScene = generationItem.script?.find(entry => entry.id === scene.scriptSceneId);
+        return [{
+            id: `still-${sceneIndex}`,
+            label: `Scene ${sceneIndex + 1}`,
+            videoUrl: null,
+            audioUrl: null,
+            imageSrc: scene.src,
+            stillSeconds: scriptScene?.durationSeconds ?? ANIMATIC_STILL_SECONDS,
+            timings: null,
+            caption: videoState?.scriptPrompt ?? '',
+        }];
+    });
+}
+
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${Math.floor(seconds - minutes * 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Plays items one after another. A clip's video drives the clock and its voiceover follows it
+ * through play, pause, seeking and scrubbing; stills run on a clock of their own. When an item
+ * ends, the next one starts. The index can be controlled, so the scene view can keep it in
+ * its video state.
+ */
+export const ScenePlayer: React.FC<{
+    items: PlayerItem[];
+    index?: number;
+    onIndexChange?: (index: number) => void;
+    autoPlay?: boolean;
+    className?: string; // applied to the video and the still
+}> = ({ items, index: controlledIndex, onIndexChange, autoPlay = false, className = '' }) => {
+    const [ownIndex, setOwnIndex] = useState(0);
+    const index = Math.min(controlledIndex ?? ownIndex, Math.max(0, items.length - 1));
+    const item = items[index];
+    const [isPlaying, setIsPlaying] = useState(autoPlay);
+    const [time, setTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const stillTimeRef = useRef(0);
+
+    const setIndex = useCallback((next: number) => {
+        if (onIndexChange) onIndexChange(next);
+        else setOwnIndex(next);
+    }, [onIndexChange]);
+
+    // A new item starts from its beginning.
+    useEffect(() => {
+        stillTimeRef.current = 0;
+        setTime(0);
+        setDuration(item && !item.videoUrl ? item.stillSeconds : 0);
+    }, [item?.id]);
+
+    const advance = useCallback(() => {
+        if (index < items.length - 1) {
+            setIndex(index + 1);
+        } else {
+            setIsPlaying(false);
+        }
+    }, [index, items.length, setIndex]);
+
+    // Video items: start or stop both elements together.
+    useEffect(() => {
+        const video = videoRef.current;
+        const audio = audioRef.current;
+        if (!video) return;
+        if (isPlaying) {
+            video.play().catch(() => setIsPlaying(false));
+            if (audio && video.currentTime < (audio.duration || Infinity)) {
+                audio.currentTime = video.currentTime;
+                audio.play().catch(() => undefined);
+            }
+        } else {
+            video.pause();
+            audio?.pause();
+        }
+    }, [isPlaying, item?.id]);
+
+    // Still items: advance a clock of their own.
+    useEffect(() => {
+        if (!isPlaying || !item || item.videoUrl) return;
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            stillTimeRef.current += (now - last) / 1000;
+            last = now;
+            if (stillTimeRef.current >= item.stillSeconds) {
+                setTime(item.stillSeconds);
+                advance();
+                return;
+            }
+            setTime(stillTimeRef.current);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, item, advance]);
+
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        const audio = audioRef.current;
+        if (!video) return;
+        setTime(video.currentTime);
+        if (audio && !video.paused && Math.abs(audio.currentTime - video.currentTime) > SYNC_TOLERANCE_SECONDS && video.currentTime < (audio.duration || Infinity)) {
+            audio.currentTime = video.currentTime;
+        }
+    };
+
+    const handleSeek = (target: number) => {
+        setTime(target);
+        if (item?.videoUrl) {
+            if (videoRef.current) videoRef.current.currentTime = target;
+            if (audioRef.current) audioRef.current.currentTime = target;
+        } else {
+            stillTimeRef.current = target;
+        }
+    };
+
+    const handleTogglePlay = () => {
+        if (!isPlaying && duration > 0 && time >= duration - 0.05) handleSeek(0);
+        setIsPlaying(prev => !prev);
+    };
+
+    if (!item) return null;
+
+    const subtitle = item.timings?.find(timing => time >= timing.startSeconds && time < timing.endSeconds);
+
+    return (
+        <div className="w-full flex flex-col items-center gap-2">
+            <div className="relative flex items-center justify-center w-full">
+                {item.videoUrl ? (
+                    <video
+                        key={item.id}
+                        ref={videoRef}
+                        src={item.videoUrl}
+                        playsInline
+                        preload="auto"
+                        onLoadedMetadata={(e) => {
+                            setDuration(e.currentTarget.duration);
+                            e.currentTarget.volume = item.audioUrl ? CLIP_AUDIO_GAIN_UNDER_VOICEOVER : 1;
+                            if (isPlaying) e.currentTarget.play().catch(() => setIsPlaying(false));
+                        }}
+                        onTimeUpdate={handleTimeUpdate}
+                        onPlay={() => {
+                            const audio = audioRef.current;
+                            const video = videoRef.current;
+                            if (audio && video && video.currentTime < (audio.duration || Infinity)) {
+                                audio.currentTime = video.currentTime;
+                                audio.play().catch(() => undefined);
+                            }
+                        }}
+                        onPause={() => audioRef.current?.pause()}
+                        onEnded={advance}
+                        onClick={handleTogglePlay}
+                        className={`cursor-pointer ${className}`}
+                    />
+                ) : item.imageSrc ? (
+                    <img src={`data:image/png;base64,${item.imageSrc}`} alt={item.label} className={className} />
+                ) : null}
+                {item.audioUrl && <audio key={`${item.id}-audio`} ref={audioRef} src={item.audioUrl} preload="auto" />}
+                {(subtitle || (!item.videoUrl && item.caption)) && (
+                    <p className="absolute bottom-3 left-1/2 -translate-x-1/2 max-w-[90%] bg-black/70 text-white text-sm px-3 py-1 rounded text-center whitespace-pre-line pointer-events-none">
+                        {subtitle ? (subtitle.speaker === 'Narrator' ? subtitle.text : `${subtitle.speaker}: ${subtitle.text}`) : item.caption}
+                    </p>
+                )}
+            </div>
+            <div className="flex items-center gap-2 w-full max-w-xl">
+                {items.length > 1 && (
+                    <button onClick={() => setIndex(index - 1)} disabled={index === 0} className="p-1 text-gray-300 hover:text-white disabled:opacity-30" title="Previous"><ChevronLeftIcon className="w-5 h-5" /></button>
+                )}
+                <button onClick={handleTogglePlay} className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-500" title={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                </button>
+                {items.length > 1 && (
+                    <button onClick={() => setIndex(index + 1)} disabled={index === items.length - 1} className="p-1 text-gray-300 hover:text-white disabled:opacity-30" title="Next"><ChevronRightIcon className="w-5 h-5" /></button>
+                )}
+                <input
+                    type="range"
+                    min={0}
+                    max={duration || 0}
+                    step={0.05}
+                    value={Math.min(time, duration || 0)}
+                    onChange={(e) => handleSeek(parseFloat(e.target.value))}
+                    className="flex-grow accent-indigo-500"
+                />
+                <span className="text-xs font-mono text-gray-400 whitespace-nowrap">{formatTime(time)} / {formatTime(duration)}</span>
+                {items.length > 1 && <span className="text-xs text-gray-400 whitespace-nowrap">{item.label} ({index + 1}/{items.length})</span>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { GenerationItem, SoundtrackCue, SoundtrackKind } from '../types';
+import { bytesToBase64, fileToBase64 } from '../utils/fileUtils';
+import { parseErrorMessage } from '../utils/errorUtils';
+import { AMBIENCE_PRESET_LABELS, AMBIENCE_SECONDS, AmbiencePreset, generateAmbience } from '../utils/ambienceUtils';
+import { createSoundtrackCue, SOUNDTRACK_KIND_LABELS } from '../utils/soundtrackUtils';
+import { PlusCircleIcon, TrashIcon } from './Icons';
+
+// The length of an audio file, read from its metadata; null when the browser can't tell.
+const measureAudioDuration = (file: File): Promise<number | null> => new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    const finish = (duration: number | null) => {
+        URL.revokeObjectURL(url);
+        resolve(duration);
+    };
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+});
+
+export const SoundtrackEditor: React.FC<{
+    generationItem: GenerationItem;
+    onChange: (soundtrack: SoundtrackCue[]) => void;
+}> = ({ generationItem, onChange }) => {
+    const soundtrack = generationItem.soundtrack ?? [];
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const pendingKind = useRef<SoundtrackKind>('music');
+
+    const addCue = (cue: SoundtrackCue) => onChange([...soundtrack, cue]);
+
+    const updateCue = (id: string, changes: Partial<SoundtrackCue>) => {
+        onChange(soundtrack.map(cue => cue.id === id ? { ...cue, ...changes } : cue));
+    };
+
+    const chooseFile = (kind: SoundtrackKind) => {
+        pendingKind.current = kind;
+        fileInputRef.current?.click();
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const kind = pendingKind.current;
+            addCue(createSoundtrackCue({
+                name: file.name,
+                kind,
+                audioBase64: await fileToBase64(file),
+                mimeType: file.type || 'audio/mpeg',
+                durationSeconds: await measureAudioDuration(file),
+                // Effects are usually one-off and sit on top of the dialogue; music loops and ducks.
+                loop: kind === 'music',
+                duck: kind === 'music',
+                fadeIn: kind === 'music' ? 1 : 0,
+                fadeOut: kind === 'music' ? 1 : 0,
+            }));
+        } catch (err) {
+            setError(parseErrorMessage(err));
+        }
+    };
+
+    const addAmbience = (preset: AmbiencePreset) => {
+        addCue(createSoundtrackCue({
+            name: `${AMBIENCE_PRESET_LABELS[preset]} (generated)`,
+            kind: 'sfx',
+            audioBase64: bytesToBase64(generateAmbience(preset)),
+            mimeType: 'audio/wav',
+            durationSeconds: AMBIENCE_SECONDS,
+            volume: 0.35,
+        }));
+    };
+
+    const numberInputClass = "w-14 bg-gray-800 border border-gray-600 rounded p-1 text-gray-200";
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <h4 className="font-semibold text-white text-sm flex-grow">Soundtrack</h4>
+                <button onClick={() => chooseFile('music')} className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600"><PlusCircleIcon className="w-4 h-4" /> Music</button>
+                <button onClick={() => chooseFile('sfx')} className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600"><PlusCircleIcon className="w-4 h-4" /> Sound Effect</button>
+                <select value="" onChange={(e) => { if (e.target.value) addAmbience(e.target.value as AmbiencePreset); }} className="bg-gray-700 border border-gray-600 rounded-md text-xs text-gray-200 p-1">
+                    <option value="">Generate ambience...</option>
+                    {(Object.keys(AMBIENCE_PRESET_LABELS) as AmbiencePreset[]).map(preset => <option key={preset} value={preset}>{AMBIENCE_PRESET_LABELS[preset]}</option>)}
+                </select>
+                <input type="file" ref={fileInputRef} onChange={handleFile} accept="audio/*" className="hidden" />
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {soundtrack.length === 0 ? (
+                <p className="text-xs text-gray-500">Add music or sound effects to play under the whole sequence or a single scene. They are mixed into the preview and the exported video, and music drops under the voiceover.</p>
+            ) : (
+                <ol className="space-y-2">
+                    {soundtrack.map(cue => (
+                        <li key={cue.id} className="bg-gray-900/40 border border-gray-700 rounded-lg p-3 space-y-2 text-xs text-gray-400">
+                            <div className="flex items-center gap-2">
+                                <p className="flex-grow min-w-0 truncate text-sm font-semibold text-gray-200" title={cue.name}>{cue.name}</p>
+                                <select value={cue.kind} onChange={(e) => updateCue(cue.id, { kind: e.target.value as SoundtrackKind })} className="bg-gray-800 border border-gray-600 rounded p-1 text-gray-200">
+                                    {(Object.keys(SOUNDTRACK_KIND_LABELS) as SoundtrackKind[]).map(kind => <option key={kind} value={kind}>{SOUNDTRACK_KIND_LABELS[kind]}</option>)}
+                                </select>
+                                <select value={cue.sceneIndex ?? ''} onChange={(e) => updateCue(cue.id, { sceneIndex: e.target.value === '' ? null : Number(e.target.value) })} className="bg-gray-800 border border-gray-600 rounded p-1 text-gray-200">
+                                    <option value="">Whole sequence</option>
+                                    {generationItem.imageSet.map((_, index) => <option key={index} value={index}>Scene {index + 1}</option>)}
+                                </select>
+                                <button onClick={() => onChange(soundtrack.filter(entry => entry.id !== cue.id))} className="text-gray-500 hover:text-red-400" title="Remove from the soundtrack"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-3">
+                                <label className="flex items-center gap-1">
+                                    Volume
+                                    <input type="range" min={0} max={1} step={0.05} value={cue.volume} onChange={(e) => updateCue(cue.id, { volume: parseFloat(e.target.value) })} className="w-24 accent-indigo-500" />
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Start
+                                    <input type="number" min={0} step={0.1} value={cue.offsetSeconds} onChange={(e) => updateCue(cue.id, { offsetSeconds: Math.max(0, parseFloat(e.target.value) || 0) })} className={numberInputClass} />
+                                    s
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Fade in
+                                    <input type="number" min={0} max={10} step={0.1} value={cue.fadeIn} onChange={(e) => updateCue(cue.id, { fadeIn: Math.max(0, parseFloat(e.target.value) || 0) })} className={numberInputClass} />
+                                    s
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    Fade out
+                                    <input type="number" min={0} max={10} step={0.1} value={cue.fadeOut} onChange={(e) => updateCue(cue.id, { fadeOut: Math.max(0, parseFloat(e.target.value) || 0) })} className={numberInputClass} />
+                                    s
+                                </label>
+                                <label className="flex items-center gap-1">
+                                    <input type="checkbox" checked={cue.loop} onChange={(e) => updateCue(cue.id, { loop: e.target.checked })} />
+                                    Loop
+                                </label>
+                                <label className="flex items-center gap-1" title="Lower the volume while voiceover lines are heard">
+                                    <input type="checkbox" checked={cue.duck} onChange={(e) => updateCue(cue.id, { duck: e.target.checked })} />
+                                    Duck under dialogue
+                                </label>
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,364 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { downloadVideo } from '../services/geminiService';
+import { GenerationItem, TimelineEntry, TimelineTransition } from '../types';
+import { base64ToBytes } from '../utils/fileUtils';
+import {
+    audioFadeGain, CLIP_AUDIO_GAIN_UNDER_VOICEOVER, clipAudioMimeType, crossfadeOpacity, DEFAULT_CLIP_SECONDS, dipToBlackOpacity,
+    layoutTimeline, resolveTimeline, TRANSITION_LABELS,
+} from '../utils/timelineUtils';
+import { toPlayableAudio } from '../utils/wavUtils';
+import { cueGainAt, placeSoundtrack, toSoundtrackSpan } from '../utils/soundtrackUtils';
+import { ChevronDownIcon, ChevronUpIcon, LoaderIcon, PauseIcon, PlayIcon } from './Icons';
+
+// Drift allowed between the timeline clock and a media element before it is re-seeked.
+const SEEK_TOLERANCE_SECONDS = 0.3;
+
+type ClipMedia = { video: string | null; audio: string | null };
+
+const formatTime = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+const syncMediaElement = (element: HTMLMediaElement, url: string | null, target: number, playing: boolean) => {
+    if (!url) {
+        if (!element.paused) element.pause();
+        return;
+    }
+    if (element.dataset.src !== url) {
+        element.dataset.src = url;
+        element.src = url;
+    }
+    if (Math.abs(element.currentTime - target) > SEEK_TOLERANCE_SECONDS) {
+        element.currentTime = target;
+    }
+    if (playing && element.paused) {
+        element.play().catch(() => undefined);
+    } else if (!playing && !element.paused) {
+        element.pause();
+    }
+};
+
+export const TimelineEditor: React.FC<{
+    generationItem: GenerationItem;
+    onChange: (timeline: TimelineEntry[]) => void;
+}> = ({ generationItem, onChange }) => {
+    const segments = useMemo(
+        () => resolveTimeline(generationItem.videoStates, generationItem.timeline),
+        [generationItem.videoStates, generationItem.timeline],
+    );
+    const [durations, setDurations] = useState<Record<string, number>>({});
+    const [media, setMedia] = useState<Record<string, ClipMedia>>({});
+    const [mediaError, setMediaError] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [playhead, setPlayhead] = useState(0);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+    const playheadRef = useRef(0);
+    const ownedUrls = useRef<string[]>([]);
+    const pendingClips = useRef(new Set<string>());
+    const videoRefs = [useRef<HTMLVideoElement>(null), useRef<HTMLVideoElement>(null)];
+    const audioRefs = [useRef<HTMLAudioElement>(null), useRef<HTMLAudioElement>(null)];
+    const cueRefs = useRef(new Map<string, HTMLAudioElement>());
+    const blackoutRef = useRef<HTMLDivElement>(null);
+    const soundtrack = useMemo(() => generationItem.soundtrack ?? [], [generationItem.soundtrack]);
+
+    // Clips of scenes that have not been opened yet have no object URLs; fetch them here.
+    useEffect(() => {
+        segments.forEach(({ clip }) => {
+            if (media[clip.id] || pendingClips.current.has(clip.id)) return;
+            pendingClips.current.add(clip.id);
+            (async () => {
+                let video = clip.videoUrl;
+                if (!video && clip.videoObject) {
+                    video = URL.createObjectURL(await downloadVideo(clip.videoObject));
+                    ownedUrls.current.push(video);
+                }
+                let audio: string | null = null;
+                if (clip.audioBase64) {
+                    audio = URL.createObjectURL(new Blob([toPlayableAudio(base64ToBytes(clip.audioBase64))], { type: clipAudioMimeType(clip) }));
+                    ownedUrls.current.push(audio);
+                }
+                setMedia(prev => ({ ...prev, [clip.id]: { video, audio } }));
+            })().catch(error => {
+                console.error("Failed to load clip for the timeline:", error);
+                setMediaError('Some clips could not be loaded for preview.');
+            }).finally(() => pendingClips.current.delete(clip.id));
+        });
+    }, [segments, media]);
+
+    // Soundtrack cues keep their audio as base64; each gets an object URL once.
+    const [cueUrls, setCueUrls] = useState<Record<string, string>>({});
+    useEffect(() => {
+        const missing = soundtrack.filter(cue => !cueUrls[cue.id]);
+        if (missing.length === 0) return;
+        const added: Record<string, string> = {};
+        missing.forEach(cue => {
+            added[cue.id] = URL.createObjectURL(new Blob([base64ToBytes(cue.audioBase64)], { type: cue.mimeType }));
+            ownedUrls.current.push(added[cue.id]);
+        });
+        setCueUrls(prev => ({ ...prev, ...added }));
+    }, [soundtrack, cueUrls]);
+
+    useEffect(() => () => ownedUrls.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+    const { segments: placed, totalDuration } = useMemo(() => layoutTimeline(segments.map(segment => ({
+        item: segment,
+        entry: segment.entry,
+        clipDuration: durations[segment.clip.id] ?? DEFAULT_CLIP_SECONDS,
+    }))), [segments, durations]);
+
+    const placedCues = useMemo(() => placeSoundtrack(
+        soundtrack,
+        placed.map(segment => toSoundtrackSpan(segment, segment.item.sceneIndex, segment.item.clip)),
+        totalDuration,
+    ), [soundtrack, placed, totalDuration]);
+
+    // Two player slots alternate between consecutive segments, so a crossfade can show the
+    // outgoing and incoming clip at the same time.
+    const syncPlayers = useCallback((time: number, playing: boolean) => {
+        let blackout = 0;
+        [0, 1].forEach(slot => {
+            const video = videoRefs[slot].current;
+            const audio = audioRefs[slot].current;
+            if (!video || !audio) return;
+            const index = placed.findIndex((segment, i) => i % 2 === slot && time >= segment.start && time < segment.start + segment.duration);
+            if (index === -1) {
+                video.pause();
+                audio.pause();
+                video.style.opacity = '0';
+                return;
+            }
+            const segment = placed[index];
+            const local = time - segment.start;
+            const urls = media[segment.item.clip.id];
+            const gain = audioFadeGain(segment, local);
+            syncMediaElement(video, urls?.video ?? null, segment.trimStart + local, playing);
+            syncMediaElement(audio, urls?.audio ?? null, segment.trimStart + local, playing);
+            video.volume = gain * (urls?.audio ? CLIP_AUDIO_GAIN_UNDER_VOICEOVER : 1);
+            audio.volume = gain;
+            video.style.opacity = String(crossfadeOpacity(segment, local));
+            video.style.zIndex = String(index + 1);
+            blackout = Math.max(blackout, dipToBlackOpacity(segment, local));
+        });
+        if (blackoutRef.current) blackoutRef.current.style.opacity = String(blackout);
+
+        soundtrack.forEach(cue => {
+            const element = cueRefs.current.get(cue.id);
+            if (!element) return;
+            const placedCue = placedCues.find(entry => entry.cue.id === cue.id);
+            const isActive = !!placedCue && time >= placedCue.start && time < placedCue.end;
+            if (!placedCue || !isActive) {
+                syncMediaElement(element, null, 0, false);
+                return;
+            }
+            const local = time - placedCue.start;
+            const target = cue.loop && cue.durationSeconds ? local % cue.durationSeconds : local;
+            syncMediaElement(element, cueUrls[cue.id] ?? null, target, playing);
+            element.volume = cueGainAt(placedCue, time);
+        });
+    }, [placed, media, soundtrack, placedCues, cueUrls]);
+
+    useEffect(() => {
+        if (!isPlaying) {
+            syncPlayers(playheadRef.current, false);
+            return;
+        }
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const time = playheadRef.current + (now - last) / 1000;
+            last = now;
+            if (time >= totalDuration) {
+                playheadRef.current = totalDuration;
+                setPlayhead(totalDuration);
+                setIsPlaying(false);
+                return;
+            }
+            playheadRef.current = time;
+            setPlayhead(time);
+            syncPlayers(time, true);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, syncPlayers, totalDuration]);
+
+    const handleSeek = (time: number) => {
+        playheadRef.current = time;
+        setPlayhead(time);
+        syncPlayers(time, isPlaying);
+    };
+
+    const handleTogglePlay = () => {
+        if (!isPlaying && playheadRef.current >= totalDuration) {
+            handleSeek(0);
+        }
+        setIsPlaying(prev => !prev);
+    };
+
+    const entries = segments.map(segment => segment.entry);
+
+    const updateEntry = (index: number, changes: Partial<TimelineEntry>) => {
+        onChange(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+    };
+
+    const moveEntry = (from: number, to: number) => {
+        if (from === to || to < 0 || to >= entries.length) return;
+        const next = [...entries];
+        const [moved] = next.splice(from, 1);
+        next.splice(to, 0, moved);
+        onChange(next);
+    };
+
+    const clipLabel = (index: number) => {
+        const { sceneIndex, clip } = segments[index];
+        const sceneClips = generationItem.videoStates[sceneIndex]?.clips ?? [];
+        const clipNumber = sceneClips.findIndex(c => c.id === clip.id) + 1;
+        return sceneClips.length > 1 ? `Scene ${sceneIndex + 1} · Clip ${clipNumber}` : `Scene ${sceneIndex + 1}`;
+    };
+
+    if (segments.length === 0) {
+        return <div className="text-center text-sm text-gray-400 py-6">Generate a video for at least one scene to build a timeline.</div>;
+    }
+
+    const aspectClass = generationItem.aspectRatio === '9:16' ? 'aspect-[9/16] max-h-[420px]' : 'aspect-video';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col items-center gap-3">
+                <div className={`relative bg-black rounded-lg overflow-hidden w-full max-w-2xl ${aspectClass}`}>
+                    {[0, 1].map(slot => (
+                        <video key={slot} ref={videoRefs[slot]} playsInline className="absolute inset-0 w-full h-full object-contain" style={{ opacity: 0 }} />
+                    ))}
+                    {[0, 1].map(slot => <audio key={slot} ref={audioRefs[slot]} />)}
+                    {soundtrack.map(cue => (
+                        <audio key={cue.id} loop={cue.loop} ref={(element) => { if (element) cueRefs.current.set(cue.id, element); else cueRefs.current.delete(cue.id); }} />
+                    ))}
+                    <div ref={blackoutRef} className="absolute inset-0 bg-black pointer-events-none" style={{ opacity: 0, zIndex: placed.length + 1 }} />
+                </div>
+                <div className="flex items-center gap-3 w-full max-w-2xl">
+                    <button onClick={handleTogglePlay} className="p-2 rounded-full bg-indigo-600 text-white hover:bg-indigo-500" title={isPlaying ? 'Pause' : 'Play timeline'}>
+                        {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={totalDuration}
+                        step={0.05}
+                        value={Math.min(playhead, totalDuration)}
+                        onChange={(e) => handleSeek(parseFloat(e.target.value))}
+                        className="flex-grow accent-indigo-500"
+                    />
+                    <span className="text-xs font-mono text-gray-400 w-24 text-right">{formatTime(Math.min(playhead, totalDuration))} / {formatTime(totalDuration)}</span>
+                </div>
+                {mediaError && <p className="text-xs text-red-400">{mediaError}</p>}
+            </div>
+
+            <ol className="space-y-2">
+                {placed.map((segment, index) => {
+                    const { clip } = segment.item;
+                    const entry = segment.entry;
+                    const clipDuration = durations[clip.id];
+                    const videoUrl = media[clip.id]?.video;
+                    const isLast = index === placed.length - 1;
+                    return (
+                        <li
+                            key={clip.id}
+                            draggable
+                            onDragStart={() => setDragIndex(index)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={() => { if (dragIndex !== null) moveEntry(dragIndex, index); setDragIndex(null); }}
+                            onDragEnd={() => setDragIndex(null)}
+                            className={`bg-gray-900/40 border rounded-lg p-3 cursor-grab ${dragIndex === index ? 'border-indigo-500 opacity-60' : 'border-gray-700'}`}
+                        >
+                            <div className="flex items-center gap-3">
+                                <div className="flex flex-col">
+                                    <button onClick={() => moveEntry(index, index - 1)} disabled={index === 0} className="text-gray-400 hover:text-white disabled:opacity-30" title="Move earlier"><ChevronUpIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => moveEntry(index, index + 1)} disabled={isLast} className="text-gray-400 hover:text-white disabled:opacity-30" title="Move later"><ChevronDownIcon className="w-4 h-4" /></button>
+                                </div>
+                                <div className="w-24 aspect-video bg-black rounded overflow-hidden shrink-0 flex items-center justify-center">
+                                    {videoUrl ? (
+                                        <video
+                                            src={videoUrl}
+                                            muted
+                                            preload="metadata"
+                                            className="w-full h-full object-cover"
+                                            onLoadedMetadata={(e) => {
+                                                const duration = e.currentTarget.duration;
+                                                if (Number.isFinite(duration)) setDurations(prev => ({ ...prev, [clip.id]: duration }));
+                                            }}
+                                        />
+                                    ) : <LoaderIcon className="w-5 h-5 text-gray-500 animate-spin" />}
+                                </div>
+                                <div className="flex-grow min-w-0">
+                                    <p className="text-sm font-semibold text-gray-200 truncate">{index + 1}. {clipLabel(index)}</p>
+                                    <p className="text-xs text-gray-500 font-mono">
+                                        {formatTime(segment.start)} &rarr; {formatTime(segment.start + segment.duration)}
+                                        {clipDuration !== undefined && ` (clip ${clipDuration.toFixed(1)}s)`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2 text-xs text-gray-400">
+                                    <label className="flex flex-col">
+                                        In
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            max={segment.trimEnd}
+                                            step={0.1}
+                                            value={Number(segment.trimStart.toFixed(2))}
+                                            onChange={(e) => updateEntry(index, { trimStart: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                            className="w-16 bg-gray-800 border border-gray-600 rounded p-1 text-gray-200"
+                                        />
+                                    </label>
+                                    <label className="flex flex-col">
+                                        Out
+                                        <input
+                                            type="number"
+                                            min={segment.trimStart}
+                                            max={clipDuration}
+                                            step={0.1}
+                                            value={Number(segment.trimEnd.toFixed(2))}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                const reachesEnd = clipDuration !== undefined && value >= clipDuration;
+                                                updateEntry(index, { trimEnd: Number.isNaN(value) || reachesEnd ? null : value });
+                                            }}
+                                            className="w-16 bg-gray-800 border border-gray-600 rounded p-1 text-gray-200"
+                                        />
+                                    </label>
+                                </div>
+                            </div>
+                            {!isLast && (
+                                <div className="flex items-center gap-2 mt-2 pl-8 text-xs text-gray-400">
+                                    <span>Transition to next:</span>
+                                    <select
+                                        value={entry.transition}
+                                        onChange={(e) => updateEntry(index, { transition: e.target.value as TimelineTransition })}
+                                        className="bg-gray-800 border border-gray-600 rounded p-1 text-gray-200"
+                                    >
+                                        {(Object.keys(TRANSITION_LABELS) as TimelineTransition[]).map(type => <option key={type} value={type}>{TRANSITION_LABELS[type]}</option>)}
+                                    </select>
+                                    {entry.transition !== 'cut' && (
+                                        <label className="flex items-center gap-1">
+                                            <input
+                                                type="number"
+                                                min={0.1}
+                                                max={3}
+                                                step={0.1}
+                                                value={entry.transitionDuration}
+                                                onChange={(e) => updateEntry(index, { transitionDuration: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                                                className="w-14 bg-gray-800 border border-gray-600 rounded p-1 text-gray-200"
+                                            />
+                                            s
+                                        </label>
+                                    )}
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
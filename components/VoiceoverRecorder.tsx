@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VideoState, VoiceoverTake } from '../types';
+import { parseErrorMessage } from '../utils/errorUtils';
+import { createTake } from '../utils/recordingUtils';
+import { MicrophoneIcon, PauseIcon, PlayIcon, StopIcon, TrashIcon } from './Icons';
+
+// The shortest stretch of a take the trim handles can leave.
+const MIN_TRIMMED_SECONDS = 0.2;
+
+const formatSeconds = (seconds: number): string => `${seconds.toFixed(1)}s`;
+
+// A take's waveform with a handle at each trim point; the parts trimmed away are dimmed.
+const TakeWaveform: React.FC<{
+    take: VoiceoverTake;
+    onTrim: (trimStartSeconds: number, trimEndSeconds: number) => void;
+}> = ({ take, onTrim }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const { peaks, durationSeconds, trimStartSeconds, trimEndSeconds } = take;
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context) return;
+        const scale = window.devicePixelRatio || 1;
+        canvas.width = canvas.clientWidth * scale;
+        canvas.height = canvas.clientHeight * scale;
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        const barWidth = canvas.width / peaks.length;
+        peaks.forEach((peak, index) => {
+            const time = (index + 0.5) / peaks.length * durationSeconds;
+            context.fillStyle = time >= trimStartSeconds && time <= trimEndSeconds ? '#4ade80' : '#4b5563';
+            const height = Math.max(scale, peak * canvas.height);
+            context.fillRect(index * barWidth, (canvas.height - height) / 2, Math.max(scale, barWidth - scale), height);
+        });
+    }, [peaks, durationSeconds, trimStartSeconds, trimEndSeconds]);
+
+    const startDrag = (handle: 'start' | 'end') => (e: React.PointerEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const target = e.currentTarget;
+        target.setPointerCapture(e.pointerId);
+        const move = (event: PointerEvent) => {
+            const rect = containerRef.current?.getBoundingClientRect();
+            if (!rect || rect.width === 0) return;
+            const time = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)) * durationSeconds;
+            if (handle === 'start') onTrim(Math.min(time, trimEndSeconds - MIN_TRIMMED_SECONDS), trimEndSeconds);
+            else onTrim(trimStartSeconds, Math.max(time, trimStartSeconds + MIN_TRIMMED_SECONDS));
+        };
+        const stop = () => {
+            target.removeEventListener('pointermove', move);
+            target.removeEventListener('pointerup', stop);
+            target.removeEventListener('pointercancel', stop);
+        };
+        target.addEventListener('pointermove', move);
+        target.addEventListener('pointerup', stop);
+        target.addEventListener('pointercancel', stop);
+    };
+
+    const handleClass = "absolute top-0 bottom-0 w-2 -ml-1 bg-white/80 rounded cursor-ew-resize touch-none hover:bg-white";
+    return (
+        <div ref={containerRef} className="relative h-10 bg-black/30 rounded select-none">
+            <canvas ref={canvasRef} className="w-full h-full" />
+            <div className={handleClass} style={{ left: `${trimStartSeconds / durationSeconds * 100}%` }} onPointerDown={startDrag('start')} title="Trim start" />
+            <div className={handleClass} style={{ left: `${trimEndSeconds / durationSeconds * 100}%` }} onPointerDown={startDrag('end')} title="Trim end" />
+        </div>
+    );
+};
+
+/**
+ * Records a scene's voiceover from the microphone. Each recording is kept as a take with its own
+ * trim points; the chosen take is the one the video is made with.
+ */
+export const VoiceoverRecorder: React.FC<{
+    takes: VoiceoverTake[];
+    selectedTakeId: string | null;
+    onChange: (changes: Pick<VideoState, 'voiceoverTakes' | 'selectedTakeId'>) => void;
+}> = ({ takes, selectedTakeId, onChange }) => {
+    const [isRecording, setIsRecording] = useState(false);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [elapsedSeconds, setElapsedSeconds] = useState(0);
+    const [playingTakeId, setPlayingTakeId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const audioRef = useRef<HTMLAudioElement | null>(null);
+    const audioUrlRef = useRef<string | null>(null);
+    // A recording finishes after the render that stopped it, so it reads the takes from here.
+    const latest = useRef({ takes, onChange });
+    latest.current = { takes, onChange };
+
+    const stopPreview = () => {
+        audioRef.current?.pause();
+        audioRef.current = null;
+        if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+        audioUrlRef.current = null;
+        setPlayingTakeId(null);
+    };
+
+    useEffect(() => () => {
+        const recorder = recorderRef.current;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.onstop = null;
+            recorder.stop();
+        }
+        recorder?.stream.getTracks().forEach(track => track.stop());
+        stopPreview();
+    }, []);
+
+    useEffect(() => {
+        if (!isRecording) return;
+        const startedAt = Date.now();
+        const timer = window.setInterval(() => setElapsedSeconds((Date.now() - startedAt) / 1000), 100);
+        return () => window.clearInterval(timer);
+    }, [isRecording]);
+
+    const startRecording = async () => {
+        setError(null);
+        stopPreview();
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+            setError('This browser cannot record audio.');
+            return;
+        }
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const recorder = new MediaRecorder(stream);
+            const chunks: Blob[] = [];
+            recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+            recorder.onstop = async () => {
+                stream.getTracks().forEach(track => track.stop());
+                recorderRef.current = null;
+                setIsRecording(false);
+                if (chunks.length === 0) return;
+                setIsProcessing(true);
+                try {
+                    const { takes: currentTakes, onChange: notify } = latest.current;
+                    const take = await createTake(new Blob(chunks, { type: recorder.mimeType }), `Take ${currentTakes.length + 1}`);
+                    notify({ voiceoverTakes: [...currentTakes, take], selectedTakeId: take.id });
+                } catch (err) {
+                    setError(`The recording could not be read: ${parseErrorMessage(err)}`);
+                } finally {
+                    setIsProcessing(false);
+                }
+            };
+            recorderRef.current = recorder;
+            recorder.start();
+            setElapsedSeconds(0);
+            setIsRecording(true);
+        } catch (err) {
+            setError(`The microphone could not be opened: ${parseErrorMessage(err)}`);
+        }
+    };
+
+    const stopRecording = () => recorderRef.current?.stop();
+
+    // Plays the part of the take between its trim points.
+    const togglePreview = (take: VoiceoverTake) => {
+        const wasPlaying = playingTakeId === take.id;
+        stopPreview();
+        if (wasPlaying) return;
+        const url = URL.createObjectURL(take.file);
+        const audio = new Audio(url);
+        audioRef.current = audio;
+        audioUrlRef.current = url;
+        audio.ontimeupdate = () => { if (audio.currentTime >= take.trimEndSeconds) stopPreview(); };
+        audio.onended = stopPreview;
+        audio.onloadedmetadata = () => { audio.currentTime = take.trimStartSeconds; };
+        audio.play().catch(() => stopPreview());
+        setPlayingTakeId(take.id);
+    };
+
+    const updateTake = (id: string, changes: Partial<VoiceoverTake>) => {
+        onChange({ voiceoverTakes: takes.map(take => take.id === id ? { ...take, ...changes } : take), selectedTakeId });
+    };
+
+    const deleteTake = (id: string) => {
+        if (playingTakeId === id) stopPreview();
+        const remaining = takes.filter(take => take.id !== id);
+        onChange({ voiceoverTakes: remaining, selectedTakeId: selectedTakeId === id ? remaining[remaining.length - 1]?.id ?? null : selectedTakeId });
+    };
+
+    return (
+        <div className="space-y-3">
+            <button
+                onClick={isRecording ? stopRecording : startRecording}
+                disabled={isProcessing}
+                className={`w-full inline-flex items-center justify-center gap-2 text-sm font-semibold py-2 rounded-md disabled:opacity-50 ${isRecording ? 'bg-rose-600 text-white hover:bg-rose-500' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+            >
+                {isRecording ? <><StopIcon className="w-4 h-4" /> Stop Recording ({formatSeconds(elapsedSeconds)})</>
+                    : isProcessing ? 'Reading recording...'
+                    : <><MicrophoneIcon className="w-4 h-4" /> {takes.length > 0 ? 'Record Another Take' : 'Record Voiceover'}</>}
+            </button>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {takes.map(take => (
+                <div key={take.id} className={`p-2 rounded-md border space-y-1.5 ${take.id === selectedTakeId ? 'border-green-500 bg-green-900/10' : 'border-gray-700 bg-gray-800/50'}`}>
+                    <div className="flex items-center gap-2 text-xs">
+                        <label className="flex items-center gap-1.5 font-semibold text-gray-200 cursor-pointer">
+                            <input type="radio" checked={take.id === selectedTakeId} onChange={() => onChange({ voiceoverTakes: takes, selectedTakeId: take.id })} className="text-green-500 focus:ring-green-500" />
+                            {take.name}
+                        </label>
+                        <span className="text-gray-400 font-mono">{formatSeconds(take.trimStartSeconds)}–{formatSeconds(take.trimEndSeconds)} of {formatSeconds(take.durationSeconds)}</span>
+                        <div className="ml-auto flex items-center gap-1">
+                            <button onClick={() => togglePreview(take)} className="p-1 text-gray-300 hover:text-white" title={playingTakeId === take.id ? 'Stop' : 'Play trimmed take'}>
+                                {playingTakeId === take.id ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                            </button>
+                            <button onClick={() => deleteTake(take.id)} className="p-1 text-rose-400 hover:text-rose-200" title="Delete take"><TrashIcon className="w-4 h-4" /></button>
+                        </div>
+                    </div>
+                    <TakeWaveform take={take} onTrim={(trimStartSeconds, trimEndSeconds) => updateTake(take.id, { trimStartSeconds, trimEndSeconds })} />
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,183 @@
+import { base64ToBytes, bytesToBase64 } from "../utils/fileUtils";
+
+// Binary media (images, audio and downloaded video) lives in IndexedDB rather than localStorage,
+// which is both tiny and string-only. Assets are keyed by the SHA-256 of their content, so the
+// same image bookmarked twice is only stored once.
+
+const DB_NAME = 'storyWeaverAssets';
+const DB_VERSION = 1;
+const STORE_NAME = 'assets';
+
+export type AssetRecord = {
+    id: string;
+    mimeType: string;
+    size: number;
+    createdAt: number;
+    blob: Blob;
+};
+
+export type AssetInfo = Omit<AssetRecord, 'blob'>;
+
+export type StorageUsage = {
+    assetCount: number;
+    assetBytes: number;
+    sizes: Record<string, number>; // asset id -> bytes
+    usage: number | null; // Browser-reported usage for this origin, when available.
+    quota: number | null;
+};
+
+export const isQuotaError = (error: any) =>
+    error?.name === 'QuotaExceededError' || (typeof error?.message === 'string' && error.message.toLowerCase().includes('quota'));
+
+const toStoreError = (error: any, action: string): Error => {
+    if (isQuotaError(error)) {
+        const quotaError = new Error(`Browser storage is full, so the ${action} could not be completed. Remove some saved items to free up space.`);
+        quotaError.name = 'QuotaExceededError';
+        return quotaError;
+    }
+    return new Error(`Asset storage failed during ${action}: ${error?.message || error}`);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Ask the browser not to evict our data under storage pressure. Best effort only.
+        navigator.storage?.persist?.().catch(() => undefined);
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    action: string,
+    work: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        let result: T | undefined;
+        try {
+            const transaction = db.transaction(STORE_NAME, mode);
+            const request = work(transaction.objectStore(STORE_NAME));
+            if (request) {
+                request.onsuccess = () => { result = request.result; };
+            }
+            transaction.oncomplete = () => resolve(result);
+            transaction.onerror = () => reject(toStoreError(transaction.error, action));
+            transaction.onabort = () => reject(toStoreError(transaction.error, action));
+        } catch (error) {
+            reject(toStoreError(error, action));
+        }
+    });
+};
+
+const hashBytes = async (bytes: Uint8Array): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Stores binary data and returns its content-hash id. Storing identical content again is a no-op. */
+export async function putAsset(data: Uint8Array | Blob, mimeType: string): Promise<string> {
+    const bytes = data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data;
+    const id = await hashBytes(bytes);
+    const existing = await runTransaction<number>('readonly', 'lookup', store => store.count(id));
+    if (existing) return id;
+
+    const record: AssetRecord = {
+        id,
+        mimeType,
+        size: bytes.byteLength,
+        createdAt: Date.now(),
+        blob: new Blob([bytes], { type: mimeType }),
+    };
+    await runTransaction('readwrite', 'save', store => { store.put(record); });
+    return id;
+}
+
+export const putBase64Asset = (base64: string, mimeType: string): Promise<string> =>
+    putAsset(base64ToBytes(base64), mimeType);
+
+export async function getAssetBlob(id: string): Promise<Blob | null> {
+    const record = await runTransaction<AssetRecord>('readonly', 'load', store => store.get(id));
+    return record?.blob ?? null;
+}
+
+export async function getAssetBase64(id: string): Promise<string | null> {
+    const blob = await getAssetBlob(id);
+    return blob ? bytesToBase64(new Uint8Array(await blob.arrayBuffer())) : null;
+}
+
+export async function listAssets(): Promise<AssetInfo[]> {
+    const records = await runTransaction<AssetRecord[]>('readonly', 'listing', store => store.getAll());
+    return (records ?? []).map(({ blob, ...info }) => info);
+}
+
+export async function deleteAssets(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await runTransaction('readwrite', 'delete', store => {
+        ids.forEach(id => store.delete(id));
+    });
+}
+
+// --- References -------------------------------------------------------------------------------
+
+// Saved items, the character library and the style library all keep asset ids, and being
+// content-addressed the same image can be used by several of them. Each registers a function
+// listing the ids it uses, and an asset is only deleted when none of them lists it.
+type AssetReferenceSource = () => string[] | Promise<string[]>;
+
+const referenceSources = new Set<AssetReferenceSource>();
+
+export const registerAssetReferences = (source: AssetReferenceSource) => {
+    referenceSources.add(source);
+};
+
+/**
+ * Deletes those of `ids` that no registered source still uses. Every deletion of a stored
+ * reference goes through here rather than deleteAssets.
+ */
+export async function releaseAssets(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const lists = await Promise.all(Array.from(referenceSources, source => source()));
+    const inUse = new Set(lists.flat());
+    await deleteAssets(Array.from(new Set(ids)).filter(id => !inUse.has(id)));
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+    const assets = await listAssets();
+    const sizes: Record<string, number> = {};
+    assets.forEach(asset => { sizes[asset.id] = asset.size; });
+
+    let usage: number | null = null;
+    let quota: number | null = null;
+    try {
+        const estimate = await navigator.storage?.estimate?.();
+        usage = estimate?.usage ?? null;
+        quota = estimate?.quota ?? null;
+    } catch (error) {
+        console.warn("Could not estimate browser storage usage:", error);
+    }
+
+    return {
+        assetCount: assets.length,
+        assetBytes: assets.reduce((sum, asset) => sum + asset.size, 0),
+        sizes,
+        usage,
+        quota,
+    };
+}
@@ -0,0 +1,365 @@
+// The character bible: every character the user has defined, kept between sessions together with
+// their reference images, named outfits, voice and personality notes. The cast is the part of the
+// library that new generations are made with; each generation keeps its own copy of its cast.
+
+import { Part } from "@google/genai";
+import { Character, CharacterOutfit, CharacterReferenceImage, CharacterReferenceKind } from "./geminiService";
+import { getAssetBase64, putBase64Asset, registerAssetReferences, releaseAssets } from "./assetStore";
+import { TTS_VOICES } from "./styleLibrary";
+import { base64ToBytes } from "../utils/fileUtils";
+
+export const REFERENCE_KIND_LABELS: Record<CharacterReferenceKind, string> = {
+    face: 'Face',
+    fullBody: 'Full body',
+    turnaround: 'Turnaround',
+};
+
+const STORAGE_KEY = 'storyWeaverCharacters';
+const EXPORT_FORMAT = 'storyweaver-characters';
+const EXPORT_VERSION = 1;
+
+// The face image is kept in the asset store like the other reference images; the metadata only
+// holds its id.
+type StoredCharacter = Omit<Character, 'imagePreview' | 'originalImageBase64' | 'isDescribing'> & {
+    imageAssetId: string | null;
+};
+
+type StoredLibrary = { characters: StoredCharacter[]; castIds: number[] };
+
+export type CharacterLibrary = { characters: Character[]; castIds: number[] };
+
+// Reference image data by asset id, so prompts and previews can be built synchronously.
+const referenceImageCache = new Map<string, string>();
+// Face image asset ids by image data, so saving the library doesn't hash unchanged images again.
+let faceAssetIds = new Map<string, string>();
+// Saves can overlap while a new face image is being stored; only the latest one is written.
+let latestSave = 0;
+// Reference images stored since the library was last written, so they aren't released before it is.
+const unsavedReferenceIds = new Set<string>();
+
+const readStoredLibrary = (): StoredLibrary => {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : { characters: [], castIds: [] };
+};
+
+const getStoredAssetIds = (library: StoredLibrary): string[] => library.characters.flatMap(character => [
+    ...(character.imageAssetId ? [character.imageAssetId] : []),
+    ...(character.referenceImages ?? []).map(image => image.assetId),
+]);
+
+registerAssetReferences(() => {
+    let stored: string[] = [];
+    try {
+        stored = getStoredAssetIds(readStoredLibrary());
+    } catch (error) {
+        console.warn("Could not read the stored character library:", error);
+    }
+    return [...stored, ...faceAssetIds.values(), ...unsavedReferenceIds];
+});
+
+export const createCharacter = (changes: Partial<Character> = {}): Character => ({
+    id: Date.now(),
+    name: '',
+    imagePreview: null,
+    originalImageBase64: null,
+    originalImageMimeType: null,
+    description: null,
+    detectedImageStyle: null,
+    isDescribing: false,
+    referenceImages: [],
+    outfits: [],
+    outfitId: null,
+    voiceName: null,
+    voiceStyle: '',
+    accentNotes: '',
+    personality: '',
+    ...changes,
+});
+
+export const createOutfit = (): CharacterOutfit => ({ id: `outfit-${Date.now()}`, name: '', description: '' });
+
+const toPreviewUrl = (base64: string, mimeType: string) =>
+    URL.createObjectURL(new Blob([base64ToBytes(base64)], { type: mimeType }));
+
+/** Loads any reference images of `characters` that aren't cached yet. */
+export async function loadCharacterReferenceImages(characters: Character[]): Promise<void> {
+    const ids = characters
+        .flatMap(character => (character.referenceImages ?? []).map(image => image.assetId))
+        .filter(id => !referenceImageCache.has(id));
+    await Promise.all(Array.from(new Set(ids)).map(async id => {
+        const data = await getAssetBase64(id);
+        if (data) referenceImageCache.set(id, data);
+    }));
+}
+
+export const getCharacterReferenceImageData = (image: CharacterReferenceImage): string | null =>
+    referenceImageCache.get(image.assetId) ?? null;
+
+/** Stores a reference image and returns it ready to be added to a character. */
+export async function storeCharacterReferenceImage(base64: string, mimeType: string, kind: CharacterReferenceKind): Promise<CharacterReferenceImage> {
+    const assetId = await putBase64Asset(base64, mimeType);
+    referenceImageCache.set(assetId, base64);
+    unsavedReferenceIds.add(assetId);
+    return { assetId, mimeType, kind };
+}
+
+export async function loadCharacterLibrary(): Promise<CharacterLibrary> {
+    let stored: StoredLibrary = { characters: [], castIds: [] };
+    try {
+        stored = readStoredLibrary();
+    } catch (error) {
+        console.warn("Could not read the stored character library:", error);
+    }
+
+    const characters = await Promise.all(stored.characters.map(async ({ imageAssetId, ...character }) => {
+        // A face image missing from this device leaves the character without one.
+        const originalImageBase64 = imageAssetId ? await getAssetBase64(imageAssetId) : null;
+        if (originalImageBase64 && imageAssetId) faceAssetIds.set(originalImageBase64, imageAssetId);
+        return createCharacter({
+            ...character,
+            originalImageBase64,
+            imagePreview: originalImageBase64 ? toPreviewUrl(originalImageBase64, character.originalImageMimeType || 'image/png') : null,
+        });
+    }));
+    await loadCharacterReferenceImages(characters);
+    return { characters, castIds: stored.castIds.filter(id => characters.some(character => character.id === id)) };
+}
+
+export async function saveCharacterLibrary(library: CharacterLibrary): Promise<void> {
+    const save = ++latestSave;
+    const known = new Map<string, string>();
+    const characters: StoredCharacter[] = [];
+    for (const { imagePreview, originalImageBase64, isDescribing, ...character } of library.characters) {
+        let imageAssetId: string | null = null;
+        if (originalImageBase64) {
+            imageAssetId = faceAssetIds.get(originalImageBase64);
+            if (!imageAssetId) {
+                imageAssetId = await putBase64Asset(originalImageBase64, character.originalImageMimeType || 'image/png');
+                faceAssetIds.set(originalImageBase64, imageAssetId);
+            }
+            known.set(originalImageBase64, imageAssetId);
+        }
+        characters.push({ ...character, imageAssetId });
+    }
+    if (save !== latestSave) return;
+    let previousIds: string[] = [];
+    try {
+        previousIds = getStoredAssetIds(readStoredLibrary());
+    } catch (error) {
+        console.warn("Could not read the stored character library:", error);
+    }
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ characters, castIds: library.castIds }));
+    } catch (error) {
+        console.warn("Could not persist the character library:", error);
+        return;
+    }
+    faceAssetIds = known;
+    unsavedReferenceIds.clear();
+    // Faces and reference images of deleted characters, unless a saved item still uses them.
+    await releaseAssets(previousIds);
+}
+
+// --- Import and export ------------------------------------------------------------------------
+
+type ExportedImage = { mimeType: string; data: string };
+
+type ExportedCharacter = Omit<Character, 'id' | 'imagePreview' | 'originalImageBase64' | 'originalImageMimeType' | 'isDescribing' | 'referenceImages'> & {
+    image: ExportedImage | null;
+    referenceImages: (ExportedImage & { kind: CharacterReferenceKind })[];
+};
+
+/** Serialises characters with their images inline, for sharing between machines and projects. */
+export function exportCharacters(characters: Character[]): Blob {
+    const exported: ExportedCharacter[] = characters.map(({ id, imagePreview, originalImageBase64, originalImageMimeType, isDescribing, referenceImages, ...character }) => ({
+        ...character,
+        image: originalImageBase64 ? { mimeType: originalImageMimeType || 'image/png', data: originalImageBase64 } : null,
+        referenceImages: (referenceImages ?? [])
+            .map(image => ({ kind: image.kind, mimeType: image.mimeType, data: getCharacterReferenceImageData(image) }))
+            .filter((image): image is ExportedImage & { kind: CharacterReferenceKind } => image.data !== null),
+    }));
+    return new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, characters: exported }, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Reads the characters in an exported file as new characters with fresh ids. Names that clash
+ * with `existing` get a number appended, since prompts tell characters apart by name.
+ */
+export async function importCharacters(file: File, existing: Character[]): Promise<Character[]> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error("The character file is not valid JSON.");
+    }
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.characters)) {
+        throw new Error("This file is not a Story Weaver character export.");
+    }
+    if (parsed.version > EXPORT_VERSION) {
+        throw new Error("This character file was exported by a newer version of Story Weaver.");
+    }
+
+    const names = new Set(existing.map(character => character.name.toLowerCase()));
+    const imported: Character[] = [];
+    for (const [index, { image, referenceImages, ...character }] of (parsed.characters as ExportedCharacter[]).entries()) {
+        let name = character.name;
+        for (let copy = 2; name && names.has(name.toLowerCase()); copy++) {
+            name = `${character.name} (${copy})`;
+        }
+        names.add(name.toLowerCase());
+
+        const storedReferences: CharacterReferenceImage[] = [];
+        for (const reference of referenceImages ?? []) {
+            storedReferences.push(await storeCharacterReferenceImage(reference.data, reference.mimeType, reference.kind));
+        }
+        imported.push(createCharacter({
+            ...character,
+            id: Date.now() + index,
+            name,
+            originalImageBase64: image?.data ?? null,
+            originalImageMimeType: image?.mimeType ?? null,
+            imagePreview: image ? toPreviewUrl(image.data, image.mimeType) : null,
+            referenceImages: storedReferences,
+        }));
+    }
+    return imported;
+}
+
+// --- Prompt fragments -------------------------------------------------------------------------
+
+export const getActiveOutfit = (character: Character): CharacterOutfit | null =>
+    character.outfits?.find(outfit => outfit.id === character.outfitId) ?? null;
+
+/** The character's visual description, with the selected outfit when there is one. */
+export const describeCharacter = (character: Character): string => {
+    const outfit = getActiveOutfit(character);
+    const description = character.description?.trim() ?? '';
+    if (!outfit?.description.trim()) return description;
+    return `${description} Outfit${outfit.name.trim() ? ` ("${outfit.name.trim()}")` : ''}: ${outfit.description.trim()} This outfit replaces any clothing described above.`;
+};
+
+/** The description plus personality notes, for prompts that direct performance rather than looks. */
+export const describeCharacterWithPersonality = (character: Character): string => {
+    const personality = character.personality?.trim();
+    return personality ? `${describeCharacter(character)} Personality: ${personality}` : describeCharacter(character);
+};
+
+// --- Voices -----------------------------------------------------------------------------------
+
+/**
+ * The voice each named character speaks with. Chosen voices are kept; the others are given
+ * voices in list order, preferring ones nobody else (including `reserved`, such as the
+ * narrator's) has yet, so that a story's characters sound distinct. The same list always gives
+ * the same voices, so a character sounds the same in every scene and clip of a generation.
+ */
+export const buildVoiceMap = (characters: Character[], reserved: string[] = []): Map<number, string> => {
+    const voices = new Map<number, string>();
+    const taken = new Set(reserved);
+    characters.forEach(character => {
+        if (character.name && character.voiceName) {
+            voices.set(character.id, character.voiceName);
+            taken.add(character.voiceName);
+        }
+    });
+    const free = TTS_VOICES.filter(voice => !taken.has(voice));
+    const pool = free.length > 0 ? free : TTS_VOICES;
+    characters.filter(character => character.name && !voices.has(character.id)).forEach((character, index) => {
+        voices.set(character.id, pool[index % pool.length]);
+    });
+    return voices;
+};
+
+/** The characters with their automatic voices written in, for copies that must not change. */
+export const withResolvedVoices = (characters: Character[], reserved: string[] = []): Character[] => {
+    const voices = buildVoiceMap(characters, reserved);
+    return characters.map(character => ({ ...character, voiceName: voices.get(character.id) ?? character.voiceName ?? null }));
+};
+
+/** Direction for the character's voice, e.g. "Ada's voice is warm, with a Lagos accent."; empty without notes. */
+export const describeVoice = (character: Character): string => {
+    const style = character.voiceStyle?.trim();
+    const accent = character.accentNotes?.trim();
+    if (style) return `${character.name}'s voice is ${style}${accent ? `, with a ${accent} accent` : ''}.`;
+    return accent ? `${character.name} speaks with a ${accent} accent.` : '';
+};
+
+// Nano Banana accepts more images than this, but keeps several identities apart reliably only
+// with a handful, so the reference images sent with one request are capped.
+export const MAX_REFERENCE_IMAGES = 6;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The characters named in `text` as whole words, ignoring case, in their original order. */
+export const findCharactersInText = (text: string, characters: Character[]): Character[] =>
+    characters.filter(character => {
+        const name = character.name.trim();
+        return !!name && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+    });
+
+/**
+ * The characters whose reference images go with a request about `text`. When the scene's
+ * characters were marked in the breakdown (`characterIds`), those with a face image are used.
+ * Otherwise it's those `text` names that have one; when it names none, the first character
+ * with a face image is used, since scene prompts don't always repeat the name of a story's only
+ * character.
+ */
+export const selectReferenceCharacters = (text: string, characters: Character[], characterIds?: number[]): Character[] => {
+    const withImage = characters.filter(character => character.originalImageBase64 && character.originalImageMimeType);
+    if (characterIds) return withImage.filter(character => characterIds.includes(character.id));
+    const named = findCharactersInText(text, withImage);
+    return named.length > 0 ? named : withImage.slice(0, 1);
+};
+
+type ReferenceImageData = { kind: CharacterReferenceKind; mimeType: string; data: string };
+
+export type CastReferences = {
+    parts: Part[];
+    characters: Character[]; // the characters that made it into the parts
+    imageCount: number;
+};
+
+/**
+ * Labelled reference image parts for `characters`, at most `maxImages` images in all. Face images
+ * come first for everyone; the further references are then shared out one per character per round
+ * while the budget lasts. Characters that don't get a face image in are left out of `characters`
+ * so the caller can describe them in text instead. Call loadCharacterReferenceImages first.
+ */
+export const buildCastReferenceParts = (characters: Character[], maxImages: number): CastReferences => {
+    const included = characters.slice(0, Math.max(0, maxImages));
+    const images: ReferenceImageData[][] = included.map(character => [
+        { kind: 'face', mimeType: character.originalImageMimeType!, data: character.originalImageBase64! },
+    ]);
+    const extras = included.map(character => (character.referenceImages ?? [])
+        .map(image => ({ kind: image.kind, mimeType: image.mimeType, data: getCharacterReferenceImageData(image) }))
+        .filter((image): image is ReferenceImageData => image.data !== null));
+
+    let remaining = maxImages - included.length;
+    for (let round = 0; remaining > 0 && extras.some(list => list.length > round); round++) {
+        extras.forEach((list, index) => {
+            if (remaining > 0 && list[round]) {
+                images[index].push(list[round]);
+                remaining--;
+            }
+        });
+    }
+
+    const parts = included.flatMap((character, index): Part[] => [
+        { text: `**REFERENCE IMAGES FOR ${character.name || 'THE CHARACTER'}:** The next ${images[index].length} image(s) show ${character.name || 'this character'} (${images[index].map(image => REFERENCE_KIND_LABELS[image.kind].toLowerCase()).join(', ')}).` },
+        ...images[index].map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+    ]);
+    return { parts, characters: included, imageCount: images.reduce((count, list) => count + list.length, 0) };
+};
+
+/**
+ * One identity rule per referenced character. A selected outfit replaces the clothing in the
+ * reference images; otherwise the clothing is kept when `keepClothing` is set.
+ */
+export const buildCastIdentityRules = (characters: Character[], keepClothing: boolean): string =>
+    characters.map(character => {
+        const name = character.name || 'The character';
+        const outfit = getActiveOutfit(character)?.description.trim();
+        const clothing = outfit
+            ? ` Instead of the clothing in the reference images, ${name} MUST wear: ${outfit}`
+            : keepClothing ? ` Keep the clothing shown in the reference images.` : '';
+        return `- **${name}:** MUST be a perfect visual match to the reference images labelled with their name: the same face, hair, skin tone, body proportions and identity. Do not swap or blend features with any other character.${clothing}`;
+    }).join('\n');
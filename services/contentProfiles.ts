@@ -0,0 +1,189 @@
+// Casting & safety profiles: the demographic direction, cultural setting, forbidden topics and
+// safety thresholds that geminiService writes into prompts and requests. A generation keeps a
+// copy of the profile it was made with, so later edits to the library don't change how its
+// scenes are regenerated.
+
+import { HarmBlockThreshold, HarmCategory } from "@google/genai";
+import { SafetySetting } from "./providers";
+
+export type SafetyCategory = 'harassment' | 'hateSpeech' | 'sexuallyExplicit' | 'dangerousContent';
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export type ContentProfile = {
+    id: string;
+    name: string;
+    demographicDirection: string; // who every human character must be; empty for no direction
+    culturalSetting: string; // how settings and cultural elements are depicted; may be empty
+    forbiddenTopics: string[];
+    familyFriendly: boolean;
+    safetyThresholds: Record<SafetyCategory, SafetyThreshold>;
+};
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+    harassment: 'Harassment',
+    hateSpeech: 'Hate speech',
+    sexuallyExplicit: 'Sexually explicit',
+    dangerousContent: 'Dangerous content',
+};
+
+export const SAFETY_THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+    BLOCK_NONE: 'Block none',
+    BLOCK_ONLY_HIGH: 'Block high',
+    BLOCK_MEDIUM_AND_ABOVE: 'Block medium and above',
+    BLOCK_LOW_AND_ABOVE: 'Block low and above',
+};
+
+const HARM_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+    harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+    hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+    sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+    dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+};
+
+export const DEFAULT_CONTENT_PROFILE_ID = 'default';
+
+// The rules Story Weaver has always applied.
+export const DEFAULT_CONTENT_PROFILE: ContentProfile = {
+    id: DEFAULT_CONTENT_PROFILE_ID,
+    name: 'Story Weaver Default',
+    demographicDirection: 'of Black African descent',
+    culturalSetting: 'Ensure the setting, cultural elements, and descriptions reflect the characters\' Black African heritage.',
+    forbiddenTopics: ['violence', 'weapons', 'conflict', 'aggression', 'political themes', 'social commentary'],
+    familyFriendly: true,
+    safetyThresholds: {
+        harassment: 'BLOCK_NONE',
+        hateSpeech: 'BLOCK_NONE',
+        sexuallyExplicit: 'BLOCK_NONE',
+        dangerousContent: 'BLOCK_NONE',
+    },
+};
+
+const STORAGE_KEY = 'storyWeaverContentProfiles';
+
+type StoredProfiles = { profiles: ContentProfile[]; selectedId: string };
+
+const readStoredProfiles = (): StoredProfiles => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed: StoredProfiles = JSON.parse(stored);
+            const profiles = parsed.profiles.map(normalizeProfile);
+            if (!profiles.some(profile => profile.id === DEFAULT_CONTENT_PROFILE_ID)) profiles.unshift(DEFAULT_CONTENT_PROFILE);
+            const selectedId = profiles.some(profile => profile.id === parsed.selectedId) ? parsed.selectedId : DEFAULT_CONTENT_PROFILE_ID;
+            return { profiles, selectedId };
+        }
+    } catch (error) {
+        console.warn("Could not read the stored content profiles:", error);
+    }
+    return { profiles: [DEFAULT_CONTENT_PROFILE], selectedId: DEFAULT_CONTENT_PROFILE_ID };
+};
+
+let state: StoredProfiles = readStoredProfiles();
+
+const persist = () => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+        console.warn("Could not persist the content profiles:", error);
+    }
+};
+
+/** Fills in fields missing from profiles stored by older versions or loaded from projects. */
+export const normalizeProfile = (profile: Partial<ContentProfile> | undefined): ContentProfile => ({
+    ...DEFAULT_CONTENT_PROFILE,
+    ...profile,
+    safetyThresholds: { ...DEFAULT_CONTENT_PROFILE.safetyThresholds, ...profile?.safetyThresholds },
+});
+
+export const listContentProfiles = (): ContentProfile[] => state.profiles;
+
+export const getSelectedContentProfile = (): ContentProfile =>
+    state.profiles.find(profile => profile.id === state.selectedId) ?? DEFAULT_CONTENT_PROFILE;
+
+export const selectContentProfile = (id: string) => {
+    state = { ...state, selectedId: id };
+    persist();
+};
+
+export const saveContentProfile = (profile: ContentProfile) => {
+    const exists = state.profiles.some(existing => existing.id === profile.id);
+    state = {
+        ...state,
+        profiles: exists
+            ? state.profiles.map(existing => existing.id === profile.id ? profile : existing)
+            : [...state.profiles, profile],
+    };
+    persist();
+};
+
+/** Copies a profile under a new id; the copy is what gets edited when starting a new profile. */
+export const duplicateContentProfile = (profile: ContentProfile): ContentProfile => {
+    const copy = { ...profile, id: `profile-${Date.now()}`, name: `${profile.name} (copy)` };
+    saveContentProfile(copy);
+    return copy;
+};
+
+// The default profile always exists; it can be edited but not deleted.
+export const deleteContentProfile = (id: string) => {
+    if (id === DEFAULT_CONTENT_PROFILE_ID) return;
+    state = {
+        profiles: state.profiles.filter(profile => profile.id !== id),
+        selectedId: state.selectedId === id ? DEFAULT_CONTENT_PROFILE_ID : state.selectedId,
+    };
+    persist();
+};
+
+// --- Prompt and request fragments --------------------------------------------------------------
+
+export const toSafetySettings = (profile: ContentProfile): SafetySetting[] =>
+    (Object.keys(HARM_CATEGORIES) as SafetyCategory[]).map(category => ({
+        category: HARM_CATEGORIES[category],
+        threshold: HarmBlockThreshold[profile.safetyThresholds[category]],
+    }));
+
+/** Casting and setting direction for the scene breakdown. */
+export const buildStoryCastingInstruction = (profile: ContentProfile): string => {
+    const lines: string[] = [];
+    if (profile.demographicDirection.trim()) {
+        lines.push(`**CASTING MANDATE:** ALL human characters in the story and scene descriptions MUST be ${profile.demographicDirection.trim()}.`);
+    }
+    if (profile.culturalSetting.trim()) {
+        lines.push(`**CULTURAL SETTING:** ${profile.culturalSetting.trim()}`);
+    }
+    return lines.join(' ');
+};
+
+/** Numbered safety rules for the scene breakdown, continuing the caller's own rule list. */
+export const buildStorySafetyRules = (profile: ContentProfile, firstNumber: number): string => {
+    const rules: string[] = [];
+    const topics = profile.forbiddenTopics.map(topic => topic.trim()).filter(Boolean);
+    if (topics.length > 0) {
+        rules.push(`**Prohibited Content:** STRICTLY AVOID any mention, hint, or description of ${topics.join(', ')}, or any sensitive topics that could be misinterpreted by a safety filter.`);
+    }
+    if (profile.familyFriendly) {
+        rules.push(`**Focus:** Concentrate on positive or neutral actions, settings, and character interactions.`);
+        rules.push(`**Goal:** The final prompts must be 100% safe-for-work and family-friendly.`);
+    }
+    return rules.map((rule, index) => `    ${firstNumber + index}.  ${rule}`).join('\n');
+};
+
+/**
+ * Casting direction for image prompts. `strict` adds the instruction to override conflicting
+ * descriptions, which scene generation needs but edits of an existing image don't.
+ */
+export const buildImageCastingMandate = (profile: ContentProfile, strict: boolean): string => {
+    const demographic = profile.demographicDirection.trim();
+    const topics = profile.forbiddenTopics.map(topic => topic.trim()).filter(Boolean);
+    const sections: string[] = [];
+    if (demographic) {
+        const override = strict
+            ? ` This is a non-negotiable instruction. If the prompt, scene description, or character descriptions ask for or describe someone who is not ${demographic}, you MUST ignore that specific trait and render them as ${demographic}, while keeping all other characteristics (like clothing, pose, expression) the same.`
+            : '';
+        sections.push(`**CASTING MANDATE (CRITICAL & ABSOLUTE REQUIREMENT):**\nALL human characters depicted in the image MUST be ${demographic}.${override}`);
+    }
+    if (topics.length > 0) {
+        sections.push(`**DO NOT DEPICT:** ${topics.join(', ')}.`);
+    }
+    return sections.length > 0 ? `---\n${sections.join('\n')}\n---\n` : '';
+};
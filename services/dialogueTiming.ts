@@ -0,0 +1,90 @@
+// Fits a voiceover to the video clips it plays over. A clip is at most a few seconds long, so a
+// longer voiceover is split between its lines (or, inside a line too long for one clip, at a
+// pause) into several clips, each continuing from the last frame of the one before, and each
+// clip's lines and their timing direct the lip-sync in its video prompt.
+
+import { LineTiming, RenderedDialogue } from "./geminiService";
+import { NARRATOR, SCENE_DURATIONS } from "./screenplay";
+import { bytesToBase64, base64ToBytes } from "../utils/fileUtils";
+import { pcmToWav, quietestPoint, readPcm, slicePcm } from "../utils/wavUtils";
+
+// One video clip's share of a voiceover.
+export type DialogueClip = {
+    durationSeconds: number; // one of SCENE_DURATIONS
+    audioBase64: string; // a WAV file of the clip's lines
+    timings: LineTiming[]; // relative to the start of the clip
+};
+
+const MAX_CLIP_SECONDS = SCENE_DURATIONS[SCENE_DURATIONS.length - 1];
+
+const toMilliseconds = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// The shortest clip length that holds `seconds`, or the longest there is.
+const clipLengthFor = (seconds: number): number =>
+    SCENE_DURATIONS.find(duration => duration >= seconds) ?? MAX_CLIP_SECONDS;
+
+/**
+ * Breaks a line too long for one clip into parts that each fit, cut at the quietest moment in the
+ * second half of each clip's worth, so the cut falls between words where it can. The words are
+ * shared out between the parts in proportion to their length.
+ */
+const splitLongLine = (timing: LineTiming, pcm: Uint8Array): LineTiming[] => {
+    const cuts = [timing.startSeconds];
+    while (timing.endSeconds - cuts[cuts.length - 1] > MAX_CLIP_SECONDS) {
+        const start = cuts[cuts.length - 1];
+        cuts.push(quietestPoint(pcm, start + MAX_CLIP_SECONDS / 2, start + MAX_CLIP_SECONDS));
+    }
+    cuts.push(timing.endSeconds);
+
+    const words = timing.text.split(/\s+/).filter(Boolean);
+    const length = timing.endSeconds - timing.startSeconds;
+    const wordAt = (seconds: number) => Math.round((seconds - timing.startSeconds) / length * words.length);
+    return cuts.slice(0, -1).map((startSeconds, index) => ({
+        ...timing,
+        text: words.slice(wordAt(startSeconds), wordAt(cuts[index + 1])).join(' ') || '…',
+        startSeconds,
+        endSeconds: cuts[index + 1],
+    }));
+};
+
+/**
+ * Splits a rendered voiceover into clips. Lines are kept whole and packed into as few clips as
+ * fit; a clip runs from its first line to the start of the next clip's, so the pauses stay where
+ * they were. A line longer than any clip carries on into the clips after it (see splitLongLine).
+ * A voiceover that fits in one clip gets `preferredSeconds` (the scene's chosen length) when that
+ * is long enough.
+ */
+export function splitDialogueIntoClips(dialogue: RenderedDialogue, preferredSeconds?: number): DialogueClip[] {
+    const pcm = readPcm(base64ToBytes(dialogue.audioBase64));
+    const groups: LineTiming[][] = [];
+    dialogue.timings.flatMap(timing => splitLongLine(timing, pcm)).forEach(timing => {
+        const group = groups[groups.length - 1];
+        if (group && timing.endSeconds - group[0].startSeconds <= MAX_CLIP_SECONDS) group.push(timing);
+        else groups.push([timing]);
+    });
+
+    return groups.map((group, index) => {
+        const start = group[0].startSeconds;
+        const end = groups[index + 1]?.[0].startSeconds ?? group[group.length - 1].endSeconds;
+        const spoken = group[group.length - 1].endSeconds - start;
+        const durationSeconds = groups.length === 1 && preferredSeconds && preferredSeconds >= spoken
+            ? preferredSeconds
+            : clipLengthFor(spoken);
+        return {
+            durationSeconds,
+            audioBase64: bytesToBase64(pcmToWav(slicePcm(pcm, start, Math.min(end, start + durationSeconds)))),
+            timings: group.map(timing => ({ ...timing, startSeconds: toMilliseconds(timing.startSeconds - start), endSeconds: toMilliseconds(timing.endSeconds - start) })),
+        };
+    });
+}
+
+/** Lip-sync direction for a video prompt: who speaks which line, and when. */
+export function buildLipSyncDirection(timings: LineTiming[]): string {
+    const lines = timings.map(timing => {
+        const when = `${timing.startSeconds.toFixed(1)}s–${timing.endSeconds.toFixed(1)}s`;
+        return timing.speaker === NARRATOR
+            ? `- ${when}, narration from off screen (no one's lips move): "${timing.text}"`
+            : `- ${when}, **${timing.speaker}** says: "${timing.text}"`;
+    });
+    return `**Dialogue Lip-Sync:** The clip is dubbed with the lines below. Move each speaker's mouth in time with their line, only while it is heard, and keep every mouth closed between lines.\n${lines.join('\n')}`;
+}
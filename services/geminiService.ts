@@ -1,8 +1,19 @@
 
-// FIX: Added Modality and Part to imports for TTS and generic content parts.
-import { GoogleGenAI, Type, HarmCategory, HarmBlockThreshold, GenerateContentResponse, Modality, Part } from "@google/genai";
-import { base64ToBytes } from "../utils/fileUtils";
+import { Type, Part } from "@google/genai";
+import { base64ToBytes, bytesToBase64 } from "../utils/fileUtils";
+import { joinPcm, pcmToWav, readPcm } from "../utils/wavUtils";
+import { extractFrameAsBase64 } from "../utils/frameUtils";
 import { parseErrorMessage } from "../utils/errorUtils";
+import { delay, isAbortError } from "../utils/abortUtils";
+import { getProvider, getProviderForVideo, MediaProvider } from "./providers";
+import { runJob } from "./jobScheduler";
+import { meterProvider } from "./usageTracker";
+import { buildStyleInstructions, buildStyleReferenceParts, getNarratorVoice, getStyle, listStyles } from "./styleLibrary";
+import { buildCastIdentityRules, buildCastReferenceParts, buildVoiceMap, describeCharacter, describeCharacterWithPersonality, describeVoice, findCharactersInText, getActiveOutfit, loadCharacterReferenceImages, MAX_REFERENCE_IMAGES, selectReferenceCharacters } from "./characterLibrary";
+import { buildSceneActionDirection, buildSceneImagePrompt, createScriptScene, DialogueLine, NARRATOR, parseDialogueScript, SCENE_DURATIONS, SCENE_SETTINGS, SceneSetting, ScriptScene, SHOT_TYPES, snapDuration } from "./screenplay";
+import { buildLipSyncDirection, DialogueClip, splitDialogueIntoClips } from "./dialogueTiming";
+import { Transcript, TranscriptSegment } from "./transcript";
+import { buildImageCastingMandate, buildStoryCastingInstruction, buildStorySafetyRules, ContentProfile, DEFAULT_CONTENT_PROFILE, toSafetySettings } from "./contentProfiles";
 
 // Add Character type to be used in App.tsx
 export type Character = {
@@ -14,6 +25,28 @@ export type Character = {
   description: string | null;
   detectedImageStyle: string | null; // New field for the style of the uploaded image
   isDescribing: boolean;
+  // Character bible fields; absent on characters saved before the library existed.
+  referenceImages?: CharacterReferenceImage[]; // further references next to the face image above
+  outfits?: CharacterOutfit[];
+  outfitId?: string | null; // the outfit worn in new scenes; null for the one in the description
+  voiceName?: string | null; // TTS voice when the character speaks; null keeps the automatic choice
+  voiceStyle?: string; // how they speak, e.g. "warm and unhurried"
+  accentNotes?: string; // e.g. "Lagos Nigerian English"
+  personality?: string;
+};
+
+export type CharacterReferenceKind = 'face' | 'fullBody' | 'turnaround';
+
+export type CharacterReferenceImage = {
+  assetId: string; // id in the asset store
+  mimeType: string;
+  kind: CharacterReferenceKind;
+};
+
+export type CharacterOutfit = {
+  id: string;
+  name: string;
+  description: string;
 };
 
 // FIX: Added and exported AudioOptions type.
@@ -24,7 +57,7 @@ export type AudioOptions = {
     assignment?: { type: 'character'; characterName: string } | { type: 'background' };
 } | {
     mode: 'tts';
-    data: string; // script prompt
+    clips: DialogueClip[]; // the voiceover, from prepareVoiceover or a transcribed recording
 };
 
 export type EditImageParams = {
@@ -35,46 +68,22 @@ export type EditImageParams = {
   imageStyle: string;
   genre: string;
   characters: Character[];
+  contentProfile?: ContentProfile; // the generation's casting & safety profile; the default when absent
+  scenePrompt?: string; // the scene's own prompt, used with the edit prompt to tell who is in the scene
+  characterIds?: number[]; // the characters marked as appearing in the scene, when known
 };
 
-const getAiClient = () => {
-    const API_KEY = process.env.API_KEY;
-    if (!API_KEY) {
-      throw new Error("API_KEY environment variable not set");
-    }
-    return new GoogleGenAI({ apiKey: API_KEY });
-}
+// A batch keeps going when one of its jobs is cancelled from the jobs panel: only the batch's own
+// signal cancels the whole batch.
+const isSingleJobCancelled = (error: unknown, batchSignal?: AbortSignal): boolean =>
+    isAbortError(error) && !batchSignal?.aborted;
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Most service calls are a single model request; each one is queued as its own job. `usageKey`
+// attributes the metered call to the generation or uploaded item it was made for.
+// `call` gets the job's signal, which also fires when just this job is cancelled, to pass on to the provider.
+const runModelRequest = <T>(label: string, model: string, call: (provider: MediaProvider, signal: AbortSignal) => Promise<T>, signal?: AbortSignal, usageKey?: string): Promise<T> =>
+    runJob({ label, model, signal }, job => job.request(() => call(meterProvider(getProvider(), label, usageKey), job.signal)));
 
-async function withRetry<T>(apiCall: () => Promise<T>, onRetryMessage?: (msg: string) => void): Promise<T> {
-    let attempt = 0;
-    const maxRetries = 3;
-
-    while (attempt < maxRetries) {
-        try {
-            return await apiCall();
-        } catch (error) {
-            attempt++;
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            const isRetryable = errorMessage.includes('503') || errorMessage.toLowerCase().includes('overloaded') || errorMessage.includes('429');
-
-            if (isRetryable && attempt < maxRetries) {
-                const delaySeconds = Math.pow(2, attempt) * 15; // 30s, 60s
-                const retryMsg = `Model is busy. Retrying in ${delaySeconds}s... (Attempt ${attempt}/${maxRetries})`;
-                if (onRetryMessage) {
-                    onRetryMessage(retryMsg);
-                } else {
-                    console.log(retryMsg);
-                }
-                await delay(delaySeconds * 1000);
-            } else {
-                throw error;
-            }
-        }
-    }
-    throw new Error("API call failed after multiple retries.");
-}
 
 
 export type StoryboardScene = {
@@ -82,11 +91,24 @@ export type StoryboardScene = {
     prompt: string;
     error?: string | null;
     isCameraAngleFor?: number; // Index of the parent scene
+    consistency?: CharacterConsistency[]; // Absent until checked, and cleared when the image changes
+    characterIds?: number[]; // Characters marked as appearing in the scene breakdown; absent for older scenes
+    scriptSceneId?: string; // The ScriptScene the image was rendered from; absent for older and uploaded scenes
 };
 
-export type GenerationResult = {
-    storyboard: StoryboardScene[];
-}
+// How closely one character in a generated scene matches their reference images.
+export type CharacterConsistency = {
+    characterId: number;
+    name: string;
+    score: number; // 0-100; 0 when the character can't be found in the scene
+    notes: string;
+};
+
+// Scores below this mark a character as inconsistent with their reference.
+export const CONSISTENCY_THRESHOLD = 70;
+
+export const isSceneInconsistent = (scene: StoryboardScene): boolean =>
+    !!scene.consistency?.some(entry => entry.score < CONSISTENCY_THRESHOLD);
 
 const CAMERA_MOVEMENT_PROMPTS: { [key: string]: string } = {
     'Static Hold': 'The camera remains completely static, holding a fixed shot on the scene.',
@@ -102,10 +124,9 @@ const CAMERA_MOVEMENT_PROMPTS: { [key: string]: string } = {
     'Zoom Out (Reveal)': 'The camera lens smoothly zooms out, gradually widening the view to reveal more of the setting or context.',
 };
 
-export async function generateCharacterDescription(imageBase64: string, mimeType: string): Promise<{ description: string; detectedStyle: string }> {
-    const ai = getAiClient();
+export async function generateCharacterDescription(imageBase64: string, mimeType: string, signal?: AbortSignal): Promise<{ description: string; detectedStyle: string }> {
     const imagePart = { inlineData: { data: imageBase64, mimeType }};
-    const prompt = `Analyze the person in the image. Generate a concise, single-line, comma-separated list of descriptive tags for an AI image generator to ensure high-fidelity recreation. Also, identify the primary visual art style of the character in the image from the following options: "Nigerian Cartoon", "Cartoon (Big Head)", "Illustration", "3D Render", "Realistic Photo", "Oil Painting", "Pixel Art", "2D Flat", "Anime", "Clip Art", "Video Game", "Pastel Sketch", "Dark Fantasy", "Cyberpunk", "Steampunk", "Watercolor", "Art Nouveau". If the style doesn't fit exactly, choose the closest or provide a brief custom description.
+    const prompt = `Analyze the person in the image. Generate a concise, single-line, comma-separated list of descriptive tags for an AI image generator to ensure high-fidelity recreation. Also, identify the primary visual art style of the character in the image from the following options: ${listStyles().map(style => `"${style.name}"`).join(', ')}. If the style doesn't fit exactly, choose the closest or provide a brief custom description.
 
     **CRITICAL RULES:**
     1.  **Format:** Return a JSON object with two keys: "description" (string) and "detectedStyle" (string).
@@ -119,25 +140,22 @@ export async function generateCharacterDescription(imageBase64: string, mimeType
     }`;
 
 
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const text = await runModelRequest('Describe character', 'gemini-2.5-pro', (provider, jobSignal) => provider.generateText({
         model: 'gemini-2.5-pro',
-        contents: { parts: [imagePart, { text: prompt }]},
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    description: { type: Type.STRING },
-                    detectedStyle: { type: Type.STRING }
-                },
-                required: ['description', 'detectedStyle']
-            }
-        }
-    }));
+        parts: [imagePart, { text: prompt }],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                description: { type: Type.STRING },
+                detectedStyle: { type: Type.STRING }
+            },
+            required: ['description', 'detectedStyle']
+        },
+        signal: jobSignal,
+    }), signal);
 
-    const text = response.text;
-    if (typeof text !== 'string') {
-        console.error("generateCharacterDescription received no text in response:", JSON.stringify(response, null, 2));
+    if (!text) {
+        console.error("generateCharacterDescription received no text in response.");
         throw new Error("Failed to get a valid text response from the AI. The prompt may have been blocked or the model returned an empty result.");
     }
 
@@ -150,8 +168,7 @@ export async function generateCharacterDescription(imageBase64: string, mimeType
     }
 }
 
-export async function describeImageForConsistency(imageBase64: string): Promise<string> {
-    const ai = getAiClient();
+export async function describeImageForConsistency(imageBase64: string, signal?: AbortSignal, usageKey?: string): Promise<string> {
     const imagePart = { inlineData: { data: imageBase64, mimeType: 'image/png' }};
     const prompt = `You are an expert scene analyst for an AI image generator. Your task is to generate a very concise, comma-separated list of descriptive tags for the provided image.
 
@@ -166,103 +183,205 @@ export async function describeImageForConsistency(imageBase64: string): Promise<
 
 **Example:** boy with blue shirt, sitting at a wooden desk, classroom, bright daylight, simple cartoon style.`;
 
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const text = await runModelRequest('Describe scene', 'gemini-2.5-pro', (provider, jobSignal) => provider.generateText({
         model: 'gemini-2.5-pro',
-        contents: { parts: [imagePart, { text: prompt }]}
-    }));
+        parts: [imagePart, { text: prompt }],
+        signal: jobSignal,
+    }), signal, usageKey);
 
-    return response.text.trim();
+    return text.trim();
 }
 
 
-async function transcribeAudio(audioBase64: string, mimeType: string): Promise<string> {
-    const ai = getAiClient();
-    const audioPart = { inlineData: { data: audioBase64, mimeType: mimeType } };
-    const prompt = `Transcribe the audio recording. Provide only the text of the speech. If there is no speech, return an empty string.`;
+/**
+ * Transcribes a recording into speaker-labelled, timestamped segments. Speakers are labelled with
+ * a character's name when the recording makes clear who is speaking, so guessSpeakerMap can cast
+ * them; anyone else is "Speaker 1", "Speaker 2" and so on.
+ */
+async function transcribeAudio(audioBase64: string, mimeType: string, characters: Character[], signal?: AbortSignal): Promise<Transcript> {
+    const names = characters.map(c => c.name.trim()).filter(Boolean);
+    const nameInstruction = names.length > 0
+        ? `If it is clear who is speaking (they are addressed by name or introduce themselves), label them with one of these names: ${names.join(', ')}. `
+        : '';
+    const prompt = `Transcribe the audio recording, split into segments by speaker. Each segment is one uninterrupted stretch of speech by one speaker, with its start and end time in seconds from the start of the recording. ${nameInstruction}Label every other speaker "Speaker 1", "Speaker 2" and so on, keeping the same label for the same voice throughout. If there is no speech, return no segments.`;
 
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const text = await runModelRequest('Transcribe audio', 'gemini-2.5-pro', (provider, jobSignal) => provider.transcribeAudio({
         model: 'gemini-2.5-pro',
-        contents: { parts: [audioPart, { text: prompt }] },
-    }));
-
-    return response.text.trim();
+        audioBase64,
+        mimeType,
+        prompt,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                segments: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            speaker: { type: Type.STRING, description: 'The speaker\'s name, or "Speaker 1", "Speaker 2"...' },
+                            text: { type: Type.STRING, description: 'What was said, word for word.' },
+                            startSeconds: { type: Type.NUMBER },
+                            endSeconds: { type: Type.NUMBER },
+                        },
+                        required: ['speaker', 'text', 'startSeconds', 'endSeconds'],
+                    },
+                },
+            },
+            required: ['segments'],
+        },
+        signal: jobSignal,
+    }), signal);
+
+    const parsed = JSON.parse(text.trim() || '{}');
+    const segments: TranscriptSegment[] = (Array.isArray(parsed.segments) ? parsed.segments : [])
+        .filter((segment: any) => typeof segment?.text === 'string' && segment.text.trim())
+        .map((segment: any) => {
+            const startSeconds = Math.max(0, Number(segment.startSeconds) || 0);
+            return {
+                speaker: String(segment.speaker ?? '').trim() || 'Speaker 1',
+                text: segment.text.trim(),
+                startSeconds,
+                endSeconds: Math.max(startSeconds, Number(segment.endSeconds) || startSeconds),
+            };
+        })
+        .sort((a: TranscriptSegment, b: TranscriptSegment) => a.startSeconds - b.startSeconds);
+
+    return {
+        text: segments.map(segment => segment.text).join(' '),
+        speakers: [...new Set(segments.map(segment => segment.speaker))],
+        segments,
+    };
 }
 
-export async function generatePromptFromAudio(audioBase64: string, mimeType: string): Promise<string> {
-    return await transcribeAudio(audioBase64, mimeType);
+/** Transcribes uploaded audio; its text seeds the story prompt, its segments a voiceover. */
+export async function generatePromptFromAudio(audioBase64: string, mimeType: string, characters: Character[], signal?: AbortSignal): Promise<Transcript> {
+    return await transcribeAudio(audioBase64, mimeType, characters, signal);
 }
 
 
-async function generatePromptsFromBase(
+/**
+ * Breaks the story into a screenplay; the first step, reviewed by the user before rendering.
+ * Each scene is marked with the defined characters the model says appear in it, or failing that
+ * those it names; a scene naming nobody gets the first character, since scenes don't always
+ * repeat the name of a story's only character.
+ */
+export async function generateScreenplay(
   basePrompt: string,
   sceneCount: number,
   genre: string,
-  characters: Character[] // Updated type to full Character array
-): Promise<string[]> {
-    const ai = getAiClient();
+  characters: Character[], // Updated type to full Character array
+  contentProfile: ContentProfile,
+  signal?: AbortSignal,
+  usageKey?: string
+): Promise<ScriptScene[]> {
     const genreInstruction = genre && genre.toLowerCase() !== 'general' 
         ? `**Genre:** The story must be in the **${genre}** genre.` 
         : '';
     
+    const definedCharacters = characters.filter(c => c.name && c.description);
     let characterInstruction = '';
-    if (characters.length > 0) {
-        const characterDetails = characters
-            .filter(c => c.name && c.description)
-            .map(c => `  - ${c.name}: ${c.description}`)
+    if (definedCharacters.length > 0) {
+        const characterDetails = definedCharacters
+            .map(c => `  - ${c.name}: ${describeCharacterWithPersonality(c)}`)
             .join('\n');
         characterInstruction = `**Defined Characters:** You have been provided with descriptions for the following characters. When these names appear in the story, you MUST adhere strictly to their visual descriptions.\n${characterDetails}\n\n**Implicit Characters:** If other names appear in the user's core idea that are not in the list above, treat them as new characters and ensure they are included in the scene descriptions. Generate a consistent appearance for them throughout the scenes.`;
     }
 
-    const racialInstruction = `**RACIAL MANDATE:** ALL human characters in the story and scene descriptions MUST be of Black African descent. Ensure the setting, cultural elements, and descriptions reflect this.`;
+    const castingInstruction = buildStoryCastingInstruction(contentProfile);
 
-    const prompt = `You are a creative assistant generating prompts for an image AI. Your primary goal is to create safe, clear, and visually descriptive scenes.
+    const prompt = `You are a screenwriter and storyboard artist writing a short screenplay that an image AI, a voice AI and a video AI will bring to life. Your primary goal is to create safe, clear, and visually descriptive scenes.
 
-    **Task:** Based on the user's core idea, create ${sceneCount} sequential scene descriptions.
+    **Task:** Based on the user's core idea, write ${sceneCount} sequential scenes. For each scene give its heading (interior or exterior, location, time of day), a visual description of the single frame that represents it, its action lines, any dialogue, the defined characters who appear, the shot type, the camera movement and its duration.
 
-    ${racialInstruction}
+    ${castingInstruction}
 
     **Core Idea:** "${basePrompt}"
     ${genreInstruction}
     ${characterInstruction}
 
     **CRITICAL SAFETY & CLARITY RULES:**
-    1.  **Language:** Use simple, direct, and unambiguous language. Describe only what should be physically visible in the image.
-    2.  **Prohibited Content:** STRICTLY AVOID any mention, hint, or description of violence, weapons, conflict, aggression, political themes, social commentary, or any sensitive topics that could be misinterpreted by a safety filter.
-    3.  **Focus:** Concentrate on positive or neutral actions, settings, and character interactions.
-    4.  **Goal:** The final prompts must be 100% safe-for-work and family-friendly.
+    1.  **Language:** Use simple, direct, and unambiguous language. The visual description must describe only what should be physically visible in the image, and name every character in it.
+${buildStorySafetyRules(contentProfile, 2)}
+
+    **SCREENPLAY RULES:**
+    - Dialogue is spoken by a character by name, or by "${NARRATOR}" for narration. Keep each scene's dialogue short enough to be spoken within its duration, at about two and a half words per second.
+    - Action lines describe movement that happens during the scene's short video clip.
 
-    The output must be a JSON object containing an array of these safe, visual prompts.`;
+    The output must be a JSON object containing an array of these scenes.`;
     
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const text = await runModelRequest('Break story into scenes', 'gemini-2.5-pro', (provider, jobSignal) => provider.generateText({
         model: 'gemini-2.5-pro',
-        contents: { parts: [{text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    prompts: {
-                        type: Type.ARRAY,
-                        description: `An array of ${sceneCount} unique and descriptive image prompts that form a coherent story, following all safety rules.`,
-                        items: {
-                            type: Type.STRING,
-                            description: 'A simple, safe, and detailed visual description for a single story scene.'
-                        }
-                    }
-                },
-                required: ['prompts']
-            }
-        }
-    }));
+        parts: [{text: prompt }],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                scenes: {
+                    type: Type.ARRAY,
+                    description: `An array of ${sceneCount} sequential scenes that form a coherent story, following all safety rules.`,
+                    minItems: String(sceneCount),
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            setting: { type: Type.STRING, enum: SCENE_SETTINGS, description: 'Whether the scene is interior, exterior or both.' },
+                            location: { type: Type.STRING, description: 'Where the scene takes place, e.g. "Market square".' },
+                            timeOfDay: { type: Type.STRING, description: 'When the scene takes place, e.g. "DAY", "NIGHT" or "DAWN".' },
+                            description: { type: Type.STRING, description: 'A simple, safe, and detailed visual description of the frame.' },
+                            action: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'The action lines: what happens during the scene.' },
+                            dialogue: {
+                                type: Type.ARRAY,
+                                description: 'The lines spoken in the scene, in order. May be empty.',
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: {
+                                        speaker: { type: Type.STRING, description: `The speaking character's name, or "${NARRATOR}".` },
+                                        text: { type: Type.STRING },
+                                        parenthetical: { type: Type.STRING, description: 'How the line is delivered, e.g. "whispering". May be empty.' },
+                                    },
+                                    required: ['speaker', 'text'],
+                                },
+                            },
+                            characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'The names of the defined characters who appear in the scene.' },
+                            shotType: { type: Type.STRING, enum: SHOT_TYPES },
+                            cameraMovement: { type: Type.STRING, enum: Object.keys(CAMERA_MOVEMENT_PROMPTS) },
+                            durationSeconds: { type: Type.INTEGER, minimum: SCENE_DURATIONS[0], maximum: SCENE_DURATIONS[SCENE_DURATIONS.length - 1] },
+                        },
+                        required: ['setting', 'location', 'timeOfDay', 'description', 'action', 'dialogue', 'characters', 'shotType', 'cameraMovement', 'durationSeconds'],
+                    },
+                }
+            },
+            required: ['scenes']
+        },
+        signal: jobSignal,
+    }), signal, usageKey);
     
-    const jsonStr = response.text.trim();
+    const jsonStr = text.trim();
     const parsed = JSON.parse(jsonStr);
 
-    if (!parsed.prompts || !Array.isArray(parsed.prompts) || parsed.prompts.length === 0) {
-        throw new Error("AI failed to return a valid array of prompts.");
+    if (!parsed.scenes || !Array.isArray(parsed.scenes) || parsed.scenes.length === 0) {
+        throw new Error("AI failed to return a valid array of scenes.");
     }
     
-    return parsed.prompts;
+    return parsed.scenes.map((raw: any): ScriptScene => {
+        const dialogue = (Array.isArray(raw.dialogue) ? raw.dialogue : [])
+            .filter((line: any) => typeof line?.text === 'string' && line.text.trim())
+            .map((line: any) => ({ speaker: String(line.speaker || NARRATOR).trim(), text: line.text.trim(), parenthetical: String(line.parenthetical ?? '').trim() }));
+        const action: string[] = (Array.isArray(raw.action) ? raw.action : []).map(String).filter((line: string) => line.trim());
+        const listed: string[] = (Array.isArray(raw.characters) ? raw.characters : []).map((name: unknown) => String(name).toLowerCase());
+        const marked = definedCharacters.filter(c => listed.includes(c.name.toLowerCase()));
+        const named = marked.length > 0 ? marked : findCharactersInText([raw.description, ...action, ...dialogue.map((line: { speaker: string }) => line.speaker)].join('\n'), definedCharacters);
+        return createScriptScene({
+            setting: SCENE_SETTINGS.includes(raw.setting) ? raw.setting as SceneSetting : 'EXT',
+            location: String(raw.location ?? '').trim(),
+            timeOfDay: String(raw.timeOfDay ?? '').trim().toUpperCase(),
+            description: String(raw.description ?? '').trim(),
+            action,
+            dialogue,
+            characterIds: (named.length > 0 ? named : definedCharacters.slice(0, 1)).map(c => c.id),
+            shotType: SHOT_TYPES.includes(raw.shotType) ? raw.shotType : 'Medium',
+            cameraMovement: raw.cameraMovement in CAMERA_MOVEMENT_PROMPTS ? raw.cameraMovement : 'Static Hold',
+            durationSeconds: snapDuration(Number(raw.durationSeconds) || SCENE_DURATIONS[SCENE_DURATIONS.length - 1]),
+        });
+    });
 }
 
 function isCartoonStyle(style: string): boolean {
@@ -279,36 +398,33 @@ export async function generateSingleImage(
     allCharactersWithStyles: Character[], // Full character objects to access detectedImageStyle AND original image data
     imageModel: string,
     referenceImageSrc?: string | null,
-    referenceDescriptionOverride?: string | null
+    referenceDescriptionOverride?: string | null,
+    options: { jobLabel?: string; signal?: AbortSignal; usageKey?: string; contentProfile?: ContentProfile; characterIds?: number[] } = {}
 ): Promise<{ src: string | null; error: string | null }> {
-    const ai = getAiClient();
+    const { jobLabel = 'Generate image', signal, usageKey, contentProfile = DEFAULT_CONTENT_PROFILE, characterIds } = options;
     try {
         let referenceDescription = '';
         if (referenceDescriptionOverride) {
             referenceDescription = referenceDescriptionOverride;
         } else if (referenceImageSrc) {
-            referenceDescription = await describeImageForConsistency(referenceImageSrc);
+            referenceDescription = await describeImageForConsistency(referenceImageSrc, signal, usageKey);
         }
 
-        let charImageToIntegrate: { charId: number; base64: string; mimeType: string } | null = null;
-        let forceNanoBanana = false;
+        // Every defined character in the scene is composited from their reference images.
+        const referenceCharacters = selectReferenceCharacters(prompt, allCharactersWithStyles, characterIds);
+        await loadCharacterReferenceImages(referenceCharacters);
+        const castReferences = buildCastReferenceParts(referenceCharacters, MAX_REFERENCE_IMAGES);
+        let forceNanoBanana = castReferences.characters.length > 0;
         let characterIntegrityInstruction = '';
 
-        const charForImageRef = allCharactersWithStyles.find(c => c.originalImageBase64 && c.originalImageMimeType);
-
-        if (charForImageRef) {
-            charImageToIntegrate = {
-                charId: charForImageRef.id,
-                base64: charForImageRef.originalImageBase64!,
-                mimeType: charForImageRef.originalImageMimeType!,
-            };
-            forceNanoBanana = true; 
-            
-            characterIntegrityInstruction = `You are an expert at high-fidelity character recreation. You have been given a **Character Reference Image**. Your task is to place this character into a new scene.
+        if (castReferences.characters.length > 0) {
+            const names = castReferences.characters.map(c => c.name || 'the character').join(', ');
+            characterIntegrityInstruction = `You are an expert at high-fidelity character recreation. You have been given **Character Reference Images** for: ${names}. Each character's images are introduced by a label with their name. Your task is to place these characters into a new scene.
 
 **CRITICAL RULES:**
-1.  **Absolute Character Integrity:** This is your highest priority. The character in the output image MUST be a perfect visual match to the character in the **Character Reference Image**. You MUST preserve their exact original design, appearance, clothing, and identity. Do NOT change their features or art style in any way.
-2.  **Seamless Scene Integration:** Place this exact character into the scene based on the main "SCENE" prompt. You must adjust the character's pose, position, and lighting to make them fit naturally within the new environment, but their core appearance and clothing MUST remain unchanged.
+1.  **Absolute Character Integrity:** This is your highest priority. Each character in the output image MUST be a perfect visual match to their own reference images. You MUST preserve their exact original design, appearance and identity. Do NOT change their features or art style in any way.
+${buildCastIdentityRules(castReferences.characters, true)}
+2.  **Seamless Scene Integration:** Place these exact characters into the scene based on the main "SCENE" prompt. You must adjust each character's pose, position, and lighting to make them fit naturally within the new environment, but their core appearance MUST remain unchanged.
 3.  **Final Style:** The final, composite image MUST be rendered in a '${imageStyle}' style.
 ---
 `;
@@ -317,14 +433,14 @@ export async function generateSingleImage(
         let finalCharacterBlock = '';
         let charactersForTextDescription = charactersForPrompt;
 
-        if (charImageToIntegrate) {
+        if (castReferences.characters.length > 0) {
             charactersForTextDescription = charactersForPrompt.filter(
-                c => c.id !== charImageToIntegrate!.charId
+                c => !castReferences.characters.some(referenced => referenced.id === c.id)
             );
         }
 
         if (charactersForTextDescription.length > 0) {
-            const characterDescriptions = charactersForTextDescription.map(c => `- **${c.name}**: ${c.description}`).join('\n');
+            const characterDescriptions = charactersForTextDescription.map(c => `- **${c.name}**: ${describeCharacter(c)}`).join('\n');
             finalCharacterBlock = `---
 **DEFINED CHARACTERS (CRITICAL & ABSOLUTE REQUIREMENT):**
 The generated image features one or more characters. For any character whose name is listed below, it is absolutely essential that you generate a high-fidelity visual representation based on their provided description.
@@ -341,14 +457,11 @@ ${characterDescriptions}
 `;
         }
         
-        let styleInstructions: string;
-        if (imageStyle === 'Cartoon (Big Head)') {
-            styleInstructions = `A funny 2D vector art cartoon in an Adobe Illustrator style. Characters have exaggerated proportions: a very large head, a tiny waist, and small legs. Use bold outlines and flat colors, avoiding 3D effects, shadows, or gradients.`;
-        } else if (imageStyle === 'Nigerian Cartoon') {
-            styleInstructions = `A vibrant 2D cartoon style inspired by Nigerian art. Characters are drawn as caricatures with expressive faces and large heads. They wear colorful traditional Nigerian attire like agbada, kaftans, or gele. The art uses bold, clean outlines and a simple, flat color palette, creating a lively and humorous feel. This is not a realistic or 3D style.`;
-        } else {
-            styleInstructions = `In the style of ${imageStyle}.`;
-        }
+        const style = getStyle(imageStyle);
+        const styleInstructions = buildStyleInstructions(style);
+        // Style reference images are passed as parts, which only the Gemini image model accepts.
+        const styleReferenceParts = buildStyleReferenceParts(style, MAX_REFERENCE_IMAGES - castReferences.imageCount);
+        if (styleReferenceParts.length > 0) forceNanoBanana = true;
         
         const genreInstruction = genre && genre.toLowerCase() !== 'general' ? genre : '';
         
@@ -362,19 +475,15 @@ ${referenceDescription}
 `
             : '';
         
-        const racialMandate = `---
-**RACIAL MANDATE (CRITICAL & ABSOLUTE REQUIREMENT):**
-ALL human characters depicted in the image MUST be of Black African descent. This is a non-negotiable instruction. If the prompt, scene description, or character descriptions ask for or describe a non-Black person, you MUST ignore that specific racial trait and render them as a Black person, while keeping all other characteristics (like clothing, pose, expression) the same.
----
-`;
+        const castingMandate = buildImageCastingMandate(contentProfile, true);
         
         let contentsParts: Part[];
         const isNanoBanana = imageModel === 'gemini-2.5-flash-image' || forceNanoBanana;
         const aspectRatioInstruction = isNanoBanana ? `\n**ASPECT RATIO (CRITICAL):** The image must be generated in a ${aspectRatio} aspect ratio.` : '';
 
 
-        if (charImageToIntegrate && forceNanoBanana) {
-            let integrationTextPrompt = `${characterIntegrityInstruction}${racialMandate}${finalCharacterBlock}${visualReferencePreamble}
+        if (castReferences.characters.length > 0) {
+            let integrationTextPrompt = `${characterIntegrityInstruction}${castingMandate}${finalCharacterBlock}${visualReferencePreamble}
 
 **SCENE:** "${prompt}"
 **IMAGE_STYLE_GUIDE:** ${styleInstructions}${aspectRatioInstruction}`;
@@ -382,62 +491,33 @@ ALL human characters depicted in the image MUST be of Black African descent. Thi
                 integrationTextPrompt += `\n**GENRE:** ${genreInstruction}`;
             }
             contentsParts = [
-                { inlineData: { data: charImageToIntegrate.base64, mimeType: charImageToIntegrate.mimeType } },
+                ...castReferences.parts,
+                ...styleReferenceParts,
                 { text: integrationTextPrompt }
             ];
         } else {
-            let baseTextPrompt = `${racialMandate}${finalCharacterBlock}${visualReferencePreamble}\n**SCENE:** "${prompt}"\n**IMAGE_STYLE_GUIDE:** ${styleInstructions}${aspectRatioInstruction}`;
+            let baseTextPrompt = `${castingMandate}${finalCharacterBlock}${visualReferencePreamble}\n**SCENE:** "${prompt}"\n**IMAGE_STYLE_GUIDE:** ${styleInstructions}${aspectRatioInstruction}`;
             if (genreInstruction) {
                  baseTextPrompt += `\n**GENRE:** ${genreInstruction}`;
             }
-            contentsParts = [{ text: baseTextPrompt }];
+            contentsParts = [...styleReferenceParts, { text: baseTextPrompt }];
         }
         
-        const safetySettings = [
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-        ];
-        
-        if (isNanoBanana) {
-            const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: contentsParts }, 
-                config: {
-                    responseModalities: [Modality.IMAGE],
-                },
-                safetySettings: safetySettings, 
-            }));
-
-            for (const part of response.candidates?.[0]?.content?.parts || []) {
-                if (part.inlineData) {
-                    return { src: part.inlineData.data, error: null };
-                }
-            }
-            console.warn(`gemini-2.5-flash-image call was successful but returned no image. Full response:`, response);
-            return { src: null, error: 'The model returned a success status but no image data. This may be due to a safety filter or an issue with the complexity of the prompt. Please try a different prompt.' };
-        }
-
-        const response: any = await withRetry(() => ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: (contentsParts[0] as {text: string}).text,
-            config: {
-                numberOfImages: 1,
-                aspectRatio: aspectRatio,
-                outputMimeType: 'image/png',
-            },
-            safetySettings: safetySettings, 
-        }));
-
-        
-        if (response && response.generatedImages && response.generatedImages.length > 0 && response.generatedImages[0].image?.imageBytes) {
-            return { src: response.generatedImages[0].image.imageBytes, error: null };
-        } else {
-            console.warn(`Image call was successful but returned no image. Full response:`, response);
-            return { src: null, error: 'The model returned a success status but no image data. This may be due to a safety filter or an issue with the complexity of the prompt. Please try a different prompt.' };
+        const model = isNanoBanana ? 'gemini-2.5-flash-image' : 'imagen-4.0-generate-001';
+        const src = await runModelRequest(jobLabel, model, (provider, jobSignal) => provider.generateImage({
+            model,
+            parts: contentsParts,
+            aspectRatio,
+            safetySettings: toSafetySettings(contentProfile),
+            signal: jobSignal,
+        }), signal, usageKey);
+
+        if (src) {
+            return { src, error: null };
         }
+        return { src: null, error: 'The model returned a success status but no image data. This may be due to a safety filter or an issue with the complexity of the prompt. Please try a different prompt.' };
     } catch (error) {
+        if (isAbortError(error)) throw error;
         const parsedError = parseErrorMessage(error);
         console.error(`Image could not be generated and will be skipped:`, parsedError);
         return { src: null, error: parsedError };
@@ -445,65 +525,150 @@ ALL human characters depicted in the image MUST be of Black African descent. Thi
 }
 
 
-async function generateImagesFromPrompts(
-  prompts: string[],
+/**
+ * Renders the approved screenplay, one image per scene. Each scene's characterIds say whose
+ * reference images it is composited from; every defined character is still described in text.
+ */
+export async function renderScriptScenes(
+  script: ScriptScene[],
   aspectRatio: string,
   imageStyle: string,
   genre: string,
   charactersForPrompt: Character[], // For prompt content - now full Character array
   allCharactersWithStyles: Character[], // Full character objects to access detectedImageStyle
   imageModel: string,
-  onProgress: (message: string) => void
+  contentProfile: ContentProfile,
+  onProgress: (message: string) => void,
+  signal?: AbortSignal,
+  usageKey?: string
 ): Promise<StoryboardScene[]> {
-    const scenes: StoryboardScene[] = [];
-    
-    for (let i = 0; i < prompts.length; i++) {
-        onProgress(`Generating image ${i + 1} of ${prompts.length}...`);
-        
-        const { src, error } = await generateSingleImage(prompts[i], aspectRatio, imageStyle, genre, charactersForPrompt, allCharactersWithStyles, imageModel);
-        scenes.push({ prompt: prompts[i], src, error });
-
-        if (i < prompts.length - 1) {
-            onProgress(`Pausing to avoid rate limits...`);
-            await delay(15000);
+    // All scenes are queued at once; the job scheduler paces them against the model's rate limit.
+    onProgress(`Generating ${script.length} images...`);
+    return Promise.all(script.map(async (scriptScene, i): Promise<StoryboardScene> => {
+        const prompt = buildSceneImagePrompt(scriptScene);
+        const { characterIds, id: scriptSceneId } = scriptScene;
+        try {
+            const { src, error } = await generateSingleImage(prompt, aspectRatio, imageStyle, genre, charactersForPrompt, allCharactersWithStyles, imageModel, undefined, undefined, { jobLabel: `Scene ${i + 1} image`, signal, usageKey, contentProfile, characterIds });
+            return { prompt, src, error, characterIds, scriptSceneId };
+        } catch (error) {
+            if (!isSingleJobCancelled(error, signal)) throw error;
+            return { prompt, src: null, error: 'Image generation was cancelled.', characterIds, scriptSceneId };
         }
-    }
-  
-  return scenes;
+    }));
 }
 
+/**
+ * Compares a generated scene with the reference images of the characters it was generated
+ * with (see selectReferenceCharacters) and scores each one. Returns null when none of them has a
+ * reference image, so there is nothing to compare against.
+ */
+export async function checkSceneConsistency(
+    scene: StoryboardScene,
+    characters: Character[],
+    signal?: AbortSignal,
+    usageKey?: string
+): Promise<CharacterConsistency[] | null> {
+    if (!scene.src) return null;
+    const referenceCharacters = selectReferenceCharacters(scene.prompt, characters, scene.characterIds);
+    await loadCharacterReferenceImages(referenceCharacters);
+    // The scene image takes one of the request's image slots.
+    const castReferences = buildCastReferenceParts(referenceCharacters, MAX_REFERENCE_IMAGES - 1);
+    if (castReferences.characters.length === 0) return null;
 
-export async function generateImageSet(
-  promptText: string,
-  imageCount: number,
-  aspectRatio: string,
-  imageStyle: string,
-  genre: string,
-  charactersForPrompt: Character[], // Characters for prompt content - now full Character array
-  allCharactersWithStyles: Character[], // Full characters array to pass to generateImagesFromPrompts
-  imageModel: string,
-  onProgress: (message: string) => void
-): Promise<GenerationResult> {
-  
-  try {
-    onProgress("Breaking down the story into scenes...");
-    const scenePrompts = await generatePromptsFromBase(promptText, imageCount, genre, charactersForPrompt);
-    const storyboard = await generateImagesFromPrompts(scenePrompts, aspectRatio, imageStyle, genre, charactersForPrompt, allCharactersWithStyles, imageModel, onProgress);
-    return { storyboard };
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-        throw new Error(parseErrorMessage(error));
+    const names = castReferences.characters.map(c => c.name || 'the character');
+    const prompt = `You are a continuity supervisor for an animated storyboard. The first image is a generated "Scene Image". It is followed by reference images for: ${names.join(', ')}, each introduced by a label with the character's name.
+
+For each of these characters, in the order listed, judge how well the character in the Scene Image matches their reference images.
+
+**CRITICAL RULES:**
+1.  **Identity, not pose:** Compare face, hair, skin tone, body proportions and distinctive features. Pose, expression, lighting, camera angle and art style may differ and must not lower the score.
+2.  **Clothing:** Only count clothing differences when the character is expected to wear what the reference shows${castReferences.characters.some(c => getActiveOutfit(c)) ? ' (characters with an outfit listed below are expected to wear that outfit instead)' : ''}.
+3.  **Score:** 100 is an unmistakable match, 70 a recognisable match with small differences, below 50 a different-looking person. If the character cannot be found in the Scene Image, set "present" to false and the score to 0.
+4.  **Notes:** One short sentence naming the most important difference, or "Matches the reference." when there is none.
+${castReferences.characters.filter(c => getActiveOutfit(c)).map(c => `- **${c.name}** outfit: ${getActiveOutfit(c)!.description.trim()}`).join('\n')}`;
+
+    const text = await runModelRequest('Check character consistency', 'gemini-2.5-pro', (provider, jobSignal) => provider.generateText({
+        model: 'gemini-2.5-pro',
+        parts: [
+            { text: '**SCENE IMAGE:**' },
+            { inlineData: { data: scene.src!, mimeType: 'image/png' } },
+            ...castReferences.parts,
+            { text: prompt },
+        ],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                characters: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            name: { type: Type.STRING },
+                            present: { type: Type.BOOLEAN },
+                            score: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+                            notes: { type: Type.STRING },
+                        },
+                        required: ['name', 'present', 'score', 'notes'],
+                    },
+                },
+            },
+            required: ['characters'],
+        },
+        signal: jobSignal,
+    }), signal, usageKey);
+
+    let results: { name?: string; present?: boolean; score?: number; notes?: string }[];
+    try {
+        results = JSON.parse(text).characters ?? [];
+    } catch (e) {
+        console.error("Failed to parse JSON response from consistency check:", text, e);
+        throw new Error("Failed to get a valid JSON response from the AI for the consistency check.");
     }
-    throw new Error("An unknown error occurred during image set generation.");
-  }
+
+    // Results are matched by name, falling back to the order the characters were listed in.
+    return castReferences.characters.map((character, index) => {
+        const result = results.find(r => r.name?.trim().toLowerCase() === character.name.trim().toLowerCase()) ?? results[index] ?? {};
+        const present = result.present !== false;
+        return {
+            characterId: character.id,
+            name: character.name,
+            score: present ? Math.max(0, Math.min(100, Math.round(Number(result.score) || 0))) : 0,
+            notes: present ? (result.notes?.trim() ?? '') : 'Not found in the scene.',
+        };
+    });
+}
+
+/**
+ * Runs checkSceneConsistency over a storyboard and returns the scenes with their scores
+ * attached. A scene whose check fails or is cancelled on its own is returned unscored.
+ */
+export async function checkStoryboardConsistency(
+    storyboard: StoryboardScene[],
+    characters: Character[],
+    onProgress: (message: string) => void,
+    signal?: AbortSignal,
+    usageKey?: string
+): Promise<StoryboardScene[]> {
+    if (!characters.some(c => c.originalImageBase64)) return storyboard;
+    onProgress("Checking character consistency...");
+    return Promise.all(storyboard.map(async (scene, i): Promise<StoryboardScene> => {
+        try {
+            const consistency = await checkSceneConsistency(scene, characters, signal, usageKey);
+            return consistency ? { ...scene, consistency } : scene;
+        } catch (error) {
+            if (isAbortError(error) && !isSingleJobCancelled(error, signal)) throw error;
+            console.warn(`Consistency check for scene ${i + 1} failed:`, error);
+            return scene;
+        }
+    }));
 }
 
 async function analyzeEnvironmentForCameraPlacement(
     imageBase64: string,
-    angles: string[] // e.g., ['back', 'side']
+    angles: string[], // e.g., ['back', 'side']
+    signal?: AbortSignal,
+    usageKey?: string
 ): Promise<Record<string, string>> {
-    const ai = getAiClient();
     const imagePart = { inlineData: { data: imageBase64, mimeType: 'image/png' } };
 
     const prompt = `You are a virtual cinematographer analyzing a scene to find the best camera placements. Analyze the provided image. Your task is to determine the most natural camera positions to achieve specific views of the main subject.
@@ -538,24 +703,22 @@ async function analyzeEnvironmentForCameraPlacement(
         required.push(key);
     });
 
-    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+    const text = await runModelRequest('Plan camera angles', 'gemini-2.5-pro', (provider, jobSignal) => provider.generateText({
         model: 'gemini-2.5-pro', // Using Pro for better spatial reasoning
-        contents: { parts: [imagePart, { text: prompt }] },
-        config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties,
-                required,
-            }
-        }
-    }));
+        parts: [imagePart, { text: prompt }],
+        responseSchema: {
+            type: Type.OBJECT,
+            properties,
+            required,
+        },
+        signal: jobSignal,
+    }), signal, usageKey);
 
     try {
-        const jsonStr = response.text.trim();
+        const jsonStr = text.trim();
         return JSON.parse(jsonStr);
     } catch (e) {
-        console.error("Failed to parse camera placement analysis JSON:", response.text, e);
+        console.error("Failed to parse camera placement analysis JSON:", text, e);
         throw new Error("AI failed to return a valid camera placement plan.");
     }
 }
@@ -568,9 +731,12 @@ export async function generateCameraAnglesFromImage(
       genre: string;
       characters: Character[];
       imageModel: string;
+      contentProfile?: ContentProfile;
     },
     angleNames: string[],
-    onProgress: (message: string) => void
+    onProgress: (message: string) => void,
+    signal?: AbortSignal,
+    usageKey?: string
   ): Promise<StoryboardScene[]> {
     if (!referenceScene.src) {
       throw new Error("Reference scene is missing image source.");
@@ -584,8 +750,10 @@ export async function generateCameraAnglesFromImage(
         imageBase64: referenceScene.src,
         mimeType: 'image/png',
         editPrompt: outpaintPrompt,
+        scenePrompt: referenceScene.prompt,
+        characterIds: referenceScene.characterIds,
         ...generationInfo,
-    });
+    }, { jobLabel: 'Extend image', signal, usageKey });
 
     if (extensionError || !extendedImageSrc) {
         console.error("Failed to extend image for camera angle generation:", extensionError);
@@ -599,70 +767,74 @@ export async function generateCameraAnglesFromImage(
     let cameraPrompts: Record<string, string> = {};
 
     if (anglesToAnalyze.length > 0) {
-        cameraPrompts = await analyzeEnvironmentForCameraPlacement(extendedImageSrc, anglesToAnalyze);
+        cameraPrompts = await analyzeEnvironmentForCameraPlacement(extendedImageSrc, anglesToAnalyze, signal, usageKey);
     }
     
     if (angleNames.includes('front')) {
         cameraPrompts['front_view_prompt'] = "Render the scene from a direct front-on camera angle, facing the main character. The character's pose and the room's layout remain unchanged."
     }
 
-    const generatedScenes: StoryboardScene[] = [];
-
-    // Step 3: Generate each view using the new prompts and the extended image.
-    for (let i = 0; i < angleNames.length; i++) {
-        const angle = angleNames[i];
+    // Step 3: Generate each view using the new prompts and the extended image. The views are
+    // independent, so they are queued together and paced by the job scheduler.
+    onProgress(`Generating ${angleNames.length} views...`);
+    return Promise.all(angleNames.map(async (angle): Promise<StoryboardScene> => {
         const anglePromptKey = `${angle}_view_prompt`;
         const finalEditPrompt = cameraPrompts[anglePromptKey];
 
         if (!finalEditPrompt) {
             console.warn(`No camera prompt generated for angle: ${angle}`);
-            generatedScenes.push({ prompt: `Failed to generate prompt for ${angle} view`, src: null, error: `AI analysis did not provide a prompt for the ${angle} view.` });
-            continue;
+            return { prompt: `Failed to generate prompt for ${angle} view`, src: null, error: `AI analysis did not provide a prompt for the ${angle} view.` };
         }
 
-        onProgress(`Generating '${angle}' view... (${i + 1}/${angleNames.length})`);
-        
-        const { src: newImageSrc, error: newError } = await editImage({
-          imageBase64: extendedImageSrc, // Use the extended image as the base for all angles
-          mimeType: 'image/png',
-          editPrompt: finalEditPrompt,
-          ...generationInfo,
-        });
-
-        generatedScenes.push({ prompt: finalEditPrompt, src: newImageSrc, error: newError });
-
-        if (i < angleNames.length - 1) {
-          onProgress(`Pausing before next angle...`);
-          await delay(15000);
+        try {
+            const { src: newImageSrc, error: newError } = await editImage({
+              imageBase64: extendedImageSrc, // Use the extended image as the base for all angles
+              mimeType: 'image/png',
+              editPrompt: finalEditPrompt,
+              scenePrompt: referenceScene.prompt,
+              characterIds: referenceScene.characterIds,
+              ...generationInfo,
+            }, { jobLabel: `'${angle}' view`, signal, usageKey });
+
+            return { prompt: finalEditPrompt, src: newImageSrc, error: newError, characterIds: referenceScene.characterIds, scriptSceneId: referenceScene.scriptSceneId };
+        } catch (error) {
+            if (!isSingleJobCancelled(error, signal)) throw error;
+            return { prompt: finalEditPrompt, src: null, error: `The ${angle} view was cancelled.` };
         }
-    }
-    return generatedScenes;
+    }));
 }
 
-export async function editImage(params: EditImageParams): Promise<{ src: string | null; error: string | null }> {
-    const { imageBase64, mimeType, editPrompt, aspectRatio, imageStyle, genre, characters } = params;
-    const ai = getAiClient();
+export async function editImage(
+    params: EditImageParams,
+    options: { jobLabel?: string; signal?: AbortSignal; usageKey?: string } = {}
+): Promise<{ src: string | null; error: string | null }> {
+    const { imageBase64, mimeType, editPrompt, aspectRatio, imageStyle, genre, characters, contentProfile = DEFAULT_CONTENT_PROFILE, scenePrompt = '', characterIds } = params;
+    const { jobLabel = 'Edit image', signal, usageKey } = options;
+    const style = getStyle(imageStyle);
 
     try {
         const contentsParts: Part[] = [];
         const imageToEditPart = { inlineData: { data: imageBase64, mimeType } };
         contentsParts.push(imageToEditPart);
 
-        const charForImageRef = characters.find(c => c.originalImageBase64 && c.originalImageMimeType);
+        // The scene image to edit takes one of the request's image slots.
+        const referenceCharacters = selectReferenceCharacters(`${scenePrompt}\n${editPrompt}`, characters, characterIds);
+        await loadCharacterReferenceImages(referenceCharacters);
+        const castReferences = buildCastReferenceParts(referenceCharacters, MAX_REFERENCE_IMAGES - 1);
         let finalPromptText = "";
 
-        if (charForImageRef) {
-            const charRefImagePart = { inlineData: { data: charForImageRef.originalImageBase64!, mimeType: charForImageRef.originalImageMimeType! } };
-            contentsParts.push(charRefImagePart);
+        if (castReferences.characters.length > 0) {
+            contentsParts.push(...castReferences.parts);
             
-            finalPromptText = `You are an expert AI image editor. You have been given two images: an input "Scene Image" to modify, and a "Character Reference Image".
+            finalPromptText = `You are an expert AI image editor. You have been given an input "Scene Image" to modify (the first image), followed by "Character Reference Images" for the characters in it, each introduced by a label with their name.
 
 **EDIT INSTRUCTION:** "${editPrompt}"
 
 **CRITICAL RULES:**
 1.  **Apply Edit to Scene:** Apply the "EDIT INSTRUCTION" to the "Scene Image".
-2.  **Enforce Character Consistency:** The character in the final, edited image MUST be a perfect visual match to the character in the "Character Reference Image". Preserve their exact appearance, clothing, and identity. This is your highest priority.
-3.  **Maintain Style & Scene:** Preserve the overall art style, lighting, and background elements of the original "Scene Image" unless the edit instruction specifically asks to change them. The final style must be: "${imageStyle}".
+2.  **Enforce Character Consistency:** Each character in the final, edited image MUST be a perfect visual match to their own reference images. Preserve their exact appearance, identity and clothing unless the edit instruction changes it. This is your highest priority.
+${buildCastIdentityRules(castReferences.characters, false)}
+3.  **Maintain Style & Scene:** Preserve the overall art style, lighting, and background elements of the original "Scene Image" unless the edit instruction specifically asks to change them. The final style must be "${style.name}": ${buildStyleInstructions(style)}
 4.  **Maintain Aspect Ratio:** The output image must have the same aspect ratio: ${aspectRatio}.
 `;
         } else {
@@ -672,53 +844,40 @@ export async function editImage(params: EditImageParams): Promise<{ src: string
 
 **CRITICAL RULES:**
 1.  **Preserve Identity:** You MUST preserve the core identity, features, and style of the original image and any characters within it. Only apply the specific change requested.
-2.  **Maintain Style:** The edited image's art style must perfectly match the original. The style is: "${imageStyle}".
+2.  **Maintain Style:** The edited image's art style must perfectly match the original. The style is "${style.name}": ${buildStyleInstructions(style)}
 3.  **Maintain Aspect Ratio:** The output image must have the same aspect ratio as the input: ${aspectRatio}.
 `;
         }
 
-        const racialMandate = `---
-**RACIAL MANDATE (CRITICAL & ABSOLUTE REQUIREMENT):**
-ALL human characters depicted in the image MUST be of Black African descent.
----
-`;
+        const castingMandate = buildImageCastingMandate(contentProfile, false);
         
-        const otherCharacters = characters.filter(c => c.id !== charForImageRef?.id && c.name && c.description);
+        const otherCharacters = characters.filter(c => !castReferences.characters.some(referenced => referenced.id === c.id) && c.name && c.description);
         const otherCharacterBlock = otherCharacters.length > 0 ? `---
 **OTHER CHARACTERS:**
 The edited image must also maintain the appearance of these other characters based on their text descriptions:
-${otherCharacters.map(c => `- **${c.name}**: ${c.description}`).join('\n')}
+${otherCharacters.map(c => `- **${c.name}**: ${describeCharacter(c)}`).join('\n')}
 ---
 ` : '';
 
-        finalPromptText += `\n${racialMandate}\n${otherCharacterBlock}`;
-        contentsParts.push({ text: finalPromptText });
+        finalPromptText += `\n${castingMandate}\n${otherCharacterBlock}`;
+        contentsParts.push(...buildStyleReferenceParts(style, MAX_REFERENCE_IMAGES - 1 - castReferences.imageCount), { text: finalPromptText });
 
-        const safetySettings = [
-            { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-        ];
-
-        const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
+        const src = await runModelRequest(jobLabel, 'gemini-2.5-flash-image', (provider, jobSignal) => provider.editImage({
             model: 'gemini-2.5-flash-image',
-            contents: { parts: contentsParts },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-            safetySettings: safetySettings,
-        }));
-
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return { src: part.inlineData.data, error: null };
-            }
+            parts: contentsParts,
+            aspectRatio,
+            safetySettings: toSafetySettings(contentProfile),
+            signal: jobSignal,
+        }), signal, usageKey);
+
+        if (src) {
+            return { src, error: null };
         }
         
         return { src: null, error: 'The model did not return an edited image. The edit may have been rejected by a safety filter.' };
 
     } catch (error) {
+        if (isAbortError(error)) throw error;
         const parsedError = parseErrorMessage(error);
         console.error(`Image could not be edited:`, parsedError);
         return { src: null, error: parsedError };
@@ -726,84 +885,150 @@ ${otherCharacters.map(c => `- **${c.name}**: ${c.description}`).join('\n')}
 }
 
 
-async function generateSpeech(
+export const DEFAULT_LINE_PAUSE_SECONDS = 0.35;
+
+// Where one line of a voiceover is heard in its audio.
+export type LineTiming = {
+    speaker: string;
+    text: string;
+    startSeconds: number;
+    endSeconds: number;
+};
+
+export type RenderedDialogue = {
+    audioBase64: string; // a WAV file
+    timings: LineTiming[];
+};
+
+/**
+ * Voices a script. It is split into its "Name:" lines, each line is synthesised on its own in
+ * its speaker's voice, and the lines are joined with `pauseSeconds` of silence between them, so
+ * a conversation can have any number of speakers; the TTS model takes at most two per request.
+ * Every speaker keeps the voice the voice map gives them (see buildVoiceMap), so a character
+ * sounds the same in every scene and clip; the narrator speaks with the style's voice.
+ * Characters' speaking styles and accents, and each line's parenthetical, direct the delivery.
+ */
+export async function renderDialogue(
     script: string,
     characters: Character[],
-    imageStyle: string
-): Promise<string | null> {
-    const ai = getAiClient();
-    if (!script) return null;
-
-    const knownCharacters = characters.filter(c => c.name).map(c => c.name);
-    const allPossibleSpeakers = ['Narrator', ...knownCharacters];
-    
-    const speakerMatches = Array.from(script.matchAll(/^([\w\s]+):/gm));
-    const detectedSpeakers = new Set<string>();
-
-    speakerMatches.forEach(match => {
-        const speakerName = match[1].trim();
-        const foundSpeaker = allPossibleSpeakers.find(s => s.toLowerCase() === speakerName.toLowerCase());
-        if (foundSpeaker) {
-            detectedSpeakers.add(foundSpeaker);
-        }
-    });
+    imageStyle: string,
+    pauseSeconds: number = DEFAULT_LINE_PAUSE_SECONDS,
+    signal?: AbortSignal,
+    usageKey?: string
+): Promise<RenderedDialogue | null> {
+    const lines = parseDialogueScript(script, characters.filter(c => c.name).map(c => c.name));
+    if (lines.length === 0) return null;
+
+    const style = getStyle(imageStyle);
+    const narratorVoice = getNarratorVoice(imageStyle);
+    const voiceMap = buildVoiceMap(characters, [narratorVoice]);
+    // Speakers come back from parseDialogueScript in NFC, whatever form the names were typed in.
+    const characterNamed = (name: string) => characters.find(c => c.name && c.name.trim().normalize('NFC').toLowerCase() === name.toLowerCase());
+
+    const synthesiseLine = (line: DialogueLine): Promise<string | null> => {
+        const character = line.speaker === NARRATOR ? undefined : characterNamed(line.speaker);
+        const direction = [
+            style.speechDirection.trim(),
+            character ? describeVoice(character) : '',
+            line.parenthetical ? `Deliver the line ${line.parenthetical}.` : '',
+        ].filter(Boolean).join(' ');
+        return runModelRequest('Generate voiceover', 'gemini-2.5-flash-preview-tts', (provider, jobSignal) => provider.generateSpeech({
+            model: "gemini-2.5-flash-preview-tts",
+            text: direction ? `${direction} "${line.text}"` : line.text,
+            voices: [{ speaker: line.speaker, voiceName: (character && voiceMap.get(character.id)) || narratorVoice }],
+            signal: jobSignal,
+        }), signal, usageKey);
+    };
 
     try {
-        if (detectedSpeakers.size > 1) {
-            // Multi-speaker logic
-            const availableVoices = ['Kore', 'Puck', 'Zephyr', 'Charon', 'Fenrir'];
-            const speakerVoiceConfigs = Array.from(detectedSpeakers).map((name, index) => ({
-                speaker: name,
-                voiceConfig: {
-                    prebuiltVoiceConfig: { voiceName: availableVoices[index % availableVoices.length] as any }
-                }
-            }));
-
-            const ttsPrompt = `TTS the following conversation:\n${script}`;
-            
-            const ttsResponse: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: ttsPrompt }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        multiSpeakerVoiceConfig: { speakerVoiceConfigs }
-                    }
-                }
-            }));
-            const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            return base64Audio || null;
-        } else {
-            // Single-speaker or Narrator logic
-            let ttsPrompt = script;
-            if (imageStyle === 'Nigerian Cartoon') {
-                ttsPrompt = `You are a Nigerian voice actor. Speak the following text in a lively and authentic Nigerian Pidgin English accent: "${script}"`;
-            } else {
-                ttsPrompt = `Say with a clear and engaging voice: ${script}`;
-            }
-            
-            const singleSpeakerName = detectedSpeakers.size === 1 ? Array.from(detectedSpeakers)[0] : 'Narrator';
-            const speakerVoice = singleSpeakerName === 'Narrator' ? 'Kore' : 'Puck';
-
-            const ttsResponse: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: ttsPrompt }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: speakerVoice as any } },
-                    },
-                },
-            }));
-            const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            return base64Audio || null;
-        }
+        // The scheduler paces the requests, so the lines can all be queued at once.
+        const audio = await Promise.all(lines.map(synthesiseLine));
+        const spoken = lines.flatMap((line, index) => audio[index] ? [{ line, pcm: readPcm(base64ToBytes(audio[index]!)) }] : []);
+        if (spoken.length === 0) return null;
+
+        const { pcm, spans } = joinPcm(spoken.map(({ pcm }) => pcm), pauseSeconds);
+        return {
+            audioBase64: bytesToBase64(pcmToWav(pcm)),
+            timings: spoken.map(({ line }, index) => ({ speaker: line.speaker, text: line.text, ...spans[index] })),
+        };
     } catch (err) {
+        if (isAbortError(err)) throw err;
         console.error("TTS generation failed:", err);
         throw new Error(`TTS generation failed: ${parseErrorMessage(err)}`);
     }
 }
 
+const VOICE_PREVIEW_LINE = "Hello, I'm {name}. This is how I'll sound in your story.";
+
+/** Speaks a short sample line in the character's voice, as the voice map would cast it among `characters`. Returns base64 audio. */
+export async function previewCharacterVoice(
+    character: Character,
+    characters: Character[],
+    imageStyle: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const name = character.name.trim() || 'a new character';
+    const cast = characters.some(c => c.id === character.id) ? characters.map(c => c.id === character.id ? character : c) : [...characters, character];
+    const narratorVoice = getNarratorVoice(imageStyle);
+    const voiceName = buildVoiceMap(cast, [narratorVoice]).get(character.id) ?? narratorVoice;
+    const direction = describeVoice({ ...character, name });
+    const line = VOICE_PREVIEW_LINE.replace('{name}', name);
+
+    try {
+        return await runModelRequest('Preview voice', 'gemini-2.5-flash-preview-tts', (provider, jobSignal) => provider.generateSpeech({
+            model: "gemini-2.5-flash-preview-tts",
+            text: direction ? `${direction} "${line}"` : line,
+            voices: [{ speaker: name, voiceName }],
+            signal: jobSignal,
+        }), signal);
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        throw new Error(`Voice preview failed: ${parseErrorMessage(err)}`);
+    }
+}
+
+/**
+ * Voices a scene's script and splits it into the clips its video will need (see
+ * splitDialogueIntoClips), so the length, and cost, of the video is known before it is
+ * requested. Returns null when the script is empty or, after reporting it, when voicing fails:
+ * the video is then made without a voiceover.
+ */
+export async function prepareVoiceover(
+    script: string,
+    characters: Character[],
+    imageStyle: string,
+    linePauseSeconds: number | undefined,
+    preferredSeconds: number | undefined,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal,
+    usageKey?: string
+): Promise<DialogueClip[] | null> {
+    onProgress("Generating voiceover...");
+    try {
+        const dialogue = await renderDialogue(script, characters, imageStyle, linePauseSeconds, signal, usageKey);
+        return dialogue ? splitDialogueIntoClips(dialogue, preferredSeconds) : null;
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.error("Audio generation failed:", err);
+        onProgress("Audio generation failed. Continuing without audio.");
+        return null;
+    }
+}
+
+export type GeneratedClip = {
+    videoUrl: string;
+    audioUrl: string | null;
+    videoObject: any;
+    audioBase64: string | null;
+    audioMimeType: string | null;
+    audioTimings: LineTiming[] | null;
+};
+
+/**
+ * Animates a scene. A voiceover prepared with prepareVoiceover may need several clips: each one
+ * after the first starts from the last frame of the clip before, and each is directed to lip-sync
+ * to its own lines. Returns the clips in order.
+ */
 export async function generateVideoFromScene(
     scene: StoryboardScene,
     aspectRatio: string,
@@ -814,64 +1039,61 @@ export async function generateVideoFromScene(
     videoModel: string,
     videoResolution: '720p' | '1080p',
     cameraMovement: string,
-    onProgress: (message: string) => void
-): Promise<{ videoUrl: string; audioUrl: string | null; videoObject: any, audioBase64: string | null }> {
-    const ai = getAiClient();
+    contentProfile: ContentProfile,
+    onProgress: (message: string) => void,
+    signal?: AbortSignal,
+    usageKey?: string,
+    scriptScene?: ScriptScene // the screenplay scene the image was rendered from; its action, shot and duration direct the video
+): Promise<GeneratedClip[]> {
+    const provider = meterProvider(getProvider(), 'Generate video', usageKey);
     if (!scene || !scene.src) {
         throw new Error("Cannot generate video from an empty or failed scene.");
     }
-    
-    const audioDataPromise = (async (): Promise<{ audioUrl: string | null, audioBase64: string | null }> => {
-        if (!audioOptions) return { audioUrl: null, audioBase64: null };
-        onProgress("Generating voiceover...");
-        try {
-            let audioBase64: string | null = null;
-            if (audioOptions.mode === 'upload') {
-                audioBase64 = audioOptions.data;
-            } else if (audioOptions.mode === 'tts' && audioOptions.data) {
-                audioBase64 = await generateSpeech(audioOptions.data, characters, imageStyle);
-            }
-
-            if (audioBase64) {
-                const audioBytes = base64ToBytes(audioBase64);
-                const audioBlob = new Blob([audioBytes], { type: audioOptions.mode === 'upload' ? audioOptions.mimeType : 'audio/wav' });
-                const audioUrl = URL.createObjectURL(audioBlob);
-                return { audioUrl, audioBase64 };
-            }
-        } catch (err) {
-            console.error("Audio generation failed:", err);
-            onProgress("Audio generation failed. Continuing without audio.");
-        }
-        return { audioUrl: null, audioBase64: null };
-    })();
 
+    // One entry per clip to generate, with the audio it plays over.
+    const clipPlans: { durationSeconds?: number; audioBase64: string | null; audioMimeType: string; timings: LineTiming[] | null }[] =
+        audioOptions?.mode === 'tts' && audioOptions.clips.length > 0
+            ? audioOptions.clips.map(clip => ({ durationSeconds: clip.durationSeconds, audioBase64: clip.audioBase64, audioMimeType: 'audio/wav', timings: clip.timings }))
+            : [{
+                durationSeconds: scriptScene?.durationSeconds,
+                audioBase64: audioOptions?.mode === 'upload' ? audioOptions.data : null,
+                audioMimeType: audioOptions?.mode === 'upload' ? audioOptions.mimeType : 'audio/wav',
+                timings: null,
+            }];
 
     const validAspectRatio = aspectRatio === '16:9' || aspectRatio === '9:16' ? aspectRatio : '16:9';
     
     const characterInstructions = characters.length > 0
-        ? `The following characters MUST be animated according to their descriptions:\n${characters.map(c => `- **${c.name}**: ${c.description}`).join('\n')}`
+        ? `The following characters MUST be animated according to their descriptions:\n${characters.map(c => `- **${c.name}**: ${describeCharacterWithPersonality(c)}`).join('\n')}`
         : "No specific characters defined. Animate the scene elements as appropriate.";
 
     const cameraInstruction = CAMERA_MOVEMENT_PROMPTS[cameraMovement] || CAMERA_MOVEMENT_PROMPTS['Static Hold'];
 
-    let audioInstruction = 'No specific audio instructions.';
+    let uploadAudioInstruction = 'No specific audio instructions.';
     if (audioOptions?.mode === 'upload' && audioOptions.assignment) {
         if (audioOptions.assignment.type === 'character') {
-            audioInstruction = `**Audio Lip-Sync:** Animate the mouth of the character named **${audioOptions.assignment.characterName}** to be in sync with the provided audio. They are speaking or singing.`;
+            uploadAudioInstruction = `**Audio Lip-Sync:** Animate the mouth of the character named **${audioOptions.assignment.characterName}** to be in sync with the provided audio. They are speaking or singing.`;
         } else {
-            audioInstruction = `**Audio Background:** The provided audio is background sound or music. Do not lip-sync any characters to it.`;
+            uploadAudioInstruction = `**Audio Background:** The provided audio is background sound or music. Do not lip-sync any characters to it.`;
         }
     }
 
+    const style = getStyle(imageStyle);
+    // Scenes from a screenplay are directed by their action lines; the script is then only spoken.
+    const action = scriptScene ? buildSceneActionDirection(scriptScene) : script;
 
-    const finalPrompt = `You are an expert animator creating a short video from a static image.
+    const buildPrompt = (plan: typeof clipPlans[number], clipIndex: number): string => {
+        const shotLine = scriptScene ? `\n- **Shot:** ${scriptScene.shotType}, ${plan.durationSeconds ?? scriptScene.durationSeconds} seconds.` : '';
+        const partLine = clipPlans.length > 1 ? `\n- **Part:** Clip ${clipIndex + 1} of ${clipPlans.length}.${clipIndex > 0 ? ' The input image is the last frame of the previous clip; continue the same shot from it.' : ''}` : '';
+        const audioInstruction = plan.timings ? buildLipSyncDirection(plan.timings) : uploadAudioInstruction;
+        return `You are an expert animator creating a short video from a static image.
 
 ### Input Image Analysis
 - **Scene:** ${scene.prompt}
-- **Art Style:** ${imageStyle}
+- **Art Style:** ${style.name}. ${buildStyleInstructions(style)}${shotLine}${partLine}
 
 ### Animation Instructions
-1.  **Action:** ${script || "Bring the scene to life with subtle, natural motion. The animation should be smooth and high-quality."}
+1.  **Action:** ${action || "Bring the scene to life with subtle, natural motion. The animation should be smooth and high-quality."}
 2.  **Characters:**
 ${characterInstructions}
 3.  **Camera Movement:** ${cameraInstruction}
@@ -879,75 +1101,71 @@ ${characterInstructions}
 
 ### Critical Rule
 Animate the specified **Action** and **Camera Movement** while maintaining perfect visual consistency with the input image's style, characters, and setting. The camera movement should be the primary motion; characters and scene elements should remain static relative to each other unless their movement is part of the **Action**.`;
+    };
+
+    // Each clip is one job: it is paced on the video model when it starts, while the status
+    // polls are not counted against the model's rate limit. The job gives up its concurrency slot
+    // while it waits between polls and while it downloads, so a few long renders don't hold up
+    // every other request.
+    const generateClip = (plan: typeof clipPlans[number], clipIndex: number, imageBase64: string) =>
+        runJob({ label: 'Generate video', model: videoModel, signal }, async job => {
+            const prefix = clipPlans.length > 1 ? `Clip ${clipIndex + 1} of ${clipPlans.length}: ` : '';
+            const report = (message: string) => {
+                onProgress(prefix + message);
+                job.report(prefix + message);
+            };
+            report("Starting video generation...");
 
-    onProgress("Starting video generation...");
-
-    try {
-        let operation: any = await withRetry(() => ai.models.generateVideos({
-            model: videoModel,
-            prompt: finalPrompt,
-            image: {
-                imageBytes: scene.src!,
+            let operation = await job.request(() => provider.startVideo({
+                model: videoModel,
+                prompt: buildPrompt(plan, clipIndex),
+                imageBase64,
                 mimeType: 'image/png',
-            },
-            config: {
-                numberOfVideos: 1,
                 resolution: videoResolution,
                 aspectRatio: validAspectRatio as '16:9' | '9:16',
-            },
-            safetySettings: [
-                { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-            ],
-        }), (msg) => onProgress(`Initial request: ${msg}`));
-
-        onProgress("Video generation in progress...");
-
-        while (!operation.done) {
-            await delay(10000); 
-            onProgress("Checking video status...");
-            operation = await withRetry(() => ai.operations.getVideosOperation({ operation: operation }), (msg) => onProgress(`Polling: ${msg}`));
-        }
-
-        onProgress("Finalizing video...");
-        
-        if (operation.error) {
-            console.error("Video generation operation failed with an error:", operation.error);
-            const errorPayload = { error: operation.error };
-            throw new Error(JSON.stringify(errorPayload));
-        }
+                durationSeconds: plan.durationSeconds,
+                safetySettings: toSafetySettings(contentProfile),
+                signal: job.signal,
+            }), { onRetry: (msg) => onProgress(`${prefix}Initial request: ${msg}`) });
+
+            report("Video generation in progress...");
+
+            while (!operation.done) {
+                await job.idle(() => delay(provider.videoPollIntervalMs, job.signal));
+                report("Checking video status...");
+                const pending = operation;
+                operation = await job.request(() => provider.pollVideo(pending, job.signal), { rateLimited: false, onRetry: (msg) => onProgress(`${prefix}Polling: ${msg}`) });
+            }
 
-        const videoObject = operation.response?.generatedVideos?.[0]?.video;
-        const downloadLink = videoObject?.uri;
-        if (!downloadLink || !videoObject) {
-            console.warn("Video generation finished without a video object. Full operation object:", JSON.stringify(operation, null, 2));
-            throw new Error("Video generation completed, but no video was returned. This may be due to the prompt being blocked by a safety filter. Please try a different prompt.");
-        }
+            report("Finalizing video...");
+            
+            if (operation.error) {
+                console.error("Video generation operation failed with an error:", operation.error);
+                const errorPayload = { error: operation.error };
+                throw new Error(JSON.stringify(errorPayload));
+            }
 
-        const downloadUrl = new URL(downloadLink);
-        downloadUrl.searchParams.set('key', process.env.API_KEY!);
-        const videoResponse = await fetch(downloadUrl.toString());
-        if (!videoResponse.ok) {
-            const errorBody = await videoResponse.text();
-            console.error(`Failed to download video. Status: ${videoResponse.status}. Body:`, errorBody);
-            let userMessage = `Failed to download the generated video. Status: ${videoResponse.statusText} (${videoResponse.status}).`;
-            if (videoResponse.status === 403) {
-                userMessage += " This may be due to an API key permission issue.";
-            } else if (videoResponse.status === 404) {
-                userMessage += " The video link may have expired or is invalid.";
+            const videoObject = operation.videoObject;
+            const downloadLink = videoObject?.uri;
+            if (!downloadLink || !videoObject) {
+                console.warn("Video generation finished without a video object. Full operation object:", JSON.stringify(operation.raw, null, 2));
+                throw new Error("Video generation completed, but no video was returned. This may be due to the prompt being blocked by a safety filter. Please try a different prompt.");
             }
-            throw new Error(userMessage);
-        }
 
-        const videoBlob = await videoResponse.blob();
-        const videoUrl = URL.createObjectURL(videoBlob);
-        
-        const { audioUrl, audioBase64 } = await audioDataPromise;
+            const videoBlob = await job.idle(() => downloadVideo(videoObject, job.signal));
+            const videoUrl = URL.createObjectURL(videoBlob);
+            const audioUrl = plan.audioBase64 ? URL.createObjectURL(new Blob([base64ToBytes(plan.audioBase64)], { type: plan.audioMimeType })) : null;
+            return { videoUrl, audioUrl, videoObject, audioBase64: plan.audioBase64, audioMimeType: plan.audioBase64 ? plan.audioMimeType : null, audioTimings: plan.timings };
+        });
 
-        return { videoUrl, audioUrl, audioBase64, videoObject };
-    } catch (error) {
-        throw error;
+    const clips: GeneratedClip[] = [];
+    for (const [clipIndex, plan] of clipPlans.entries()) {
+        const frame = clipIndex === 0 ? null : await extractFrameAsBase64(clips[clipIndex - 1].videoUrl);
+        clips.push(await generateClip(plan, clipIndex, frame ?? scene.src));
     }
+    return clips;
+}
+
+export async function downloadVideo(videoObject: any, signal?: AbortSignal): Promise<Blob> {
+    return await getProviderForVideo(videoObject).downloadVideo(videoObject, signal);
 }
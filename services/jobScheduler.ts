@@ -0,0 +1,394 @@
+// Central queue for every model request. Jobs run up to `concurrency` at a time; each request a
+// job makes is additionally gated by a token bucket for its model, so bursts are allowed while
+// the sustained rate stays within quota. A 429 pauses the whole model until its Retry-After.
+
+import { abortable, createAbortError, delay, isAbortError, throwIfAborted } from "../utils/abortUtils";
+
+export type JobStatus = 'queued' | 'waiting' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobInfo = {
+    id: string;
+    label: string;
+    model: string;
+    status: JobStatus;
+    message: string;
+    attempt: number; // 1-based attempt of the current request
+    createdAt: number;
+    startedAt: number | null; // when the job left the queue
+    finishedAt: number | null;
+    error: string | null;
+};
+
+export type RateLimit = {
+    requestsPerMinute: number;
+    burst: number; // bucket capacity: requests that may start back to back
+};
+
+export type SchedulerSettings = {
+    concurrency: number;
+    maxRetries: number;
+    rateLimits: Record<string, RateLimit>;
+};
+
+export type JobContext = {
+    signal: AbortSignal; // fires when the caller's signal does or the job is cancelled; pass it on to provider calls
+    /** Runs one rate-limited request against `model` (the job's model by default), retrying transient failures. */
+    request<T>(call: () => Promise<T>, options?: { model?: string; rateLimited?: boolean; onRetry?: (message: string) => void }): Promise<T>;
+    report(message: string): void;
+    /**
+     * Runs `work` without holding the job's concurrency slot, for the waits of a long-running
+     * operation between its requests. The slot is taken back, behind any queued jobs, before it returns.
+     */
+    idle<T>(work: () => Promise<T>): Promise<T>;
+};
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+    concurrency: 4,
+    maxRetries: 4,
+    rateLimits: {
+        'gemini-2.5-pro': { requestsPerMinute: 10, burst: 3 },
+        'gemini-2.5-flash-image': { requestsPerMinute: 10, burst: 3 },
+        'imagen-4.0-generate-001': { requestsPerMinute: 10, burst: 3 },
+        'gemini-2.5-flash-preview-tts': { requestsPerMinute: 10, burst: 2 },
+        'veo-3.1-fast-generate-preview': { requestsPerMinute: 2, burst: 2 },
+        'veo-3.1-generate-preview': { requestsPerMinute: 2, burst: 1 },
+    },
+};
+
+const SETTINGS_KEY = 'storyWeaverScheduler';
+const MAX_FINISHED_JOBS = 50;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+const readStoredSettings = (): SchedulerSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            return {
+                ...DEFAULT_SCHEDULER_SETTINGS,
+                ...parsed,
+                rateLimits: { ...DEFAULT_SCHEDULER_SETTINGS.rateLimits, ...parsed.rateLimits },
+            };
+        }
+    } catch (error) {
+        console.warn("Could not read the stored scheduler settings:", error);
+    }
+    return DEFAULT_SCHEDULER_SETTINGS;
+};
+
+let settings: SchedulerSettings = readStoredSettings();
+
+export const getSchedulerSettings = (): SchedulerSettings => settings;
+
+export const updateSchedulerSettings = (changes: Partial<SchedulerSettings>) => {
+    settings = { ...settings, ...changes };
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.warn("Could not persist the scheduler settings:", error);
+    }
+    startQueuedJobs();
+};
+
+// --- Job registry -----------------------------------------------------------------------------
+
+let jobs: JobInfo[] = [];
+const listeners = new Set<(jobs: JobInfo[]) => void>();
+
+const emit = () => listeners.forEach(listener => listener(jobs));
+
+const updateJob = (id: string, changes: Partial<JobInfo>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...changes } : job);
+    emit();
+};
+
+const isFinished = (job: JobInfo) => job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+// Finished jobs are kept for display, but only the most recent ones.
+const pruneFinishedJobs = () => {
+    const finished = jobs.filter(isFinished);
+    if (finished.length <= MAX_FINISHED_JOBS) return;
+    const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(job => job.id));
+    jobs = jobs.filter(job => !dropped.has(job.id));
+};
+
+export const getJobs = (): JobInfo[] => jobs;
+
+export const subscribeToJobs = (listener: (jobs: JobInfo[]) => void): (() => void) => {
+    listeners.add(listener);
+    listener(jobs);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const clearFinishedJobs = () => {
+    jobs = jobs.filter(job => !isFinished(job));
+    emit();
+};
+
+const jobControllers = new Map<string, AbortController>();
+
+/** Cancels a single queued or running job; its caller sees the usual AbortError. */
+export const cancelJob = (id: string) => {
+    jobControllers.get(id)?.abort();
+};
+
+// --- Concurrency ------------------------------------------------------------------------------
+
+let runningCount = 0;
+const startQueue: (() => void)[] = [];
+
+function startQueuedJobs() {
+    while (runningCount < Math.max(1, settings.concurrency) && startQueue.length > 0) {
+        runningCount++;
+        startQueue.shift()!();
+    }
+}
+
+// Resolves once the job may start. A job cancelled while still queued leaves the queue
+// without ever taking a slot.
+const acquireSlot = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+        const index = startQueue.indexOf(start);
+        if (index !== -1) startQueue.splice(index, 1);
+        reject(createAbortError());
+    };
+    const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    startQueue.push(start);
+    startQueuedJobs();
+});
+
+const releaseSlot = () => {
+    runningCount--;
+    startQueuedJobs();
+};
+
+// --- Rate limiting ----------------------------------------------------------------------------
+
+type Bucket = {
+    tokens: number;
+    updatedAt: number;
+    blockedUntil: number;
+    queue: Promise<void>; // serialises waiters so tokens are handed out in request order
+};
+
+const buckets = new Map<string, Bucket>();
+
+const getBucket = (model: string): Bucket => {
+    let bucket = buckets.get(model);
+    if (!bucket) {
+        const limit = settings.rateLimits[model];
+        bucket = { tokens: limit ? limit.burst : 0, updatedAt: Date.now(), blockedUntil: 0, queue: Promise.resolve() };
+        buckets.set(model, bucket);
+    }
+    return bucket;
+};
+
+const refill = (bucket: Bucket, limit: RateLimit) => {
+    const now = Date.now();
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (now - bucket.updatedAt) * limit.requestsPerMinute / 60000);
+    bucket.updatedAt = now;
+};
+
+const takeToken = async (model: string, onWait: (waitMs: number) => void, signal?: AbortSignal): Promise<void> => {
+    const bucket = getBucket(model);
+    const turn = bucket.queue.then(async () => {
+        while (true) {
+            // A request cancelled while it waited gives up its turn without using a token.
+            throwIfAborted(signal);
+            // Read the limit on every pass so edits in the settings apply to queued requests.
+            const limit = settings.rateLimits[model];
+            const blockedMs = bucket.blockedUntil - Date.now();
+            if (blockedMs > 0) {
+                onWait(blockedMs);
+                await delay(blockedMs, signal);
+                continue;
+            }
+            if (!limit || limit.requestsPerMinute <= 0) return;
+            refill(bucket, limit);
+            if (bucket.tokens >= 1) {
+                bucket.tokens -= 1;
+                return;
+            }
+            const waitMs = Math.ceil((1 - bucket.tokens) * 60000 / limit.requestsPerMinute);
+            onWait(waitMs);
+            await delay(waitMs, signal);
+        }
+    });
+    bucket.queue = turn.catch(() => undefined);
+    return abortable(turn, signal);
+};
+
+// A rate-limit response means the model's real budget is lower than the bucket assumed: hold
+// every request for that model until the server says it may retry.
+const blockModel = (model: string, ms: number) => {
+    const bucket = getBucket(model);
+    bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + ms);
+    bucket.tokens = 0;
+    bucket.updatedAt = bucket.blockedUntil; // refill only starts once the block is over
+};
+
+// --- Retries ----------------------------------------------------------------------------------
+
+const errorText = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+const isRateLimitError = (error: unknown): boolean => {
+    const status = (error as any)?.status;
+    const message = errorText(error).toLowerCase();
+    return status === 429 || message.includes('429') || message.includes('resource_exhausted') || message.includes('rate limit');
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+    const status = (error as any)?.status;
+    const message = errorText(error).toLowerCase();
+    return isRateLimitError(error) || status === 503 || message.includes('503') || message.includes('overloaded') || message.includes('unavailable');
+};
+
+/**
+ * Reads the server-requested retry delay from an error: an explicit `retryAfterMs` property, a
+ * google.rpc.RetryInfo `retryDelay` in a JSON error body, a Retry-After value or a
+ * "retry in Ns" hint in the message. Returns null when the error carries none.
+ */
+export const getRetryAfterMs = (error: unknown): number | null => {
+    const explicit = (error as any)?.retryAfterMs;
+    if (typeof explicit === 'number' && explicit >= 0) return explicit;
+    const message = errorText(error);
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)
+        ?? message.match(/retry-after:?\s*(\d+(?:\.\d+)?)/i)
+        ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+const backoffMs = (attempt: number) => {
+    const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt - 1));
+    return Math.round(base / 2 + Math.random() * base / 2);
+};
+
+// --- Jobs -------------------------------------------------------------------------------------
+
+let nextJobId = 1;
+
+/**
+ * Queues a job and resolves with its result. `run` receives a context whose `request` must wrap
+ * each model call; the job holds one concurrency slot while it runs, except inside `idle`.
+ */
+export async function runJob<T>(
+    options: { label: string; model: string; signal?: AbortSignal },
+    run: (job: JobContext) => Promise<T>,
+): Promise<T> {
+    const id = `job-${nextJobId++}`;
+    jobs = [...jobs, {
+        id,
+        label: options.label,
+        model: options.model,
+        status: 'queued',
+        message: 'Queued',
+        attempt: 1,
+        createdAt: Date.now(),
+        startedAt: null,
+        finishedAt: null,
+        error: null,
+    }];
+    pruneFinishedJobs();
+    emit();
+
+    // Each job gets its own controller so it can be cancelled on its own, while still following
+    // the caller's signal.
+    const controller = new AbortController();
+    const { signal } = controller;
+    const abortJob = () => controller.abort();
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', abortJob, { once: true });
+    jobControllers.set(id, controller);
+    const cleanUp = () => {
+        options.signal?.removeEventListener('abort', abortJob);
+        jobControllers.delete(id);
+    };
+
+    let holdsSlot = false;
+    const takeSlot = async () => {
+        await acquireSlot(signal);
+        holdsSlot = true;
+    };
+    const giveSlot = () => {
+        if (!holdsSlot) return;
+        holdsSlot = false;
+        releaseSlot();
+    };
+
+    const context: JobContext = {
+        signal,
+        report: (message) => updateJob(id, { message }),
+        async idle(work) {
+            giveSlot();
+            updateJob(id, { status: 'waiting' });
+            const result = await work();
+            await takeSlot();
+            updateJob(id, { status: 'running' });
+            return result;
+        },
+        async request(call, { model = options.model, rateLimited = true, onRetry } = {}) {
+            for (let attempt = 1; ; attempt++) {
+                if (rateLimited) {
+                    await takeToken(model, waitMs => updateJob(id, {
+                        status: 'waiting',
+                        message: `Waiting ${Math.ceil(waitMs / 1000)}s for ${model} rate limit...`,
+                    }), signal);
+                }
+                throwIfAborted(signal);
+                updateJob(id, { status: 'running', attempt });
+                try {
+                    return await abortable(call(), signal);
+                } catch (error) {
+                    if (isAbortError(error) || !isRetryableError(error) || attempt >= settings.maxRetries) throw error;
+                    const retryAfter = getRetryAfterMs(error);
+                    const waitMs = retryAfter ?? backoffMs(attempt);
+                    if (isRateLimitError(error)) blockModel(model, waitMs);
+                    const reason = isRateLimitError(error) ? 'Rate limited' : 'Model is busy';
+                    const retryMessage = `${reason}. Retrying in ${Math.ceil(waitMs / 1000)}s... (Attempt ${attempt}/${settings.maxRetries})`;
+                    console.log(`${options.label}: ${retryMessage}`);
+                    onRetry?.(retryMessage);
+                    updateJob(id, { status: 'retrying', message: retryMessage });
+                    // Rate-limited retries wait in the bucket, which is now blocked for waitMs.
+                    if (!rateLimited || !isRateLimitError(error)) await delay(waitMs, signal);
+                }
+            }
+        },
+    };
+
+    const finishWithError = (error: unknown) => {
+        if (isAbortError(error)) {
+            updateJob(id, { status: 'cancelled', message: 'Cancelled', finishedAt: Date.now() });
+        } else {
+            updateJob(id, { status: 'failed', message: 'Failed', error: errorText(error), finishedAt: Date.now() });
+        }
+    };
+
+    try {
+        await takeSlot();
+    } catch (error) {
+        cleanUp();
+        finishWithError(error);
+        throw error;
+    }
+    updateJob(id, { status: 'running', message: 'Running', startedAt: Date.now() });
+    try {
+        const result = await run(context);
+        throwIfAborted(signal);
+        updateJob(id, { status: 'succeeded', message: 'Done', finishedAt: Date.now() });
+        return result;
+    } catch (error) {
+        finishWithError(error);
+        throw error;
+    } finally {
+        cleanUp();
+        giveSlot();
+    }
+}
@@ -0,0 +1,311 @@
+import { Character, CharacterReferenceImage } from "./geminiService";
+import { getCharacterReferenceImageData, loadCharacterReferenceImages, storeCharacterReferenceImage } from "./characterLibrary";
+import { AppStoryboardScene, GenerationItem, SoundtrackCue, UploadedItem, VideoClip, VideoState } from "../types";
+import { base64ToBytes, bytesToBase64 } from "../utils/fileUtils";
+import { clipAudioMimeType, createClipId } from "../utils/timelineUtils";
+import { createZip, readZip, ZipEntry } from "../utils/zipUtils";
+
+export const PROJECT_FILE_EXTENSION = '.storyweaver';
+const PROJECT_FORMAT = 'storyweaver';
+const PROJECT_VERSION = 1;
+const MANIFEST_NAME = 'project.json';
+
+export type ProjectData = {
+    generationHistory: GenerationItem[];
+    uploadedItems: UploadedItem[];
+    characters: Character[];
+};
+
+type ProjectManifest = ProjectData & {
+    format: string;
+    version: number;
+    savedAt: string;
+};
+
+// Binary payloads are moved out of the JSON and into their own archive entries. The JSON keeps
+// a reference of this shape in place of the original value.
+type AssetRef = { $asset: string; mimeType: string; name?: string };
+
+const isAssetRef = (value: any): value is AssetRef =>
+    !!value && typeof value === 'object' && typeof value.$asset === 'string';
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'audio/wav': 'wav',
+    'audio/mpeg': 'mp3',
+    'audio/webm': 'webm',
+    'audio/ogg': 'ogg',
+    'audio/mp4': 'm4a',
+    'audio/flac': 'flac',
+    'video/mp4': 'mp4',
+};
+
+const extensionFor = (mimeType: string) => EXTENSIONS[mimeType] ?? 'bin';
+
+class AssetWriter {
+    readonly entries: ZipEntry[] = [];
+    private counter = 0;
+
+    add(folder: string, data: Uint8Array, mimeType: string, name?: string): AssetRef {
+        const path = `${folder}/${++this.counter}.${extensionFor(mimeType)}`;
+        this.entries.push({ name: path, data });
+        return name ? { $asset: path, mimeType, name } : { $asset: path, mimeType };
+    }
+
+    addBase64(folder: string, base64: string | null | undefined, mimeType: string): AssetRef | null {
+        return base64 ? this.add(folder, base64ToBytes(base64), mimeType) : null;
+    }
+}
+
+// Generated scene images are PNGs, while an uploaded image keeps its own format until it is edited,
+// so the format is read from the data itself; `fallback` covers anything unrecognised.
+const imageMimeType = (base64: string, fallback: string): string =>
+    base64.startsWith('iVBORw0KGgo') ? 'image/png'
+    : base64.startsWith('/9j/') ? 'image/jpeg'
+    : base64.startsWith('UklGR') ? 'image/webp'
+    : fallback;
+
+const packScene = (scene: AppStoryboardScene, assets: AssetWriter, mimeType: string = 'image/png'): any => ({
+    ...scene,
+    // Scene images are held as raw base64 data.
+    src: scene.src ? assets.addBase64('images', scene.src, imageMimeType(scene.src, mimeType)) : null,
+    previousSrc: scene.previousSrc ? assets.addBase64('images', scene.previousSrc, imageMimeType(scene.previousSrc, mimeType)) : null,
+    isRegenerating: false,
+    isGeneratingAngles: false,
+    isEditing: false,
+    isCheckingConsistency: false,
+});
+
+const packClip = async (clip: VideoClip, assets: AssetWriter): Promise<any> => {
+    let video: AssetRef | null = null;
+    if (clip.videoUrl) {
+        try {
+            const blob = await (await fetch(clip.videoUrl)).blob();
+            video = assets.add('video', new Uint8Array(await blob.arrayBuffer()), blob.type || 'video/mp4');
+        } catch (error) {
+            // The clip can still be re-downloaded from its videoObject when the project is reopened.
+            console.warn("Could not embed a video clip in the project file:", error);
+        }
+    }
+    return {
+        id: clip.id,
+        videoObject: clip.videoObject,
+        video,
+        audioBase64: assets.addBase64('audio', clip.audioBase64, clipAudioMimeType(clip)),
+        audioTimings: clip.audioTimings ?? null,
+    };
+};
+
+const packVideoState = async (videoState: VideoState, assets: AssetWriter): Promise<any> => {
+    const clips = [];
+    for (const clip of videoState.clips) {
+        clips.push(await packClip(clip, assets));
+    }
+    const voiceoverFile = videoState.voiceoverFile
+        ? assets.add('voiceover', new Uint8Array(await videoState.voiceoverFile.arrayBuffer()), videoState.voiceoverFile.type, videoState.voiceoverFile.name)
+        : null;
+    const voiceoverTakes = [];
+    for (const take of videoState.voiceoverTakes ?? []) {
+        voiceoverTakes.push({ ...take, file: assets.add('voiceover', new Uint8Array(await take.file.arrayBuffer()), take.file.type, take.file.name) });
+    }
+    return {
+        ...videoState,
+        // A render that was in flight when the project was saved cannot be resumed.
+        status: videoState.status === 'loading' ? (clips.length > 0 ? 'success' : 'idle') : videoState.status,
+        loadingMessage: '',
+        clips,
+        voiceoverFile,
+        voiceoverTakes,
+    };
+};
+
+const packVideoStates = async (videoStates: VideoState[], assets: AssetWriter): Promise<any[]> => {
+    const packed = [];
+    for (const videoState of videoStates) {
+        packed.push(await packVideoState(videoState, assets));
+    }
+    return packed;
+};
+
+// Call loadCharacterReferenceImages first; reference images that aren't cached are left out.
+const packCharacter = (character: Character, assets: AssetWriter): any => ({
+    ...character,
+    imagePreview: null,
+    originalImageBase64: assets.addBase64('characters', character.originalImageBase64, character.originalImageMimeType || 'image/png'),
+    referenceImages: (character.referenceImages ?? []).flatMap(image => {
+        const data = assets.addBase64('characters', getCharacterReferenceImageData(image), image.mimeType);
+        return data ? [{ kind: image.kind, data }] : [];
+    }),
+    isDescribing: false,
+});
+
+/**
+ * Bundles the whole working session into a single zipped project file. Images, audio,
+ * voiceover uploads and rendered video clips are stored as separate archive entries next to
+ * a project.json manifest, so the file reopens without needing to regenerate anything.
+ */
+export async function exportProject(project: ProjectData): Promise<Blob> {
+    const assets = new AssetWriter();
+    await loadCharacterReferenceImages([
+        ...project.characters,
+        ...project.generationHistory.flatMap(item => item.characters),
+        ...project.uploadedItems.flatMap(item => item.generationItem.characters),
+    ]);
+
+    const generationHistory = [];
+    for (const item of project.generationHistory) {
+        generationHistory.push({
+            ...item,
+            imageSet: item.imageSet.map(scene => packScene(scene, assets)),
+            characters: item.characters.map(character => packCharacter(character, assets)),
+            videoStates: await packVideoStates(item.videoStates, assets),
+            soundtrack: item.soundtrack?.map(cue => ({ ...cue, audioBase64: assets.addBase64('soundtrack', cue.audioBase64, cue.mimeType) })),
+        });
+    }
+
+    const uploadedItems = [];
+    for (const item of project.uploadedItems) {
+        uploadedItems.push({
+            ...item,
+            generationItem: {
+                ...item.generationItem,
+                imageSet: item.generationItem.imageSet.map(scene => packScene(scene, assets, item.mimeType)),
+                characters: item.generationItem.characters.map(character => packCharacter(character, assets)),
+            },
+            videoStates: await packVideoStates(item.videoStates, assets),
+        });
+    }
+
+    const manifest = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        generationHistory,
+        uploadedItems,
+        characters: project.characters.map(character => packCharacter(character, assets)),
+    };
+
+    return createZip([
+        { name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest)) },
+        ...assets.entries,
+    ]);
+}
+
+class AssetReader {
+    constructor(private files: Map<string, Uint8Array>) {}
+
+    bytes(ref: AssetRef): Uint8Array {
+        const data = this.files.get(ref.$asset);
+        if (!data) {
+            throw new Error(`The project file is missing "${ref.$asset}".`);
+        }
+        return data;
+    }
+
+    base64(value: AssetRef | null | undefined): string | null {
+        return isAssetRef(value) ? bytesToBase64(this.bytes(value)) : null;
+    }
+
+    objectUrl(value: AssetRef | null | undefined): string | null {
+        if (!isAssetRef(value)) return null;
+        return URL.createObjectURL(new Blob([this.bytes(value)], { type: value.mimeType }));
+    }
+
+    file(value: AssetRef | null | undefined): File | null {
+        if (!isAssetRef(value)) return null;
+        return new File([this.bytes(value)], value.name || value.$asset, { type: value.mimeType });
+    }
+}
+
+const unpackScene = (scene: any, assets: AssetReader): AppStoryboardScene => ({
+    ...scene,
+    src: assets.base64(scene.src),
+    previousSrc: assets.base64(scene.previousSrc),
+});
+
+const unpackVideoState = (videoState: any, assets: AssetReader): VideoState => ({
+    ...videoState,
+    clips: videoState.clips.map((clip: any): VideoClip => {
+        const audioBase64 = assets.base64(clip.audioBase64);
+        return {
+            // Projects saved before clips had ids get fresh ones.
+            id: clip.id ?? createClipId(),
+            videoObject: clip.videoObject ?? null,
+            // When no video was embedded the scene view re-downloads it from the videoObject.
+            videoUrl: assets.objectUrl(clip.video),
+            audioBase64,
+            audioUrl: audioBase64 ? assets.objectUrl(clip.audioBase64) : null,
+            audioMimeType: audioBase64 ? clip.audioBase64.mimeType : null,
+            audioTimings: clip.audioTimings ?? null,
+        };
+    }),
+    voiceoverFile: assets.file(videoState.voiceoverFile),
+    voiceoverTakes: (videoState.voiceoverTakes ?? []).map((take: any) => ({ ...take, file: assets.file(take.file) })).filter((take: any) => take.file),
+});
+
+// Reference images go back into the asset store, which is where characters keep them.
+const unpackCharacter = async (character: any, assets: AssetReader): Promise<Character> => {
+    const originalImageBase64 = assets.base64(character.originalImageBase64);
+    const referenceImages: CharacterReferenceImage[] = [];
+    for (const image of character.referenceImages ?? []) {
+        referenceImages.push(await storeCharacterReferenceImage(assets.base64(image.data)!, image.data.mimeType, image.kind));
+    }
+    return {
+        ...character,
+        originalImageBase64,
+        imagePreview: originalImageBase64 ? assets.objectUrl(character.originalImageBase64) : null,
+        referenceImages,
+    };
+};
+
+const unpackCharacters = (characters: any[], assets: AssetReader): Promise<Character[]> =>
+    Promise.all(characters.map(character => unpackCharacter(character, assets)));
+
+/**
+ * Reads a project file written by exportProject and restores it to in-memory state, recreating
+ * base64 payloads, object URLs and File objects. Scene order and ids are preserved, so
+ * camera-angle scenes stay attached to their parent via isCameraAngleFor.
+ */
+export async function importProject(file: Blob): Promise<ProjectData> {
+    const files = await readZip(file);
+    const manifestBytes = files.get(MANIFEST_NAME);
+    if (!manifestBytes) {
+        throw new Error("This file is not a Story Weaver project (project.json is missing).");
+    }
+
+    let manifest: ProjectManifest;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+    } catch (error) {
+        throw new Error("The project manifest is not valid JSON.");
+    }
+    if (manifest.format !== PROJECT_FORMAT) {
+        throw new Error("This file is not a Story Weaver project.");
+    }
+    if (manifest.version > PROJECT_VERSION) {
+        throw new Error(`This project was saved by a newer version of Story Weaver (format v${manifest.version}).`);
+    }
+
+    const assets = new AssetReader(files);
+    return {
+        generationHistory: await Promise.all((manifest.generationHistory ?? []).map(async (item: any) => ({
+            ...item,
+            imageSet: item.imageSet.map((scene: any) => unpackScene(scene, assets)),
+            characters: await unpackCharacters(item.characters, assets),
+            videoStates: item.videoStates.map((videoState: any) => unpackVideoState(videoState, assets)),
+            soundtrack: item.soundtrack?.map((cue: any): SoundtrackCue => ({ ...cue, audioBase64: assets.base64(cue.audioBase64) ?? '' })),
+        }))),
+        uploadedItems: await Promise.all((manifest.uploadedItems ?? []).map(async (item: any) => ({
+            ...item,
+            generationItem: {
+                ...item.generationItem,
+                imageSet: item.generationItem.imageSet.map((scene: any) => unpackScene(scene, assets)),
+                characters: await unpackCharacters(item.generationItem.characters, assets),
+            },
+            videoStates: item.videoStates.map((videoState: any) => unpackVideoState(videoState, assets)),
+        }))),
+        characters: await unpackCharacters(manifest.characters ?? [], assets),
+    };
+}
@@ -0,0 +1,181 @@
+import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { ImageRequest, MediaProvider, SpeechRequest, TextRequest, TranscriptionRequest, VideoOperation, VideoRequest } from "./types";
+
+const getAiClient = () => {
+    const API_KEY = process.env.API_KEY;
+    if (!API_KEY) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    return new GoogleGenAI({ apiKey: API_KEY });
+}
+
+const firstInlineData = (response: GenerateContentResponse): string | null => {
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+            return part.inlineData.data;
+        }
+    }
+    return null;
+};
+
+const toVideoOperation = (operation: any): VideoOperation => ({
+    done: !!operation.done,
+    error: operation.error,
+    videoObject: operation.response?.generatedVideos?.[0]?.video,
+    raw: operation,
+});
+
+export const geminiProvider: MediaProvider = {
+    id: 'gemini',
+    label: 'Gemini (Google AI)',
+    requiresApiKey: true,
+    videoPollIntervalMs: 10000,
+
+    async generateText({ model, parts, responseSchema, signal }: TextRequest) {
+        const ai = getAiClient();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: responseSchema ? { responseMimeType: "application/json", responseSchema, abortSignal: signal } : { abortSignal: signal },
+        });
+        return response.text ?? '';
+    },
+
+    async generateImage({ model, parts, aspectRatio, safetySettings, signal }: ImageRequest) {
+        const ai = getAiClient();
+        if (model === 'gemini-2.5-flash-image') {
+            const response: GenerateContentResponse = await ai.models.generateContent({
+                model,
+                contents: { parts },
+                config: {
+                    responseModalities: [Modality.IMAGE],
+                    abortSignal: signal,
+                },
+                safetySettings: safetySettings,
+            });
+            const data = firstInlineData(response);
+            if (!data) console.warn(`${model} call was successful but returned no image. Full response:`, response);
+            return data;
+        }
+
+        const textPart = parts.find(part => part.text);
+        const response: any = await ai.models.generateImages({
+            model,
+            prompt: textPart?.text ?? '',
+            config: {
+                numberOfImages: 1,
+                aspectRatio: aspectRatio,
+                outputMimeType: 'image/png',
+                abortSignal: signal,
+            },
+            safetySettings: safetySettings,
+        });
+        const imageBytes = response?.generatedImages?.[0]?.image?.imageBytes;
+        if (!imageBytes) console.warn(`Image call was successful but returned no image. Full response:`, response);
+        return imageBytes || null;
+    },
+
+    async editImage({ model, parts, safetySettings, signal }: ImageRequest) {
+        const ai = getAiClient();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: { parts },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
+            },
+            safetySettings: safetySettings,
+        });
+        return firstInlineData(response);
+    },
+
+    async generateSpeech({ model, text, voices, signal }: SpeechRequest) {
+        const ai = getAiClient();
+        const speechConfig = voices.length > 1
+            ? {
+                multiSpeakerVoiceConfig: {
+                    speakerVoiceConfigs: voices.map(({ speaker, voiceName }) => ({
+                        speaker,
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+                    })),
+                },
+            }
+            : { voiceConfig: { prebuiltVoiceConfig: { voiceName: voices[0]?.voiceName ?? 'Kore' } } };
+
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: [{ parts: [{ text }] }],
+            config: {
+                responseModalities: [Modality.AUDIO],
+                speechConfig,
+                abortSignal: signal,
+            },
+        });
+        return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || null;
+    },
+
+    async startVideo({ model, prompt, imageBase64, mimeType, resolution, aspectRatio, durationSeconds, safetySettings, signal }: VideoRequest) {
+        const ai = getAiClient();
+        const operation = await ai.models.generateVideos({
+            model,
+            prompt,
+            image: {
+                imageBytes: imageBase64,
+                mimeType,
+            },
+            config: {
+                numberOfVideos: 1,
+                resolution,
+                aspectRatio,
+                durationSeconds,
+                abortSignal: signal,
+            },
+            safetySettings: safetySettings,
+        });
+        return toVideoOperation(operation);
+    },
+
+    async pollVideo(operation: VideoOperation, signal?: AbortSignal) {
+        const ai = getAiClient();
+        const updated = await ai.operations.getVideosOperation({ operation: operation.raw, config: { abortSignal: signal } });
+        return toVideoOperation(updated);
+    },
+
+    ownsVideo(videoObject: any) {
+        return typeof videoObject?.uri === 'string' && /^https?:/.test(videoObject.uri);
+    },
+
+    async downloadVideo(videoObject: any, signal?: AbortSignal) {
+        const downloadUrl = new URL(videoObject.uri);
+        downloadUrl.searchParams.set('key', process.env.API_KEY!);
+        const videoResponse = await fetch(downloadUrl.toString(), { signal });
+        if (!videoResponse.ok) {
+            const errorBody = await videoResponse.text();
+            console.error(`Failed to download video. Status: ${videoResponse.status}. Body:`, errorBody);
+            let userMessage = `Failed to download the generated video. Status: ${videoResponse.statusText} (${videoResponse.status}).`;
+            if (videoResponse.status === 403) {
+                userMessage += " This may be due to an API key permission issue.";
+            } else if (videoResponse.status === 404) {
+                userMessage += " The video link may have expired or is invalid.";
+            }
+            const error = new Error(userMessage);
+            const retryAfter = Number(videoResponse.headers.get('Retry-After'));
+            if (retryAfter > 0) {
+                // Read by the job scheduler to pace the retry.
+                Object.assign(error, { retryAfterMs: retryAfter * 1000 });
+            }
+            throw error;
+        }
+        return await videoResponse.blob();
+    },
+
+    async transcribeAudio({ model, audioBase64, mimeType, prompt, responseSchema, signal }: TranscriptionRequest) {
+        const ai = getAiClient();
+        const response: GenerateContentResponse = await ai.models.generateContent({
+            model,
+            contents: { parts: [{ inlineData: { data: audioBase64, mimeType } }, { text: prompt }] },
+            config: responseSchema ? { responseMimeType: "application/json", responseSchema, abortSignal: signal } : { abortSignal: signal },
+        });
+        return response.text ?? '';
+    },
+};
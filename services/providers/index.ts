@@ -0,0 +1,44 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { MediaProvider, ProviderId } from "./types";
+
+export * from "./types";
+
+const PROVIDERS: Record<ProviderId, MediaProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+const STORAGE_KEY = 'storyWeaverProvider';
+
+const readStoredProviderId = (): ProviderId => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored && stored in PROVIDERS) return stored as ProviderId;
+    } catch (error) {
+        console.warn("Could not read the stored provider selection:", error);
+    }
+    return 'gemini';
+};
+
+let activeProviderId: ProviderId = readStoredProviderId();
+
+export const listProviders = (): MediaProvider[] => Object.values(PROVIDERS);
+
+export const getActiveProviderId = (): ProviderId => activeProviderId;
+
+export const getProvider = (): MediaProvider => PROVIDERS[activeProviderId];
+
+export const setActiveProvider = (id: ProviderId) => {
+    activeProviderId = id;
+    try {
+        localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+        console.warn("Could not persist the provider selection:", error);
+    }
+};
+
+// Clips keep the videoObject of whichever backend produced them, so downloads must be routed
+// back to that backend even after the user switches providers.
+export const getProviderForVideo = (videoObject: any): MediaProvider =>
+    listProviders().find(provider => provider.ownsVideo(videoObject)) ?? getProvider();
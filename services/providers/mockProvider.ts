@@ -0,0 +1,107 @@
+import { Part, Schema, Type } from "@google/genai";
+import { bytesToBase64 } from "../../utils/fileUtils";
+import { createSilentWav } from "../../utils/wavUtils";
+import { createPlaceholderMp4, createPlaceholderPng, hashString } from "../../utils/placeholderMedia";
+import { ImageRequest, MediaProvider, SpeechRequest, TextRequest, TranscriptionRequest, VideoOperation, VideoRequest } from "./types";
+
+// Veo returns 8 second clips unless asked for another length; the mock mirrors that so
+// timing-dependent UI behaves the same.
+const MOCK_VIDEO_SECONDS = 8;
+const MOCK_WORDS_PER_SECOND = 2.5;
+const MOCK_VIDEO_SCHEME = 'mock://video/';
+
+const seedFromParts = (parts: Part[]): string =>
+    parts.map(part => part.text ?? part.inlineData?.data?.slice(0, 256) ?? '').join('|');
+
+const mockValueForSchema = (schema: Schema, key: string, index?: number): unknown => {
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const value: Record<string, unknown> = {};
+            for (const [propertyKey, propertySchema] of Object.entries(schema.properties ?? {})) {
+                value[propertyKey] = mockValueForSchema(propertySchema, propertyKey);
+            }
+            return value;
+        }
+        case Type.ARRAY: {
+            const count = Math.max(1, Number(schema.minItems ?? 1) || 1);
+            return Array.from({ length: count }, (_, i) => mockValueForSchema(schema.items ?? { type: Type.STRING }, key, i));
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return schema.minimum ?? (index ?? 0) + 1;
+        case Type.BOOLEAN:
+            return false;
+        default:
+            if (schema.enum?.length) return schema.enum[(index ?? 0) % schema.enum.length];
+            return index === undefined ? `Mock ${key}` : `Mock ${key} ${index + 1}`;
+    }
+};
+
+/**
+ * Deterministic offline backend. Every response is derived from the request contents, so the
+ * same storyboard always produces the same placeholders and no quota is consumed.
+ */
+export const mockProvider: MediaProvider = {
+    id: 'mock',
+    label: 'Local Mock (Offline)',
+    requiresApiKey: false,
+    videoPollIntervalMs: 500,
+
+    async generateText({ model, responseSchema }: TextRequest) {
+        if (responseSchema) {
+            return JSON.stringify(mockValueForSchema(responseSchema, 'value'));
+        }
+        return `Mock response from ${model}.`;
+    },
+
+    async generateImage({ parts, aspectRatio }: ImageRequest) {
+        return bytesToBase64(createPlaceholderPng(seedFromParts(parts), aspectRatio));
+    },
+
+    async editImage({ parts, aspectRatio }: ImageRequest) {
+        return bytesToBase64(createPlaceholderPng(`edit|${seedFromParts(parts)}`, aspectRatio));
+    },
+
+    async generateSpeech({ text }: SpeechRequest) {
+        const wordCount = text.split(/\s+/).filter(Boolean).length;
+        return bytesToBase64(createSilentWav(Math.max(1, wordCount / MOCK_WORDS_PER_SECOND)));
+    },
+
+    async startVideo({ prompt, imageBase64, aspectRatio, durationSeconds = MOCK_VIDEO_SECONDS }: VideoRequest) {
+        const seed = hashString(`${prompt}|${imageBase64.slice(0, 256)}`).toString(16);
+        return { done: false, raw: { seed, aspectRatio, durationSeconds } };
+    },
+
+    async pollVideo(operation: VideoOperation) {
+        const { seed, aspectRatio, durationSeconds } = operation.raw;
+        const query = new URLSearchParams({ aspectRatio, duration: String(durationSeconds) });
+        return {
+            done: true,
+            raw: operation.raw,
+            videoObject: { uri: `${MOCK_VIDEO_SCHEME}${seed}?${query}`, mimeType: 'video/mp4' },
+        };
+    },
+
+    ownsVideo(videoObject: any) {
+        return typeof videoObject?.uri === 'string' && videoObject.uri.startsWith(MOCK_VIDEO_SCHEME);
+    },
+
+    async downloadVideo(videoObject: any) {
+        const [seed, query = ''] = videoObject.uri.slice(MOCK_VIDEO_SCHEME.length).split('?');
+        const params = new URLSearchParams(query);
+        const aspectRatio = params.get('aspectRatio') ?? '16:9';
+        const durationSeconds = Number(params.get('duration')) || MOCK_VIDEO_SECONDS;
+        return new Blob([createPlaceholderMp4(seed, aspectRatio, durationSeconds)], { type: 'video/mp4' });
+    },
+
+    async transcribeAudio({ responseSchema }: TranscriptionRequest) {
+        if (responseSchema) {
+            // Two speakers, so speaker mapping can be tried offline.
+            return JSON.stringify({ segments: [
+                { speaker: 'Speaker 1', text: 'This is a mock transcription', startSeconds: 0, endSeconds: 2 },
+                { speaker: 'Speaker 2', text: 'of the uploaded audio.', startSeconds: 2.5, endSeconds: 4 },
+            ] });
+        }
+        return 'This is a mock transcription of the uploaded audio.';
+    },
+};
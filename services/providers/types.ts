@@ -0,0 +1,85 @@
+import { HarmBlockThreshold, HarmCategory, Part, Schema } from "@google/genai";
+
+export type ProviderId = 'gemini' | 'mock';
+
+export type SafetySetting = {
+    category: HarmCategory;
+    threshold: HarmBlockThreshold;
+};
+
+export type TextRequest = {
+    model: string;
+    parts: Part[];
+    responseSchema?: Schema; // When set, the response text is a JSON document matching the schema.
+    signal?: AbortSignal;
+};
+
+export type ImageRequest = {
+    model: string;
+    parts: Part[]; // Reference images as inlineData followed by the text prompt.
+    aspectRatio: string;
+    safetySettings: SafetySetting[];
+    signal?: AbortSignal;
+};
+
+export type SpeechVoice = {
+    speaker: string;
+    voiceName: string;
+};
+
+export type SpeechRequest = {
+    model: string;
+    text: string;
+    voices: SpeechVoice[]; // One entry for single-speaker synthesis, several for a conversation.
+    signal?: AbortSignal;
+};
+
+export type VideoRequest = {
+    model: string;
+    prompt: string;
+    imageBase64: string;
+    mimeType: string;
+    resolution: '720p' | '1080p';
+    aspectRatio: '16:9' | '9:16';
+    durationSeconds?: number; // Clip length; the model's default when absent.
+    safetySettings: SafetySetting[];
+    signal?: AbortSignal;
+};
+
+export type VideoOperation = {
+    done: boolean;
+    error?: unknown;
+    videoObject?: any; // Opaque handle passed back to downloadVideo; stored on VideoClip.
+    raw: any;
+};
+
+export type TranscriptionRequest = {
+    model: string;
+    audioBase64: string;
+    mimeType: string;
+    prompt: string;
+    responseSchema?: Schema; // When set, the response text is a JSON document matching the schema.
+    signal?: AbortSignal;
+};
+
+/**
+ * A backend capable of the media operations Story Weaver needs. geminiService owns prompt
+ * construction, and the job scheduler owns pacing and retries; providers only translate
+ * requests into calls on their vendor. Every request carries an optional AbortSignal that
+ * providers forward to their transport, so cancelled work stops as early as possible.
+ */
+export interface MediaProvider {
+    id: ProviderId;
+    label: string;
+    requiresApiKey: boolean;
+    videoPollIntervalMs: number;
+    generateText(request: TextRequest): Promise<string>;
+    generateImage(request: ImageRequest): Promise<string | null>; // base64 PNG
+    editImage(request: ImageRequest): Promise<string | null>; // base64 PNG
+    generateSpeech(request: SpeechRequest): Promise<string | null>; // base64 audio
+    startVideo(request: VideoRequest): Promise<VideoOperation>;
+    pollVideo(operation: VideoOperation, signal?: AbortSignal): Promise<VideoOperation>;
+    ownsVideo(videoObject: any): boolean;
+    downloadVideo(videoObject: any, signal?: AbortSignal): Promise<Blob>;
+    transcribeAudio(request: TranscriptionRequest): Promise<string>;
+}
@@ -0,0 +1,182 @@
+import { SavedItem, SavedItemAssets } from "../types";
+import { getAssetBase64, getAssetBlob, isQuotaError, putAsset, putBase64Asset, registerAssetReferences, releaseAssets } from "./assetStore";
+import { clipAudioMimeType, createClipId } from "../utils/timelineUtils";
+
+const SAVED_ITEMS_KEY = 'creativeSuiteSavedItems';
+const LEGACY_LIFETIME_MS = 5 * 24 * 60 * 60 * 1000;
+
+// Saved items are split in two: a small JSON metadata list (synced through AI Studio's storage
+// when available, otherwise localStorage) and the binary media, which lives in the local
+// IndexedDB asset store and is referenced from the metadata by asset id.
+
+const getSyncedStorage = () => {
+    // FIX: Safely access window.aistudio.storage which may not be defined in the global AIStudio type.
+    const storage = (window as any).aistudio?.storage;
+    return storage && typeof storage.getItem === 'function' && typeof storage.setItem === 'function' ? storage : null;
+};
+
+const writeMetadata = async (items: any[]) => {
+    const data = JSON.stringify(items);
+    const storage = getSyncedStorage();
+    if (storage) {
+        await storage.setItem(SAVED_ITEMS_KEY, data);
+    } else {
+        localStorage.setItem(SAVED_ITEMS_KEY, data);
+    }
+};
+
+const readMetadata = async (): Promise<any[]> => {
+    const storage = getSyncedStorage();
+    const stored: string | null = storage ? await storage.getItem(SAVED_ITEMS_KEY) : localStorage.getItem(SAVED_ITEMS_KEY);
+    return stored ? JSON.parse(stored) : [];
+};
+
+export const getSavedItemAssetIds = (item: SavedItem): string[] => {
+    const ids = [
+        item.assets.image,
+        ...item.assets.clips.flatMap(clip => [clip.video, clip.audio]),
+        ...Object.values(item.assets.characterImages),
+    ];
+    return Array.from(new Set(ids.filter((id): id is string => !!id)));
+};
+
+// The item's own assets plus the reference images its characters share with the character library.
+const getReferencedAssetIds = (item: SavedItem): string[] => [
+    ...getSavedItemAssetIds(item),
+    ...item.characters.flatMap(character => (character.referenceImages ?? []).map(image => image.assetId)),
+];
+
+// Legacy entries still hold their media inline and have no asset ids.
+registerAssetReferences(async () => (await readMetadata()).filter(entry => entry.assets).flatMap(getReferencedAssetIds));
+
+// Replaces every binary field with null so that only asset ids reach the synced metadata.
+const toMetadata = (item: SavedItem) => ({
+    ...item,
+    scene: { ...item.scene, src: null },
+    videoState: {
+        ...item.videoState,
+        voiceoverFile: null,
+        voiceoverTakes: [],
+        selectedTakeId: null,
+        clips: item.videoState.clips.map(clip => ({ ...clip, videoUrl: null, audioUrl: null, audioBase64: null })),
+    },
+    characters: item.characters.map(character => ({ ...character, imagePreview: null, originalImageBase64: null })),
+});
+
+/**
+ * Writes a new SavedItem's media into the asset store and fills in its asset references.
+ * Video clips are stored from their already-downloaded object URLs, so a bookmark keeps working
+ * after the provider's download link expires. Throws rather than dropping data if storage is full.
+ */
+export async function storeSavedItemAssets(item: Omit<SavedItem, 'assets'>): Promise<SavedItem> {
+    const assets: SavedItemAssets = { image: null, clips: [], characterImages: {} };
+
+    if (item.scene.src) {
+        assets.image = await putBase64Asset(item.scene.src, 'image/png');
+    }
+
+    for (const clip of item.videoState.clips) {
+        let video: string | null = null;
+        if (clip.videoUrl) {
+            try {
+                video = await putAsset(await (await fetch(clip.videoUrl)).blob(), 'video/mp4');
+            } catch (error) {
+                if (isQuotaError(error)) throw error;
+                // The clip can still be re-downloaded from its videoObject while the provider keeps it.
+                console.warn("Could not store a video clip for a saved item:", error);
+            }
+        }
+        const audio = clip.audioBase64 ? await putBase64Asset(clip.audioBase64, clipAudioMimeType(clip)) : null;
+        assets.clips.push({ video, audio });
+    }
+
+    for (const character of item.characters) {
+        if (character.originalImageBase64) {
+            assets.characterImages[character.id] = await putBase64Asset(character.originalImageBase64, character.originalImageMimeType || 'image/png');
+        }
+    }
+
+    return { ...item, assets };
+}
+
+// Stored entries that failed to load, e.g. a legacy item whose migration ran out of storage.
+// Every save writes them back as they were, so the next load tries them again.
+let unloadedEntries: any[] = [];
+
+export async function saveItems(items: SavedItem[]): Promise<void> {
+    await writeMetadata([...items.map(toMetadata), ...unloadedEntries]);
+}
+
+/**
+ * Persists the remaining items and deletes the assets that only the removed items referenced;
+ * anything the remaining items or the libraries still use is kept (see releaseAssets).
+ */
+export async function removeSavedItems(remaining: SavedItem[], removed: SavedItem[]): Promise<void> {
+    await saveItems(remaining);
+    await releaseAssets(removed.flatMap(getReferencedAssetIds));
+}
+
+// Older versions stored base64 media inline in the metadata and expired items after five days.
+// Such items are moved into the asset store the first time they are loaded.
+const migrateLegacyItem = async (item: any): Promise<SavedItem> => {
+    const migrated = await storeSavedItemAssets({
+        ...item,
+        videoState: { ...item.videoState, clips: (item.videoState?.clips ?? []).map((clip: any) => ({ ...clip, videoUrl: null })) },
+        savedAt: item.savedAt ?? (item.expiresAt ? item.expiresAt - LEGACY_LIFETIME_MS : Date.now()),
+    });
+    const { expiresAt, ...rest } = migrated as SavedItem & { expiresAt?: number };
+    return rest;
+};
+
+const hydrateItem = async (item: SavedItem): Promise<SavedItem> => {
+    const { assets } = item;
+    const clips = await Promise.all(item.videoState.clips.map(async (clip, index) => {
+        const clipAssets = assets.clips[index];
+        const videoBlob = clipAssets?.video ? await getAssetBlob(clipAssets.video) : null;
+        return {
+            ...clip,
+            id: clip.id ?? createClipId(),
+            // Without a stored video the scene view falls back to downloading from the videoObject.
+            videoUrl: videoBlob ? URL.createObjectURL(videoBlob) : null,
+            audioUrl: null,
+            audioBase64: clipAssets?.audio ? await getAssetBase64(clipAssets.audio) : null,
+        };
+    }));
+    const characters = await Promise.all(item.characters.map(async character => {
+        const assetId = assets.characterImages[character.id];
+        const originalImageBase64 = assetId ? await getAssetBase64(assetId) : null;
+        return { ...character, originalImageBase64 };
+    }));
+
+    return {
+        ...item,
+        // Media missing from this device (e.g. metadata synced from elsewhere) stays null.
+        scene: { ...item.scene, src: assets.image ? await getAssetBase64(assets.image) : null },
+        videoState: { ...item.videoState, clips },
+        characters,
+    };
+};
+
+export async function loadItems(): Promise<SavedItem[]> {
+    const stored = await readMetadata();
+    let needsRewrite = false;
+    const items: SavedItem[] = [];
+    unloadedEntries = [];
+    for (const entry of stored) {
+        try {
+            if (entry.assets) {
+                items.push(await hydrateItem(entry));
+            } else {
+                items.push(await migrateLegacyItem(entry));
+                needsRewrite = true;
+            }
+        } catch (error) {
+            console.warn(`Could not load saved item ${entry?.id}; it is kept for the next load:`, error);
+            unloadedEntries.push(entry);
+        }
+    }
+    if (needsRewrite) {
+        await saveItems(items);
+    }
+    return items;
+}
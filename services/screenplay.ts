@@ -0,0 +1,118 @@
+// The screenplay: a story broken into scenes with a heading, action lines, dialogue and shot
+// metadata. It is the single source the rest of a generation derives from: each scene's image
+// prompt, its voiceover script and its video direction are all built from it here.
+
+export type SceneSetting = 'INT' | 'EXT' | 'INT/EXT';
+
+export const SCENE_SETTINGS: SceneSetting[] = ['INT', 'EXT', 'INT/EXT'];
+
+export const SHOT_TYPES = [
+    'Establishing', 'Wide', 'Full', 'Medium', 'Medium Close-up', 'Close-up', 'Extreme Close-up', 'Over the Shoulder', 'Point of View',
+];
+
+// Clip lengths the video model can render, in seconds.
+export const SCENE_DURATIONS = [4, 6, 8];
+
+export const NARRATOR = 'Narrator';
+
+export type DialogueLine = {
+    speaker: string; // a character's name, or NARRATOR
+    text: string;
+    parenthetical: string; // delivery direction, e.g. "whispering"; may be empty
+};
+
+// One scene of a screenplay, edited before its image is rendered.
+export type ScriptScene = {
+    id: string;
+    setting: SceneSetting;
+    location: string;
+    timeOfDay: string;
+    description: string; // what the frame shows
+    action: string[];
+    dialogue: DialogueLine[];
+    characterIds: number[]; // characters marked as appearing in the scene
+    shotType: string; // one of SHOT_TYPES
+    cameraMovement: string; // one of CAMERA_MOVEMENTS, applied to the scene's video
+    durationSeconds: number; // one of SCENE_DURATIONS
+};
+
+export const createScriptScene = (changes: Partial<ScriptScene> = {}): ScriptScene => ({
+    id: `scene-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    setting: 'EXT',
+    location: '',
+    timeOfDay: 'DAY',
+    description: '',
+    action: [],
+    dialogue: [],
+    characterIds: [],
+    shotType: 'Medium',
+    cameraMovement: 'Static Hold',
+    durationSeconds: SCENE_DURATIONS[SCENE_DURATIONS.length - 1],
+    ...changes,
+});
+
+export const createDialogueLine = (speaker: string = NARRATOR): DialogueLine => ({ speaker, text: '', parenthetical: '' });
+
+/** The nearest duration the video model supports. */
+export const snapDuration = (seconds: number): number =>
+    SCENE_DURATIONS.reduce((best, duration) => Math.abs(duration - seconds) < Math.abs(best - seconds) ? duration : best);
+
+/** The scene heading as a screenplay would print it, e.g. "EXT. MARKET SQUARE - DAY". */
+export const formatSceneHeading = (scene: ScriptScene): string => {
+    const location = scene.location.trim().toUpperCase() || 'UNKNOWN LOCATION';
+    const timeOfDay = scene.timeOfDay.trim().toUpperCase();
+    return timeOfDay ? `${scene.setting}. ${location} - ${timeOfDay}` : `${scene.setting}. ${location}`;
+};
+
+/** The scene as an image prompt: the framing, where and when it happens, and what is visible. */
+export const buildSceneImagePrompt = (scene: ScriptScene): string => {
+    const place = scene.location.trim()
+        ? `${scene.setting === 'INT' ? 'Inside' : scene.setting === 'EXT' ? 'Outside at' : 'At'} ${scene.location.trim()}${scene.timeOfDay.trim() ? `, ${scene.timeOfDay.trim().toLowerCase()}` : ''}.`
+        : '';
+    const action = scene.action.map(line => line.trim()).filter(Boolean).join(' ');
+    return [`${scene.shotType} shot.`, place, scene.description.trim(), action].filter(Boolean).join(' ');
+};
+
+/** The action lines as direction for the scene's video. Empty when the scene has none. */
+export const buildSceneActionDirection = (scene: ScriptScene): string =>
+    scene.action.map(line => line.trim()).filter(Boolean).join(' ');
+
+/**
+ * The dialogue as a voiceover script, one "Speaker: line" per line, the format the speech
+ * service reads speakers from. Narration alone is written without the prefix, so the narrator
+ * doesn't read out their own name.
+ */
+export const formatDialogueScript = (scene: ScriptScene): string => {
+    const lines = scene.dialogue.filter(line => line.text.trim());
+    const narrationOnly = lines.every(line => line.speaker === NARRATOR);
+    return lines.map(line => {
+        const text = line.parenthetical.trim() ? `(${line.parenthetical.trim()}) ${line.text.trim()}` : line.text.trim();
+        return narrationOnly ? text : `${line.speaker}: ${text}`;
+    }).join('\n');
+};
+
+/**
+ * Reads a voiceover script back into lines, the reverse of formatDialogueScript. A line starting
+ * with "Name:" for one of `speakers` (or the narrator) is spoken by them, matched by the whole
+ * name, so names with punctuation or accents work. Any other line, "Chapter One: The market"
+ * included, is narration at the start of the script and continues the previous speaker after it. A leading "(direction)" becomes the line's parenthetical.
+ */
+export const parseDialogueScript = (script: string, speakers: string[]): DialogueLine[] => {
+    // Longest first, so "Ada Obi:" isn't taken for "Ada" followed by " Obi:".
+    const known = [NARRATOR, ...speakers]
+        .map(name => name.trim().normalize('NFC'))
+        .filter(Boolean)
+        .sort((a, b) => b.length - a.length);
+    let speaker = NARRATOR;
+    return script.split('\n').map(line => line.trim().normalize('NFC')).filter(Boolean).flatMap(line => {
+        let spoken = line;
+        const named = known.find(name => line[name.length] === ':' && line.slice(0, name.length).toLowerCase() === name.toLowerCase());
+        if (named) {
+            speaker = named;
+            spoken = line.slice(named.length + 1);
+        }
+        const direction = spoken.trim().match(/^\(([^)]*)\)\s*(.*)$/);
+        const text = (direction ? direction[2] : spoken).trim();
+        return text ? [{ speaker, text, parenthetical: direction ? direction[1].trim() : '' }] : [];
+    });
+};
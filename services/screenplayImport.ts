@@ -0,0 +1,213 @@
+// Imports screenplays written in Fountain (.fountain) or Final Draft (.fdx). Both formats are
+// read into the same list of screenplay elements, which is then assembled into ScriptScenes:
+// each scene heading starts a scene, action paragraphs become its description and action lines,
+// and dialogue blocks become its dialogue, spoken by the character's name.
+
+import { createScriptScene, NARRATOR, SceneSetting, ScriptScene } from "./screenplay";
+
+export type ImportedScreenplay = {
+    title: string;
+    scenes: ScriptScene[]; // characterIds are left empty; the caller maps speakers to characters
+    speakers: string[]; // every speaking role other than the narrator, in order of appearance
+};
+
+export const SCREENPLAY_FILE_EXTENSIONS = ['.fountain', '.fdx'];
+
+type ElementType = 'heading' | 'action' | 'character' | 'parenthetical' | 'dialogue';
+
+type ScreenplayElement = { type: ElementType; text: string };
+
+const HEADING_PATTERN = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]\s*(.*)$/i;
+
+// A character cue without its extensions and dual-dialogue mark: "ADA (V.O.) ^" -> "ADA".
+const cueName = (cue: string): string => cue.replace(/\^$/, '').replace(/\s*\([^)]*\)/g, '').trim();
+
+// Screenplays write names and places in capitals; "MAMA NKECHI" -> "Mama Nkechi".
+const fromCapitals = (text: string): string => text === text.toUpperCase()
+    ? text.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase())
+    : text;
+
+const parseHeading = (heading: string): Pick<ScriptScene, 'setting' | 'location' | 'timeOfDay'> => {
+    const withoutNumber = heading.replace(/\s*#[^#]*#\s*$/, '').trim();
+    const match = withoutNumber.match(HEADING_PATTERN);
+    const prefix = match?.[1].toUpperCase().replace('.', '') ?? '';
+    const setting: SceneSetting = prefix === 'INT' ? 'INT' : prefix === 'EXT' || prefix === 'EST' ? 'EXT' : match ? 'INT/EXT' : 'EXT';
+    const rest = match ? match[2] : withoutNumber;
+    const separator = rest.lastIndexOf(' - ');
+    return separator >= 0
+        ? { setting, location: fromCapitals(rest.slice(0, separator).trim()), timeOfDay: rest.slice(separator + 3).trim().toUpperCase() }
+        : { setting, location: fromCapitals(rest.trim()), timeOfDay: '' };
+};
+
+// "MAMA NKECHI (V.O.)" -> "Mama Nkechi"; the narrator keeps its own name.
+const speakerName = (cue: string): string => {
+    const name = cueName(cue);
+    return name.toUpperCase() === NARRATOR.toUpperCase() ? NARRATOR : fromCapitals(name);
+};
+
+const assembleScreenplay = (title: string, elements: ScreenplayElement[]): ImportedScreenplay => {
+    const scenes: ScriptScene[] = [];
+    const speakers: string[] = [];
+    let scene: ScriptScene | null = null;
+    let speaker = NARRATOR;
+    let parenthetical = '';
+
+    const currentScene = (): ScriptScene => {
+        if (!scene) {
+            scene = createScriptScene();
+            scenes.push(scene);
+        }
+        return scene;
+    };
+
+    for (const { type, text } of elements) {
+        if (type === 'heading') {
+            scene = createScriptScene(parseHeading(text));
+            scenes.push(scene);
+        } else if (type === 'action') {
+            // The first paragraph describes the frame; the rest is what happens in the clip.
+            const target = currentScene();
+            if (!target.description) target.description = text;
+            else target.action.push(text);
+        } else if (type === 'character') {
+            speaker = speakerName(text);
+            parenthetical = '';
+            if (speaker !== NARRATOR && !speakers.some(name => name.toLowerCase() === speaker.toLowerCase())) speakers.push(speaker);
+        } else if (type === 'parenthetical') {
+            parenthetical = text.replace(/^\(|\)$/g, '').trim();
+        } else {
+            currentScene().dialogue.push({ speaker, text, parenthetical });
+            parenthetical = '';
+        }
+    }
+    return { title, scenes, speakers };
+};
+
+// --- Fountain ---------------------------------------------------------------------------------
+
+const stripFountainMarkup = (text: string): string => text
+    .replace(/\/\*[\s\S]*?\*\//g, '') // boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, '') // notes
+    .replace(/(^|[^\\])[*_]+/gm, '$1') // emphasis, unless escaped
+    .replace(/\\([*_])/g, '$1');
+
+const isCharacterCue = (line: string): boolean => {
+    if (line.startsWith('@')) return true;
+    const name = cueName(line);
+    return /\p{L}/u.test(name) && name === name.toUpperCase() && !/TO:$/.test(name);
+};
+
+/** Parses Fountain text: https://fountain.io/syntax */
+export function parseFountain(source: string, fallbackTitle: string = 'Untitled'): ImportedScreenplay {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    let title = fallbackTitle;
+
+    // The title page is a block of "Key: value" lines at the very start.
+    let start = 0;
+    if (/^[A-Za-z][A-Za-z ]*:/.test(lines[0] ?? '')) {
+        while (start < lines.length && lines[start].trim() !== '') {
+            const titleMatch = lines[start].match(/^Title:\s*(.*)$/i);
+            if (titleMatch?.[1].trim()) title = stripFountainMarkup(titleMatch[1]).trim();
+            start++;
+        }
+    }
+
+    const body = stripFountainMarkup(lines.slice(start).join('\n')).split('\n');
+    const elements: ScreenplayElement[] = [];
+    let action: string[] = [];
+    const flushAction = () => {
+        if (action.length > 0) elements.push({ type: 'action', text: action.join(' ') });
+        action = [];
+    };
+
+    for (let i = 0; i < body.length; i++) {
+        const line = body[i].trim();
+        const previousBlank = i === 0 || body[i - 1].trim() === '';
+        const nextLine = body[i + 1]?.trim() ?? '';
+
+        if (!line) {
+            flushAction();
+            continue;
+        }
+        // Sections, synopses, page breaks, centered text, lyrics and transitions carry no scene content.
+        if (/^(#|=|~|>)/.test(line)) continue;
+        if (previousBlank && !nextLine && /^[^a-z]*TO:$/.test(line)) continue;
+
+        if (previousBlank && ((line.startsWith('.') && !line.startsWith('..')) || HEADING_PATTERN.test(line))) {
+            flushAction();
+            elements.push({ type: 'heading', text: line.startsWith('.') ? line.slice(1) : line });
+            continue;
+        }
+        if (previousBlank && nextLine && !line.startsWith('!') && isCharacterCue(line)) {
+            flushAction();
+            elements.push({ type: 'character', text: line.replace(/^@/, '') });
+            // The dialogue block runs to the next blank line.
+            let speech: string[] = [];
+            const flushSpeech = () => {
+                if (speech.length > 0) elements.push({ type: 'dialogue', text: speech.join(' ') });
+                speech = [];
+            };
+            while (i + 1 < body.length && body[i + 1].trim() !== '') {
+                const blockLine = body[++i].trim();
+                if (/^\(.*\)$/.test(blockLine)) {
+                    flushSpeech();
+                    elements.push({ type: 'parenthetical', text: blockLine });
+                } else {
+                    speech.push(blockLine);
+                }
+            }
+            flushSpeech();
+            continue;
+        }
+        action.push(line.replace(/^!/, ''));
+    }
+    flushAction();
+
+    return assembleScreenplay(title, elements);
+}
+
+// --- Final Draft ------------------------------------------------------------------------------
+
+const FDX_ELEMENT_TYPES: Record<string, ElementType> = {
+    'Scene Heading': 'heading',
+    'Action': 'action',
+    'General': 'action',
+    'Character': 'character',
+    'Parenthetical': 'parenthetical',
+    'Dialogue': 'dialogue',
+};
+
+/** Parses a Final Draft XML document. Paragraph types other than those above are skipped. */
+export function parseFinalDraft(source: string, fallbackTitle: string = 'Untitled'): ImportedScreenplay {
+    const document = new DOMParser().parseFromString(source, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0 || document.documentElement.nodeName !== 'FinalDraft') {
+        throw new Error("This file is not a valid Final Draft document.");
+    }
+
+    const elementsOf = (container: Element | null): ScreenplayElement[] => Array.from(container?.getElementsByTagName('Paragraph') ?? [])
+        .map(paragraph => ({
+            type: FDX_ELEMENT_TYPES[paragraph.getAttribute('Type') ?? ''],
+            // A paragraph's text may be split across several styled runs.
+            text: Array.from(paragraph.getElementsByTagName('Text')).map(run => run.textContent ?? '').join('').replace(/\s+/g, ' ').trim(),
+        }))
+        .filter((element): element is ScreenplayElement => !!element.type && !!element.text);
+
+    // The title page has a Content element of its own, so the script is the root's direct child.
+    const childOfRoot = (name: string) => Array.from(document.documentElement.children).find(child => child.nodeName === name) ?? null;
+    const titleElements = elementsOf(childOfRoot('TitlePage'));
+    const title = titleElements[0]?.text || fallbackTitle;
+    return assembleScreenplay(title, elementsOf(childOfRoot('Content')));
+}
+
+/** Reads a .fountain or .fdx file. */
+export async function importScreenplay(file: File): Promise<ImportedScreenplay> {
+    const name = file.name.toLowerCase();
+    const fallbackTitle = file.name.replace(/\.[^.]+$/, '');
+    const source = await file.text();
+    const screenplay = name.endsWith('.fdx') ? parseFinalDraft(source, fallbackTitle)
+        : name.endsWith('.fountain') ? parseFountain(source, fallbackTitle)
+        : null;
+    if (!screenplay) throw new Error("Screenplays can be imported from Fountain (.fountain) or Final Draft (.fdx) files.");
+    if (screenplay.scenes.length === 0) throw new Error("No scenes were found in this screenplay.");
+    return screenplay;
+}
@@ -0,0 +1,323 @@
+// Storyboard exports: every scene of a generation as a panel with its number, heading, prompt,
+// voiceover script, camera movement and image, written as a printable PDF, as a ZIP of
+// numbered PNGs with a JSON manifest, or as an EDL or FCPXML sequence of those PNGs so editors
+// can cut an animatic in their NLE before any video is rendered. Panel image files are named
+// the same way in every format, so the EDL and FCPXML relink to the ZIP's images.
+
+import { GenerationItem } from "../types";
+import { formatSceneHeading } from "./screenplay";
+import { base64ToBytes } from "../utils/fileUtils";
+import { createPdf, PdfPage } from "../utils/pdfUtils";
+import { DEFAULT_CLIP_SECONDS } from "../utils/timelineUtils";
+import { createZip, ZipEntry } from "../utils/zipUtils";
+
+export type StoryboardPanel = {
+    number: string; // "3" for a scene, "3B" for its second extra camera angle
+    sceneIndex: number;
+    fileName: string | null; // null when the scene has no image
+    heading: string | null; // from the screenplay, when the scene came from one
+    prompt: string;
+    dialogue: string;
+    cameraMovement: string;
+    durationSeconds: number;
+    characters: string[];
+    src: string | null;
+};
+
+export type StoryboardExportFormat = 'pdf' | 'zip' | 'edl' | 'fcpxml';
+
+export const STORYBOARD_EXPORT_FORMATS: { format: StoryboardExportFormat; label: string; extension: string }[] = [
+    { format: 'pdf', label: 'Printable PDF', extension: '.pdf' },
+    { format: 'zip', label: 'PNGs + JSON manifest (ZIP)', extension: '.zip' },
+    { format: 'edl', label: 'EDL (CMX 3600)', extension: '.edl' },
+    { format: 'fcpxml', label: 'Final Cut Pro XML', extension: '.fcpxml' },
+];
+
+const MANIFEST_FORMAT = 'storyweaver-storyboard';
+const MANIFEST_VERSION = 1;
+const FRAME_RATE = 24;
+
+/** The generation's scenes in storyboard order, each camera angle following its scene. */
+export function buildStoryboardPanels(item: GenerationItem): StoryboardPanel[] {
+    const rootNumbers = new Map<number, number>();
+    const angleCounts = new Map<number, number>();
+    item.imageSet.forEach((scene, index) => {
+        if (scene.isCameraAngleFor === undefined) rootNumbers.set(index, rootNumbers.size + 1);
+    });
+
+    const order = item.imageSet
+        .map((scene, index) => ({ scene, index }))
+        .filter(({ scene }) => scene.isCameraAngleFor === undefined)
+        .flatMap(root => [root, ...item.imageSet
+            .map((scene, index) => ({ scene, index }))
+            .filter(({ scene }) => scene.isCameraAngleFor === root.index)]);
+
+    return order.map(({ scene, index }) => {
+        let number: string;
+        if (scene.isCameraAngleFor === undefined) {
+            number = String(rootNumbers.get(index));
+        } else {
+            const angle = (angleCounts.get(scene.isCameraAngleFor) ?? 0) + 1;
+            angleCounts.set(scene.isCameraAngleFor, angle);
+            number = `${rootNumbers.get(scene.isCameraAngleFor) ?? '?'}${String.fromCharCode(64 + Math.min(angle, 26))}`;
+        }
+        const scriptScene = item.script?.find(entry => entry.id === scene.scriptSceneId);
+        const videoState = item.videoStates[index];
+        const characterIds = scene.characterIds ?? scriptScene?.characterIds;
+        return {
+            number,
+            sceneIndex: index,
+            fileName: scene.src ? `scene-${number.replace(/^\d+/, digits => digits.padStart(2, '0'))}.png` : null,
+            heading: scriptScene ? formatSceneHeading(scriptScene) : null,
+            prompt: scene.prompt,
+            dialogue: videoState?.scriptPrompt ?? '',
+            cameraMovement: videoState?.cameraMovement ?? scriptScene?.cameraMovement ?? 'Static Hold',
+            durationSeconds: scriptScene?.durationSeconds ?? DEFAULT_CLIP_SECONDS,
+            characters: item.characters.filter(c => c.name && characterIds?.includes(c.id)).map(c => c.name),
+            src: scene.src,
+        };
+    });
+}
+
+const storyboardTitle = (item: GenerationItem): string => item.prompt.trim().split('\n')[0].slice(0, 80) || 'Storyboard';
+
+// --- PDF --------------------------------------------------------------------------------------
+
+// A4 landscape, drawn at twice its size in points for print sharpness.
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const PAGE_SCALE = 2;
+const PAGE_MARGIN = 28;
+const HEADER_HEIGHT = 30;
+const PANEL_GAP = 16;
+const PANEL_COLUMNS = 3;
+const PANEL_ROWS = 2;
+const FONT = 'Helvetica, Arial, sans-serif';
+
+const loadImage = (base64: string): Promise<ImageBitmap> =>
+    createImageBitmap(new Blob([base64ToBytes(base64)], { type: 'image/png' }));
+
+// Draws `text` wrapped to `width`, at most `maxLines` lines, ending in an ellipsis when cut short.
+// Returns the y position below the last line.
+const drawWrapped = (context: CanvasRenderingContext2D, text: string, x: number, y: number, width: number, lineHeight: number, maxLines: number): number => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (context.measureText(candidate).width > width && line) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    const shown = lines.slice(0, maxLines);
+    if (lines.length > maxLines) {
+        let last = shown[maxLines - 1];
+        while (last && context.measureText(`${last}…`).width > width) last = last.slice(0, -1);
+        shown[maxLines - 1] = `${last}…`;
+    }
+    shown.forEach((line, index) => context.fillText(line, x, y + index * lineHeight));
+    return y + shown.length * lineHeight;
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+    canvas.toBlob(async blob => {
+        if (!blob) return reject(new Error("The page could not be rendered."));
+        resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, 'image/jpeg', 0.9);
+});
+
+export async function exportStoryboardPdf(item: GenerationItem, onProgress?: (message: string) => void): Promise<Blob> {
+    const panels = buildStoryboardPanels(item);
+    const perPage = PANEL_COLUMNS * PANEL_ROWS;
+    const pageCount = Math.max(1, Math.ceil(panels.length / perPage));
+    const title = storyboardTitle(item);
+    const cellWidth = (PAGE_WIDTH - PAGE_MARGIN * 2 - PANEL_GAP * (PANEL_COLUMNS - 1)) / PANEL_COLUMNS;
+    const cellHeight = (PAGE_HEIGHT - PAGE_MARGIN * 2 - HEADER_HEIGHT - PANEL_GAP * (PANEL_ROWS - 1)) / PANEL_ROWS;
+    const imageHeight = cellHeight * 0.55;
+    const pages: PdfPage[] = [];
+
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+        onProgress?.(`Laying out page ${pageIndex + 1} of ${pageCount}...`);
+        const canvas = document.createElement('canvas');
+        canvas.width = PAGE_WIDTH * PAGE_SCALE;
+        canvas.height = PAGE_HEIGHT * PAGE_SCALE;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("This browser cannot render the storyboard PDF.");
+        context.scale(PAGE_SCALE, PAGE_SCALE);
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+        context.textBaseline = 'top';
+
+        context.fillStyle = '#111827';
+        context.font = `bold 14px ${FONT}`;
+        drawWrapped(context, title, PAGE_MARGIN, PAGE_MARGIN, PAGE_WIDTH - PAGE_MARGIN * 2 - 120, 16, 1);
+        context.font = `10px ${FONT}`;
+        context.fillStyle = '#6b7280';
+        const pageLabel = `${item.imageStyle} · ${item.aspectRatio} · Page ${pageIndex + 1}/${pageCount}`;
+        context.fillText(pageLabel, PAGE_WIDTH - PAGE_MARGIN - context.measureText(pageLabel).width, PAGE_MARGIN + 3);
+
+        const pagePanels = panels.slice(pageIndex * perPage, (pageIndex + 1) * perPage);
+        for (const [slot, panel] of pagePanels.entries()) {
+            const x = PAGE_MARGIN + (slot % PANEL_COLUMNS) * (cellWidth + PANEL_GAP);
+            const y = PAGE_MARGIN + HEADER_HEIGHT + Math.floor(slot / PANEL_COLUMNS) * (cellHeight + PANEL_GAP);
+
+            context.fillStyle = '#e5e7eb';
+            context.fillRect(x, y, cellWidth, imageHeight);
+            if (panel.src) {
+                const image = await loadImage(panel.src);
+                const scale = Math.min(cellWidth / image.width, imageHeight / image.height);
+                const width = image.width * scale;
+                const height = image.height * scale;
+                context.drawImage(image, x + (cellWidth - width) / 2, y + (imageHeight - height) / 2, width, height);
+                image.close();
+            } else {
+                context.fillStyle = '#9ca3af';
+                context.font = `10px ${FONT}`;
+                context.fillText('No image', x + 6, y + 6);
+            }
+            context.strokeStyle = '#9ca3af';
+            context.lineWidth = 0.5;
+            context.strokeRect(x, y, cellWidth, imageHeight);
+
+            let textY = y + imageHeight + 5;
+            context.fillStyle = '#111827';
+            context.font = `bold 10px ${FONT}`;
+            textY = drawWrapped(context, `${panel.number}. ${panel.heading ?? ''}`.trim(), x, textY, cellWidth, 12, 1);
+            context.fillStyle = '#4b5563';
+            context.font = `8px ${FONT}`;
+            textY = drawWrapped(context, `${panel.cameraMovement} · ${panel.durationSeconds}s${panel.characters.length > 0 ? ` · ${panel.characters.join(', ')}` : ''}`, x, textY + 1, cellWidth, 10, 1);
+            context.fillStyle = '#1f2937';
+            textY = drawWrapped(context, panel.prompt, x, textY + 2, cellWidth, 10, 4);
+            if (panel.dialogue.trim()) {
+                context.font = `italic 8px ${FONT}`;
+                context.fillStyle = '#374151';
+                drawWrapped(context, panel.dialogue, x, textY + 3, cellWidth, 10, 4);
+            }
+        }
+
+        pages.push({ width: PAGE_WIDTH, height: PAGE_HEIGHT, jpeg: await canvasToJpeg(canvas), pixelWidth: canvas.width, pixelHeight: canvas.height });
+    }
+    return createPdf(pages);
+}
+
+// --- Sequences --------------------------------------------------------------------------------
+
+const FRAME_SIZES: Record<string, { width: number; height: number }> = {
+    '16:9': { width: 1920, height: 1080 },
+    '9:16': { width: 1080, height: 1920 },
+    '1:1': { width: 1080, height: 1080 },
+    '4:3': { width: 1440, height: 1080 },
+    '3:4': { width: 1080, height: 1440 },
+};
+
+const toTimecode = (frames: number): string => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const seconds = Math.floor(frames / FRAME_RATE);
+    return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}:${pad(frames % FRAME_RATE)}`;
+};
+
+// Sequences need media, so panels without an image are left out.
+const sequencePanels = (item: GenerationItem) => buildStoryboardPanels(item).filter(panel => panel.fileName);
+
+/** A CMX 3600 edit decision list placing each panel image for its scene's duration. */
+export function exportStoryboardEdl(item: GenerationItem): string {
+    // Records start at the conventional one hour mark.
+    let recordFrame = FRAME_RATE * 3600;
+    const events = sequencePanels(item).map((panel, index) => {
+        const frames = Math.round(panel.durationSeconds * FRAME_RATE);
+        const event = [
+            `${String(index + 1).padStart(3, '0')}  AX       V     C        ${toTimecode(0)} ${toTimecode(frames)} ${toTimecode(recordFrame)} ${toTimecode(recordFrame + frames)}`,
+            `* FROM CLIP NAME: ${panel.fileName}`,
+            `* COMMENT: SCENE ${panel.number} - ${panel.cameraMovement.toUpperCase()}`,
+        ].join('\n');
+        recordFrame += frames;
+        return event;
+    });
+    const title = storyboardTitle(item).replace(/[^\x20-\x7e]/g, '').slice(0, 60);
+    return `TITLE: ${title}\nFCM: NON-DROP FRAME\n\n${events.join('\n\n')}\n`;
+}
+
+const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/** An FCPXML 1.8 project with one still per panel; its media paths are relative to the file. */
+export function exportStoryboardFcpxml(item: GenerationItem): string {
+    const panels = sequencePanels(item);
+    const { width, height } = FRAME_SIZES[item.aspectRatio] ?? FRAME_SIZES['16:9'];
+    const time = (frames: number) => `${frames * 100}/${FRAME_RATE * 100}s`;
+    const title = escapeXml(storyboardTitle(item));
+
+    let offset = 0;
+    const assets: string[] = [];
+    const clips: string[] = [];
+    panels.forEach((panel, index) => {
+        const frames = Math.round(panel.durationSeconds * FRAME_RATE);
+        const assetId = `a${index + 1}`;
+        assets.push(`        <asset id="${assetId}" name="${escapeXml(panel.fileName!)}" src="./${escapeXml(panel.fileName!)}" start="0s" duration="0s" hasVideo="1" format="r2"/>`);
+        const note = [panel.prompt, panel.dialogue].filter(text => text.trim()).join('\n\n');
+        clips.push(`                        <video ref="${assetId}" offset="${time(offset)}" name="Scene ${escapeXml(panel.number)}" start="0s" duration="${time(frames)}">\n                            <note>${escapeXml(note)}</note>\n                        </video>`);
+        offset += frames;
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.8">
+    <resources>
+        <format id="r1" frameDuration="100/${FRAME_RATE * 100}s" width="${width}" height="${height}"/>
+        <format id="r2" name="FFVideoFormatRateUndefined" width="${width}" height="${height}"/>
+${assets.join('\n')}
+    </resources>
+    <library>
+        <event name="${title}">
+            <project name="${title}">
+                <sequence format="r1" duration="${time(offset)}" tcStart="0s" tcFormat="NDF">
+                    <spine>
+${clips.join('\n')}
+                    </spine>
+                </sequence>
+            </project>
+        </event>
+    </library>
+</fcpxml>
+`;
+}
+
+// --- ZIP --------------------------------------------------------------------------------------
+
+/** The panel images as numbered PNGs, with a JSON manifest and both sequence formats. */
+export function exportStoryboardZip(item: GenerationItem): Blob {
+    const encoder = new TextEncoder();
+    const panels = buildStoryboardPanels(item);
+    const manifest = {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        title: storyboardTitle(item),
+        prompt: item.prompt,
+        aspectRatio: item.aspectRatio,
+        imageStyle: item.imageStyle,
+        genre: item.genre,
+        exportedAt: new Date().toISOString(),
+        panels: panels.map(({ src, ...panel }) => panel),
+    };
+    const entries: ZipEntry[] = [
+        ...panels.filter(panel => panel.fileName && panel.src).map(panel => ({ name: panel.fileName!, data: base64ToBytes(panel.src!) })),
+        { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+        { name: 'storyboard.edl', data: encoder.encode(exportStoryboardEdl(item)) },
+        { name: 'storyboard.fcpxml', data: encoder.encode(exportStoryboardFcpxml(item)) },
+    ];
+    return createZip(entries);
+}
+
+export async function exportStoryboard(item: GenerationItem, format: StoryboardExportFormat, onProgress?: (message: string) => void): Promise<Blob> {
+    switch (format) {
+        case 'pdf': return exportStoryboardPdf(item, onProgress);
+        case 'zip': return exportStoryboardZip(item);
+        case 'edl': return new Blob([exportStoryboardEdl(item)], { type: 'text/plain' });
+        case 'fcpxml': return new Blob([exportStoryboardFcpxml(item)], { type: 'application/xml' });
+    }
+}
@@ -0,0 +1,259 @@
+// The style library: named art styles with a full prompt guide, negative guidance, sample
+// reference images and narration preferences. Generations refer to their style by name, and
+// every service call that renders or voices a scene resolves that name here, so images, edits,
+// videos and voiceovers all follow the same definition.
+
+import { Part } from "@google/genai";
+import { getAssetBase64, putBase64Asset, registerAssetReferences, releaseAssets } from "./assetStore";
+
+export type StyleReferenceImage = {
+    assetId: string; // id in the asset store
+    mimeType: string;
+};
+
+export type StyleDefinition = {
+    id: string;
+    name: string; // unique; stored on generations as their imageStyle
+    promptGuide: string;
+    negativeGuidance: string;
+    referenceImages: StyleReferenceImage[];
+    ttsVoice: string | null; // preferred voice for narration; null keeps the automatic choice
+    speechDirection: string; // how the narrator should speak, prefixed to single-speaker scripts
+    builtIn: boolean;
+};
+
+// Gemini's prebuilt voices and their character. The first five come first so that automatic
+// voice choices made before the rest were offered stay the same.
+export const TTS_VOICE_TONES: Record<string, string> = {
+    Kore: 'Firm', Puck: 'Upbeat', Zephyr: 'Bright', Charon: 'Informative', Fenrir: 'Excitable',
+    Leda: 'Youthful', Orus: 'Firm', Aoede: 'Breezy', Callirrhoe: 'Easy-going', Autonoe: 'Bright',
+    Enceladus: 'Breathy', Iapetus: 'Clear', Umbriel: 'Easy-going', Algieba: 'Smooth', Despina: 'Smooth',
+    Erinome: 'Clear', Algenib: 'Gravelly', Rasalgethi: 'Informative', Laomedeia: 'Upbeat', Achernar: 'Soft',
+    Alnilam: 'Firm', Schedar: 'Even', Gacrux: 'Mature', Pulcherrima: 'Forward', Achird: 'Friendly',
+    Zubenelgenubi: 'Casual', Vindemiatrix: 'Gentle', Sadachbia: 'Lively', Sadaltager: 'Knowledgeable', Sulafat: 'Warm',
+};
+
+export const TTS_VOICES = Object.keys(TTS_VOICE_TONES);
+
+export const DEFAULT_NARRATOR_VOICE = 'Kore';
+
+const DEFAULT_SPEECH_DIRECTION = 'Say with a clear and engaging voice:';
+
+const builtInStyle = (name: string, changes: Partial<StyleDefinition> = {}): StyleDefinition => ({
+    id: `builtin-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
+    name,
+    promptGuide: `In the style of ${name}.`,
+    negativeGuidance: '',
+    referenceImages: [],
+    ttsVoice: null,
+    speechDirection: DEFAULT_SPEECH_DIRECTION,
+    builtIn: true,
+    ...changes,
+});
+
+export const BUILT_IN_STYLES: StyleDefinition[] = [
+    builtInStyle('Nigerian Cartoon', {
+        promptGuide: 'A vibrant 2D cartoon style inspired by Nigerian art. Characters are drawn as caricatures with expressive faces and large heads. They wear colorful traditional Nigerian attire like agbada, kaftans, or gele. The art uses bold, clean outlines and a simple, flat color palette, creating a lively and humorous feel.',
+        negativeGuidance: 'Realistic rendering, 3D effects.',
+        speechDirection: 'You are a Nigerian voice actor. Speak the following text in a lively and authentic Nigerian Pidgin English accent:',
+    }),
+    builtInStyle('Cartoon (Big Head)', {
+        promptGuide: 'A funny 2D vector art cartoon in an Adobe Illustrator style. Characters have exaggerated proportions: a very large head, a tiny waist, and small legs. Use bold outlines and flat colors.',
+        negativeGuidance: '3D effects, shadows, gradients.',
+    }),
+    ...[
+        "Illustration", "3D Render", "Realistic Photo", "Oil Painting", "Pixel Art", "2D Flat", "Anime", "Clip Art",
+        "Video Game", "Pastel Sketch", "Dark Fantasy", "Cyberpunk", "Steampunk", "Watercolor", "Art Nouveau",
+    ].map(name => builtInStyle(name)),
+];
+
+const STORAGE_KEY = 'storyWeaverStyles';
+const EXPORT_FORMAT = 'storyweaver-styles';
+const EXPORT_VERSION = 1;
+
+const readStoredStyles = (): StyleDefinition[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed: StyleDefinition[] = JSON.parse(stored);
+            // Built-ins added in later versions appear even when the library was saved before.
+            const missing = BUILT_IN_STYLES.filter(style => !parsed.some(existing => existing.id === style.id));
+            return [...parsed, ...missing];
+        }
+    } catch (error) {
+        console.warn("Could not read the stored style library:", error);
+    }
+    return BUILT_IN_STYLES;
+};
+
+let styles: StyleDefinition[] = readStoredStyles();
+// Reference image data by asset id, filled by loadStyleReferenceImages so prompts can be built
+// synchronously.
+const referenceImageCache = new Map<string, string>();
+
+const getReferenceAssetIds = (list: StyleDefinition[]) => list.flatMap(style => style.referenceImages.map(image => image.assetId));
+
+registerAssetReferences(() => getReferenceAssetIds(styles));
+
+// Writes the styles and releases the reference images that `previous` had and they no longer do.
+const persist = (previous: StyleDefinition[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(styles));
+    } catch (error) {
+        console.warn("Could not persist the style library:", error);
+    }
+    releaseAssets(getReferenceAssetIds(previous)).catch(error => {
+        console.warn("Could not delete unused style reference images:", error);
+    });
+};
+
+export const listStyles = (): StyleDefinition[] => styles;
+
+/** The definition for a style name. Unknown names, such as deleted styles, get a generic guide. */
+export const getStyle = (name: string): StyleDefinition =>
+    styles.find(style => style.name === name) ?? builtInStyle(name, { id: `unknown-${name}`, builtIn: false });
+
+/** The voice the style's narration is spoken in. Characters are cast other voices where possible. */
+export const getNarratorVoice = (name: string): string => getStyle(name).ttsVoice ?? DEFAULT_NARRATOR_VOICE;
+
+export async function loadStyleReferenceImages(): Promise<void> {
+    const ids = getReferenceAssetIds(styles).filter(id => !referenceImageCache.has(id));
+    await Promise.all(ids.map(async id => {
+        const data = await getAssetBase64(id);
+        if (data) referenceImageCache.set(id, data);
+    }));
+}
+
+export const getStyleReferenceImageData = (image: StyleReferenceImage): string | null => referenceImageCache.get(image.assetId) ?? null;
+
+export const saveStyle = (style: StyleDefinition) => {
+    const name = style.name.trim();
+    if (!name) throw new Error("A style needs a name.");
+    if (styles.some(existing => existing.id !== style.id && existing.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error(`There is already a style named "${name}".`);
+    }
+    const saved = { ...style, name };
+    const previous = styles;
+    styles = styles.some(existing => existing.id === style.id)
+        ? styles.map(existing => existing.id === style.id ? saved : existing)
+        : [...styles, saved];
+    persist(previous);
+};
+
+const uniqueName = (name: string) => {
+    let candidate = name;
+    for (let copy = 2; styles.some(style => style.name.toLowerCase() === candidate.toLowerCase()); copy++) {
+        candidate = `${name} (${copy})`;
+    }
+    return candidate;
+};
+
+export const createStyle = (base?: StyleDefinition): StyleDefinition => {
+    const style: StyleDefinition = {
+        ...(base ?? builtInStyle('New Style')),
+        id: `style-${Date.now()}`,
+        name: uniqueName(base ? `${base.name} (copy)` : 'New Style'),
+        builtIn: false,
+    };
+    saveStyle(style);
+    return style;
+};
+
+// Built-in styles can be edited and reset, but not deleted.
+export const deleteStyle = (id: string) => {
+    const previous = styles;
+    styles = styles.filter(style => style.id !== id || style.builtIn);
+    persist(previous);
+};
+
+export const resetStyle = (id: string) => {
+    const original = BUILT_IN_STYLES.find(style => style.id === id);
+    if (!original) return;
+    const previous = styles;
+    styles = styles.map(style => style.id === id ? original : style);
+    persist(previous);
+};
+
+export async function addStyleReferenceImage(style: StyleDefinition, base64: string, mimeType: string): Promise<StyleDefinition> {
+    const assetId = await putBase64Asset(base64, mimeType);
+    referenceImageCache.set(assetId, base64);
+    const updated = { ...style, referenceImages: [...style.referenceImages, { assetId, mimeType }] };
+    saveStyle(updated);
+    return updated;
+}
+
+// --- Import and export ------------------------------------------------------------------------
+
+type ExportedStyle = Omit<StyleDefinition, 'referenceImages' | 'builtIn'> & {
+    referenceImages: { mimeType: string; data: string }[];
+};
+
+/** Serialises styles with their reference images inline, for sharing between machines. */
+export function exportStyles(ids: string[]): Blob {
+    const exported: ExportedStyle[] = styles.filter(style => ids.includes(style.id)).map(({ builtIn, referenceImages, ...style }) => ({
+        ...style,
+        referenceImages: referenceImages
+            .map(image => ({ mimeType: image.mimeType, data: getStyleReferenceImageData(image) }))
+            .filter((image): image is { mimeType: string; data: string } => image.data !== null),
+    }));
+    return new Blob([JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, styles: exported }, null, 2)], { type: 'application/json' });
+}
+
+/** Adds the styles in an exported file to the library, renaming any that clash. Returns how many were added. */
+export async function importStyles(file: File): Promise<number> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error("The style file is not valid JSON.");
+    }
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.styles)) {
+        throw new Error("This file is not a Story Weaver style export.");
+    }
+    if (parsed.version > EXPORT_VERSION) {
+        throw new Error("This style file was exported by a newer version of Story Weaver.");
+    }
+
+    for (const [index, imported] of (parsed.styles as ExportedStyle[]).entries()) {
+        const referenceImages: StyleReferenceImage[] = [];
+        for (const image of imported.referenceImages ?? []) {
+            const assetId = await putBase64Asset(image.data, image.mimeType);
+            referenceImageCache.set(assetId, image.data);
+            referenceImages.push({ assetId, mimeType: image.mimeType });
+        }
+        saveStyle({
+            ...builtInStyle(imported.name),
+            ...imported,
+            id: `style-${Date.now()}-${index}`,
+            name: uniqueName(imported.name),
+            referenceImages,
+            builtIn: false,
+        });
+    }
+    return parsed.styles.length;
+}
+
+// --- Prompt fragments -------------------------------------------------------------------------
+
+/** The style guide as prompt text, with the negative guidance when there is any. */
+export const buildStyleInstructions = (style: StyleDefinition): string => {
+    const avoid = style.negativeGuidance.trim();
+    return avoid ? `${style.promptGuide.trim()} Avoid: ${avoid}` : style.promptGuide.trim();
+};
+
+/**
+ * The style's loaded reference images as inlineData parts, introduced by a text part that
+ * tells the model to take only the style from them. Empty when the style has none. At most
+ * `maxImages` images are included, for requests that also carry character references.
+ */
+export const buildStyleReferenceParts = (style: StyleDefinition, maxImages = Infinity): Part[] => {
+    const images = style.referenceImages
+        .map(image => ({ mimeType: image.mimeType, data: getStyleReferenceImageData(image) }))
+        .filter((image): image is { mimeType: string; data: string } => image.data !== null)
+        .slice(0, Math.max(0, maxImages));
+    if (images.length === 0) return [];
+    return [
+        { text: `**STYLE REFERENCE IMAGES:** The next ${images.length} image(s) show the "${style.name}" art style. Match their rendering, palette, line work and texture. Do NOT copy their content, characters or composition.` },
+        ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+    ];
+};
@@ -0,0 +1,62 @@
+// Speaker-labelled transcripts of uploaded audio. The transcription model labels each speaker,
+// by name when the recording gives it away and as "Speaker 1", "Speaker 2"... otherwise; the user
+// maps each label to a cast member. A mapped transcript can then stand in for a screenplay's
+// dialogue in two ways: as a script the cast's own voices read again, or as the recording
+// itself, cut into clips with each line lip-synced to the character who speaks it.
+
+import { Character, RenderedDialogue } from "./geminiService";
+import { createScriptScene, formatDialogueScript, NARRATOR } from "./screenplay";
+import { bytesToBase64 } from "../utils/fileUtils";
+import { pcmToWav } from "../utils/wavUtils";
+
+export type TranscriptSegment = {
+    speaker: string; // the label the transcription gave the speaker
+    text: string;
+    startSeconds: number;
+    endSeconds: number;
+};
+
+export type Transcript = {
+    text: string; // the whole transcript as plain text
+    speakers: string[]; // every speaker label, in order of first appearance
+    segments: TranscriptSegment[];
+};
+
+// Speaker label -> the id of the character who speaks those lines; null leaves them to the narrator.
+export type SpeakerMap = Record<string, number | null>;
+
+/** Maps every speaker the transcription labelled with a character's name to that character. */
+export const guessSpeakerMap = (transcript: Transcript, characters: Character[]): SpeakerMap =>
+    Object.fromEntries(transcript.speakers.map(speaker => {
+        const label = speaker.trim().toLowerCase();
+        return [speaker, characters.find(c => c.name.trim() && c.name.trim().toLowerCase() === label)?.id ?? null];
+    }));
+
+/** The characters the map assigns lines to, in order of first appearance. */
+export const mappedCharacters = (transcript: Transcript, speakerMap: SpeakerMap, characters: Character[]): Character[] =>
+    transcript.speakers
+        .map(speaker => characters.find(c => c.id === speakerMap[speaker]))
+        .filter((character, index, all): character is Character => !!character && all.indexOf(character) === index);
+
+const speakerName = (speaker: string, speakerMap: SpeakerMap, characters: Character[]): string =>
+    characters.find(c => c.id === speakerMap[speaker])?.name.trim() || NARRATOR;
+
+/** The transcript as a voiceover script in renderDialogue's "Speaker: line" format. */
+export const formatTranscriptScript = (transcript: Transcript, speakerMap: SpeakerMap, characters: Character[]): string =>
+    formatDialogueScript(createScriptScene({
+        dialogue: transcript.segments.map(segment => ({ speaker: speakerName(segment.speaker, speakerMap, characters), text: segment.text, parenthetical: '' })),
+    }));
+
+/**
+ * The recording as a rendered voiceover, so it can be split into clips like a voiced script.
+ * `pcm` is the decoded recording (see decodeToPcm); each segment becomes a line timing.
+ */
+export const transcriptToDialogue = (pcm: Uint8Array, transcript: Transcript, speakerMap: SpeakerMap, characters: Character[]): RenderedDialogue => ({
+    audioBase64: bytesToBase64(pcmToWav(pcm)),
+    timings: transcript.segments.map(segment => ({
+        speaker: speakerName(segment.speaker, speakerMap, characters),
+        text: segment.text,
+        startSeconds: segment.startSeconds,
+        endSeconds: segment.endSeconds,
+    })),
+});
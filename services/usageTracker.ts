@@ -0,0 +1,252 @@
+// Meters every model call made through geminiService so a storyboard's cost is visible. Calls
+// are recorded per attempt, so retries show up as the extra calls they are; costs are estimated
+// from the recorded sizes with an editable price table, which applies retroactively.
+
+import { Part } from "@google/genai";
+import { MediaProvider } from "./providers";
+import { DEFAULT_CLIP_SECONDS } from "../utils/timelineUtils";
+
+export type UsageRecord = {
+    id: number;
+    timestamp: number;
+    model: string;
+    operation: string; // the job label, e.g. "Scene 2 image"
+    usageKey: string | null; // id of the generation or uploaded item the call belongs to
+    succeeded: boolean;
+    inputChars: number;
+    inputImages: number;
+    inputBytes: number; // decoded size of inline media sent with the request
+    outputChars: number;
+    outputImages: number;
+    outputAudioBytes: number;
+    videoSeconds: number;
+};
+
+export type ModelPrice = {
+    perRequest: number;
+    perImage: number; // per generated image
+    perVideoSecond: number;
+    perMillionInputTokens: number;
+    perMillionOutputTokens: number;
+};
+
+export type BudgetMode = 'warn' | 'block';
+
+export type UsageSettings = {
+    prices: Record<string, ModelPrice>;
+    sessionBudget: number | null; // USD; null means no budget
+    budgetMode: BudgetMode;
+};
+
+export type UsageTotals = {
+    calls: number;
+    failedCalls: number;
+    cost: number;
+};
+
+const price = (changes: Partial<ModelPrice>): ModelPrice => ({
+    perRequest: 0,
+    perImage: 0,
+    perVideoSecond: 0,
+    perMillionInputTokens: 0,
+    perMillionOutputTokens: 0,
+    ...changes,
+});
+
+// Published list prices in USD at the time of writing; edit them in the settings to match your plan.
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+    prices: {
+        'gemini-2.5-pro': price({ perMillionInputTokens: 1.25, perMillionOutputTokens: 10 }),
+        'gemini-2.5-flash-image': price({ perMillionInputTokens: 0.3, perImage: 0.039 }),
+        'imagen-4.0-generate-001': price({ perImage: 0.04 }),
+        'gemini-2.5-flash-preview-tts': price({ perMillionInputTokens: 0.5, perMillionOutputTokens: 10 }),
+        'veo-3.1-fast-generate-preview': price({ perVideoSecond: 0.15 }),
+        'veo-3.1-generate-preview': price({ perVideoSecond: 0.4 }),
+    },
+    sessionBudget: null,
+    budgetMode: 'warn',
+};
+
+const SETTINGS_KEY = 'storyWeaverUsageSettings';
+const RECORDS_KEY = 'storyWeaverUsage';
+const MAX_RECORDS = 2000;
+
+// Token counts are estimated: about four characters of text per token, a flat count per input
+// image, and 25 tokens per second of 24 kHz 16-bit speech.
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_INPUT_IMAGE = 258;
+const SPEECH_BYTES_PER_SECOND = 48000;
+const SPEECH_TOKENS_PER_SECOND = 25;
+
+const readStored = <T>(key: string, fallback: T, description: string): T => {
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored) return JSON.parse(stored);
+    } catch (error) {
+        console.warn(`Could not read the stored ${description}:`, error);
+    }
+    return fallback;
+};
+
+const writeStored = (key: string, value: unknown, description: string) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+        console.warn(`Could not persist the ${description}:`, error);
+    }
+};
+
+const storedSettings = readStored<Partial<UsageSettings>>(SETTINGS_KEY, {}, 'usage settings');
+let settings: UsageSettings = {
+    ...DEFAULT_USAGE_SETTINGS,
+    ...storedSettings,
+    prices: { ...DEFAULT_USAGE_SETTINGS.prices, ...storedSettings.prices },
+};
+let records: UsageRecord[] = readStored<UsageRecord[]>(RECORDS_KEY, [], 'usage records');
+let sessionStartedAt = Date.now();
+let nextRecordId = records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+
+const listeners = new Set<() => void>();
+const emit = () => listeners.forEach(listener => listener());
+
+export const getUsageSettings = (): UsageSettings => settings;
+
+export const updateUsageSettings = (changes: Partial<UsageSettings>) => {
+    settings = { ...settings, ...changes };
+    writeStored(SETTINGS_KEY, settings, 'usage settings');
+    emit();
+};
+
+export const getUsageRecords = (): UsageRecord[] => records;
+
+export const getSessionRecords = (): UsageRecord[] => records.filter(record => record.timestamp >= sessionStartedAt);
+
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/** Starts a new session; earlier records still count towards per-model and per-item totals. */
+export const resetUsageSession = () => {
+    sessionStartedAt = Date.now();
+    emit();
+};
+
+export const clearUsageHistory = () => {
+    records = [];
+    sessionStartedAt = Date.now();
+    writeStored(RECORDS_KEY, records, 'usage records');
+    emit();
+};
+
+const recordUsage = (record: Omit<UsageRecord, 'id' | 'timestamp'>) => {
+    records = [...records, { ...record, id: nextRecordId++, timestamp: Date.now() }].slice(-MAX_RECORDS);
+    writeStored(RECORDS_KEY, records, 'usage records');
+    emit();
+};
+
+export const estimateCost = (record: UsageRecord, prices: Record<string, ModelPrice> = settings.prices): number => {
+    const modelPrice = prices[record.model];
+    // Failed attempts are not billed; they are still counted as calls.
+    if (!modelPrice || !record.succeeded) return 0;
+    const inputTokens = record.inputChars / CHARS_PER_TOKEN + record.inputImages * TOKENS_PER_INPUT_IMAGE;
+    const outputTokens = record.outputChars / CHARS_PER_TOKEN
+        + record.outputAudioBytes / SPEECH_BYTES_PER_SECOND * SPEECH_TOKENS_PER_SECOND;
+    return modelPrice.perRequest
+        + record.outputImages * modelPrice.perImage
+        + record.videoSeconds * modelPrice.perVideoSecond
+        + inputTokens / 1e6 * modelPrice.perMillionInputTokens
+        + outputTokens / 1e6 * modelPrice.perMillionOutputTokens;
+};
+
+export const summarizeUsage = (list: UsageRecord[]): UsageTotals => list.reduce((totals, record) => ({
+    calls: totals.calls + 1,
+    failedCalls: totals.failedCalls + (record.succeeded ? 0 : 1),
+    cost: totals.cost + estimateCost(record),
+}), { calls: 0, failedCalls: 0, cost: 0 });
+
+export const summarizeUsageBy = (list: UsageRecord[], keyOf: (record: UsageRecord) => string | null): Record<string, UsageTotals> => {
+    const groups: Record<string, UsageRecord[]> = {};
+    list.forEach(record => {
+        const key = keyOf(record);
+        if (key !== null) (groups[key] ??= []).push(record);
+    });
+    return Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, summarizeUsage(group)]));
+};
+
+export const formatCost = (cost: number): string => `$${cost < 1 ? cost.toFixed(3) : cost.toFixed(2)}`;
+
+export type BudgetCheck = {
+    status: 'ok' | 'warn' | 'block';
+    sessionCost: number;
+    estimate: number;
+    budget: number | null;
+};
+
+/** Checks whether a video render of `seconds` on `model` would take the session over its budget. */
+export const checkVideoBudget = (model: string, seconds: number = DEFAULT_CLIP_SECONDS): BudgetCheck => {
+    const sessionCost = summarizeUsage(getSessionRecords()).cost;
+    const estimate = (settings.prices[model]?.perVideoSecond ?? 0) * seconds;
+    const budget = settings.sessionBudget;
+    const exceeds = budget !== null && sessionCost + estimate > budget;
+    return { status: exceeds ? settings.budgetMode : 'ok', sessionCost, estimate, budget };
+};
+
+// --- Metering ---------------------------------------------------------------------------------
+
+const base64Bytes = (base64: string) => Math.floor(base64.length * 3 / 4);
+
+const measureParts = (parts: Part[]) => parts.reduce((size, part) => ({
+    inputChars: size.inputChars + (part.text?.length ?? 0),
+    inputImages: size.inputImages + (part.inlineData?.mimeType?.startsWith('image/') ? 1 : 0),
+    inputBytes: size.inputBytes + (part.inlineData?.data ? base64Bytes(part.inlineData.data) : 0),
+}), { inputChars: 0, inputImages: 0, inputBytes: 0 });
+
+const EMPTY_SIZES = {
+    inputChars: 0, inputImages: 0, inputBytes: 0,
+    outputChars: 0, outputImages: 0, outputAudioBytes: 0, videoSeconds: 0,
+};
+
+/**
+ * Wraps a provider so that each billable call is recorded against `operation` and `usageKey`.
+ * Video seconds are counted when a render is accepted; status polls and downloads are free and
+ * are not recorded. The mock provider is never metered.
+ */
+export function meterProvider(provider: MediaProvider, operation: string, usageKey?: string): MediaProvider {
+    if (provider.id === 'mock') return provider;
+
+    const metered = async <T>(
+        model: string,
+        input: Partial<typeof EMPTY_SIZES>,
+        call: () => Promise<T>,
+        output: (result: T) => Partial<typeof EMPTY_SIZES>,
+    ): Promise<T> => {
+        const base = { model, operation, usageKey: usageKey ?? null, ...EMPTY_SIZES, ...input };
+        try {
+            const result = await call();
+            recordUsage({ ...base, ...output(result), succeeded: true });
+            return result;
+        } catch (error) {
+            recordUsage({ ...base, succeeded: false });
+            throw error;
+        }
+    };
+
+    return {
+        ...provider,
+        generateText: (request) => metered(request.model, measureParts(request.parts), () => provider.generateText(request),
+            text => ({ outputChars: text.length })),
+        generateImage: (request) => metered(request.model, measureParts(request.parts), () => provider.generateImage(request),
+            src => ({ outputImages: src ? 1 : 0 })),
+        editImage: (request) => metered(request.model, measureParts(request.parts), () => provider.editImage(request),
+            src => ({ outputImages: src ? 1 : 0 })),
+        generateSpeech: (request) => metered(request.model, { inputChars: request.text.length }, () => provider.generateSpeech(request),
+            audio => ({ outputAudioBytes: audio ? base64Bytes(audio) : 0 })),
+        startVideo: (request) => metered(request.model, { inputChars: request.prompt.length, inputImages: 1, inputBytes: base64Bytes(request.imageBase64) },
+            () => provider.startVideo(request), () => ({ videoSeconds: request.durationSeconds ?? DEFAULT_CLIP_SECONDS })),
+        transcribeAudio: (request) => metered(request.model, { inputChars: request.prompt.length, inputBytes: base64Bytes(request.audioBase64) },
+            () => provider.transcribeAudio(request), text => ({ outputChars: text.length })),
+    };
+}
@@ -0,0 +1,366 @@
+import { SoundtrackCue, VideoClip } from "../types";
+import { downloadVideo } from "./geminiService";
+import { createAbortError, throwIfAborted } from "../utils/abortUtils";
+import { base64ToBytes } from "../utils/fileUtils";
+import { demuxMp4Video, DemuxedVideoTrack, Mp4AudioTrack, Mp4Sample, muxMp4 } from "../utils/mp4Utils";
+import { audioFades, CLIP_AUDIO_GAIN_UNDER_VOICEOVER, crossfadeOpacity, dipToBlackOpacity, layoutTimeline, PlacedSegment, TimelineSegment } from "../utils/timelineUtils";
+import { toPlayableAudio } from "../utils/wavUtils";
+import { cueGainCurve, placeSoundtrack, toSoundtrackSpan } from "../utils/soundtrackUtils";
+
+// Renders a generation's timeline into a single MP4 entirely in the browser. Clips are decoded
+// and re-encoded with WebCodecs (they may differ in resolution and encoder settings, and trims
+// and transitions need new frames anyway), while the audio is mixed in an OfflineAudioContext:
+// each clip's own soundtrack plus its voiceover, placed at the clip's position on the timeline,
+// under the generation's music and sound-effects cues.
+
+const VIDEO_TIMESCALE = 90000;
+const VIDEO_BITRATE = 8_000_000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_BITRATE = 128_000;
+const AUDIO_FRAMES_PER_CHUNK = 4800;
+const MAX_QUEUE_SIZE = 16;
+
+type ExportProgress = (message: string) => void;
+
+type LoadedClip = {
+    bytes: Uint8Array;
+    track: DemuxedVideoTrack;
+    audioBase64: string | null;
+    audioTimings: VideoClip['audioTimings'];
+    sceneIndex: number;
+};
+
+type PlacedClip = PlacedSegment<LoadedClip>;
+
+export const isVideoExportSupported = (): boolean =>
+    typeof VideoEncoder !== 'undefined' &&
+    typeof VideoDecoder !== 'undefined' &&
+    typeof AudioEncoder !== 'undefined' &&
+    typeof OfflineAudioContext !== 'undefined';
+
+const waitForQueues = async (...codecs: { readonly decodeQueueSize?: number; readonly encodeQueueSize?: number }[]) => {
+    const isBusy = () => codecs.some(codec => (codec.decodeQueueSize ?? 0) > MAX_QUEUE_SIZE || (codec.encodeQueueSize ?? 0) > MAX_QUEUE_SIZE);
+    while (isBusy()) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+const loadClip = async (clip: VideoClip, sceneIndex: number, signal?: AbortSignal): Promise<LoadedClip> => {
+    const blob = clip.videoUrl ? await (await fetch(clip.videoUrl, { signal })).blob() : await downloadVideo(clip.videoObject, signal);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    return { bytes, track: demuxMp4Video(bytes), audioBase64: clip.audioBase64, audioTimings: clip.audioTimings, sceneIndex };
+};
+
+const chooseVideoEncoderConfig = async (width: number, height: number, framerate: number): Promise<VideoEncoderConfig> => {
+    // High, Main and Baseline profile at level 4.0, in order of preference.
+    for (const codec of ['avc1.640028', 'avc1.4d0028', 'avc1.42e028']) {
+        const config: VideoEncoderConfig = { codec, width, height, framerate, bitrate: VIDEO_BITRATE, avc: { format: 'avc' } };
+        if ((await VideoEncoder.isConfigSupported(config)).supported) return config;
+    }
+    throw new Error("This browser cannot encode H.264 video, so the storyboard cannot be exported.");
+};
+
+const chooseAudioEncoderConfig = async (): Promise<{ config: AudioEncoderConfig; codec: Mp4AudioTrack['codec'] }> => {
+    // AAC is the most compatible choice but is not available in every build of Chromium; Opus in MP4
+    // plays in all current browsers and most desktop players.
+    const candidates: { codec: Mp4AudioTrack['codec']; name: string }[] = [{ codec: 'aac', name: 'mp4a.40.2' }, { codec: 'opus', name: 'opus' }];
+    for (const candidate of candidates) {
+        const config: AudioEncoderConfig = { codec: candidate.name, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS, bitrate: AUDIO_BITRATE };
+        if ((await AudioEncoder.isConfigSupported(config)).supported) return { config, codec: candidate.codec };
+    }
+    throw new Error("This browser cannot encode AAC or Opus audio, so the storyboard cannot be exported.");
+};
+
+type EncodedChunk = { data: Uint8Array; timestamp: number; duration: number | null; isKey: boolean };
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk): EncodedChunk => {
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    return { data, timestamp: chunk.timestamp, duration: chunk.duration, isKey: chunk.type === 'key' };
+};
+
+// Converts microsecond timestamps to track units, deriving each duration from the next sample's
+// start so rounding never accumulates into drift.
+const toMp4Samples = (chunks: EncodedChunk[], timescale: number, fallbackDuration: number): Mp4Sample[] => {
+    const sorted = [...chunks].sort((a, b) => a.timestamp - b.timestamp);
+    const toUnits = (micros: number) => Math.round(micros * timescale / 1e6);
+    return sorted.map((chunk, index) => {
+        const next = sorted[index + 1];
+        const end = next ? next.timestamp : chunk.timestamp + (chunk.duration ?? fallbackDuration);
+        return { data: chunk.data, duration: Math.max(1, toUnits(end) - toUnits(chunk.timestamp)), isKey: chunk.isKey };
+    });
+};
+
+const encodeVideo = async (segments: PlacedClip[], onProgress: ExportProgress, signal?: AbortSignal) => {
+    const first = segments[0].item.track;
+    // H.264 needs even dimensions.
+    const width = first.width & ~1;
+    const height = first.height & ~1;
+    const frameDuration = first.samples.length > 0 ? first.duration / first.samples.length : 1e6 / 24;
+    const config = await chooseVideoEncoderConfig(width, height, Math.round(1e6 / frameDuration));
+
+    const chunks: EncodedChunk[] = [];
+    let avcC: Uint8Array | null = null;
+    let failure: unknown = null;
+    const encoder = new VideoEncoder({
+        output: (chunk, metadata) => {
+            chunks.push(copyChunk(chunk));
+            const description = metadata?.decoderConfig?.description;
+            if (description && !avcC) {
+                avcC = new Uint8Array(ArrayBuffer.isView(description) ? description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength) : description);
+            }
+        },
+        error: (error) => { failure = error; },
+    });
+    encoder.configure(config);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d')!;
+    let lastKeyframe = -Infinity;
+    // Frames from the end of the previous clip that are blended into the start of the next one
+    // during a crossfade. `time` is relative to the start of the crossfade.
+    let previousTail: { time: number; bitmap: ImageBitmap }[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+        if (signal?.aborted) {
+            encoder.close();
+            previousTail.forEach(({ bitmap }) => bitmap.close());
+            throw createAbortError();
+        }
+        onProgress(`Encoding video: clip ${i + 1} of ${segments.length}...`);
+        const segment = segments[i];
+        const { track } = segment.item;
+        const clipBase = Math.min(...track.samples.map(sample => sample.timestamp));
+        const tailStart = segment.transitionOut.type === 'crossfade' ? segment.duration - segment.transitionOut.duration : Infinity;
+        const tail: { time: number; bitmap: ImageBitmap }[] = [];
+        let isFirstFrame = true;
+
+        const decoder = new VideoDecoder({
+            output: (frame) => {
+                try {
+                    const local = (frame.timestamp - clipBase) / 1e6 - segment.trimStart;
+                    if (local < 0 || local >= segment.duration) return;
+
+                    if (local >= tailStart) {
+                        const snapshot = new OffscreenCanvas(width, height);
+                        snapshot.getContext('2d')!.drawImage(frame, 0, 0, width, height);
+                        tail.push({ time: local - tailStart, bitmap: snapshot.transferToImageBitmap() });
+                        return;
+                    }
+
+                    context.globalAlpha = 1;
+                    context.drawImage(frame, 0, 0, width, height);
+                    const incomingOpacity = crossfadeOpacity(segment, local);
+                    if (incomingOpacity < 1 && previousTail.length > 0) {
+                        const outgoing = previousTail.reduce((best, candidate) =>
+                            Math.abs(candidate.time - local) < Math.abs(best.time - local) ? candidate : best);
+                        context.globalAlpha = 1 - incomingOpacity;
+                        context.drawImage(outgoing.bitmap, 0, 0, width, height);
+                        context.globalAlpha = 1;
+                    }
+                    const black = dipToBlackOpacity(segment, local);
+                    if (black > 0) {
+                        context.fillStyle = `rgba(0, 0, 0, ${black})`;
+                        context.fillRect(0, 0, width, height);
+                    }
+
+                    const timestamp = Math.round((segment.start + local) * 1e6);
+                    const keyFrame = isFirstFrame || timestamp - lastKeyframe >= KEYFRAME_INTERVAL_SECONDS * 1e6;
+                    if (keyFrame) lastKeyframe = timestamp;
+                    isFirstFrame = false;
+                    const output = new VideoFrame(canvas, { timestamp });
+                    encoder.encode(output, { keyFrame });
+                    output.close();
+                } catch (error) {
+                    failure = error;
+                } finally {
+                    frame.close();
+                }
+            },
+            error: (error) => { failure = error; },
+        });
+        decoder.configure({ codec: track.codec, description: track.description });
+
+        for (const sample of track.samples) {
+            if (failure) break;
+            decoder.decode(new EncodedVideoChunk({
+                type: sample.isKey ? 'key' : 'delta',
+                timestamp: sample.timestamp,
+                duration: sample.duration,
+                data: sample.data,
+            }));
+            await waitForQueues(decoder, encoder);
+        }
+        await decoder.flush();
+        decoder.close();
+        previousTail.forEach(({ bitmap }) => bitmap.close());
+        previousTail = tail;
+        if (failure) break;
+    }
+    previousTail.forEach(({ bitmap }) => bitmap.close());
+
+    await encoder.flush();
+    encoder.close();
+    if (failure) {
+        throw failure instanceof Error ? failure : new Error(String(failure));
+    }
+    if (!avcC) {
+        throw new Error("The video encoder did not provide an H.264 configuration.");
+    }
+
+    return {
+        kind: 'video' as const,
+        width,
+        height,
+        timescale: VIDEO_TIMESCALE,
+        avcC: avcC as Uint8Array,
+        samples: toMp4Samples(chunks, VIDEO_TIMESCALE, frameDuration),
+    };
+};
+
+const decodeAudio = async (context: BaseAudioContext, bytes: Uint8Array): Promise<AudioBuffer | null> => {
+    try {
+        // decodeAudioData detaches its input, so always hand it a copy.
+        return await context.decodeAudioData(bytes.slice().buffer);
+    } catch {
+        return null;
+    }
+};
+
+const mixAudio = async (segments: PlacedClip[], totalDuration: number, soundtrack: SoundtrackCue[], onProgress: ExportProgress): Promise<AudioBuffer> => {
+    onProgress("Mixing audio...");
+    const context = new OfflineAudioContext(AUDIO_CHANNELS, Math.max(1, Math.ceil(totalDuration * AUDIO_SAMPLE_RATE)), AUDIO_SAMPLE_RATE);
+
+    const schedule = (buffer: AudioBuffer, segment: PlacedClip, gain: number) => {
+        const { start, duration, trimStart } = segment;
+        const { fadeIn, fadeOut } = audioFades(segment);
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        const gainNode = context.createGain();
+        gainNode.gain.setValueAtTime(fadeIn > 0 ? 0 : gain, start);
+        if (fadeIn > 0) gainNode.gain.linearRampToValueAtTime(gain, start + fadeIn);
+        if (fadeOut > 0) {
+            gainNode.gain.setValueAtTime(gain, start + duration - fadeOut);
+            gainNode.gain.linearRampToValueAtTime(0, start + duration);
+        }
+        source.connect(gainNode).connect(context.destination);
+        // Audio is trimmed with its clip, so it never bleeds into the next scene.
+        source.start(start, trimStart, duration);
+    };
+
+    for (const segment of segments) {
+        const clip = segment.item;
+        let voiceover: AudioBuffer | null = null;
+        if (clip.audioBase64) {
+            voiceover = await decodeAudio(context, toPlayableAudio(base64ToBytes(clip.audioBase64)));
+        }
+        const clipAudio = await decodeAudio(context, clip.bytes);
+        if (clipAudio) schedule(clipAudio, segment, voiceover ? CLIP_AUDIO_GAIN_UNDER_VOICEOVER : 1);
+        if (voiceover) schedule(voiceover, segment, 1);
+    }
+
+    const spans = segments.map(segment => toSoundtrackSpan(segment, segment.item.sceneIndex, segment.item));
+    for (const placed of placeSoundtrack(soundtrack, spans, totalDuration)) {
+        const buffer = await decodeAudio(context, base64ToBytes(placed.cue.audioBase64));
+        if (!buffer) continue;
+        const source = context.createBufferSource();
+        source.buffer = buffer;
+        source.loop = placed.cue.loop;
+        const gainNode = context.createGain();
+        gainNode.gain.setValueCurveAtTime(cueGainCurve(placed), placed.start, placed.end - placed.start);
+        source.connect(gainNode).connect(context.destination);
+        source.start(placed.start);
+        source.stop(placed.end);
+    }
+
+    return await context.startRendering();
+};
+
+const encodeAudio = async (buffer: AudioBuffer, onProgress: ExportProgress): Promise<Mp4AudioTrack> => {
+    onProgress("Encoding audio...");
+    const { config, codec } = await chooseAudioEncoderConfig();
+    const chunks: EncodedChunk[] = [];
+    let description: Uint8Array | null = null;
+    let failure: unknown = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            chunks.push(copyChunk(chunk));
+            const decoderDescription = metadata?.decoderConfig?.description;
+            if (decoderDescription && !description) {
+                description = new Uint8Array(ArrayBuffer.isView(decoderDescription)
+                    ? decoderDescription.buffer.slice(decoderDescription.byteOffset, decoderDescription.byteOffset + decoderDescription.byteLength)
+                    : decoderDescription);
+            }
+        },
+        error: (error) => { failure = error; },
+    });
+    encoder.configure(config);
+
+    const channels = Array.from({ length: AUDIO_CHANNELS }, (_, i) => buffer.getChannelData(Math.min(i, buffer.numberOfChannels - 1)));
+    for (let start = 0; start < buffer.length && !failure; start += AUDIO_FRAMES_PER_CHUNK) {
+        const frames = Math.min(AUDIO_FRAMES_PER_CHUNK, buffer.length - start);
+        const planar = new Float32Array(frames * AUDIO_CHANNELS);
+        channels.forEach((channel, i) => planar.set(channel.subarray(start, start + frames), i * frames));
+        const data = new AudioData({
+            format: 'f32-planar',
+            sampleRate: AUDIO_SAMPLE_RATE,
+            numberOfFrames: frames,
+            numberOfChannels: AUDIO_CHANNELS,
+            timestamp: Math.round(start * 1e6 / AUDIO_SAMPLE_RATE),
+            data: planar,
+        });
+        encoder.encode(data);
+        data.close();
+        await waitForQueues(encoder);
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) {
+        throw failure instanceof Error ? failure : new Error(String(failure));
+    }
+
+    return {
+        kind: 'audio',
+        codec,
+        sampleRate: AUDIO_SAMPLE_RATE,
+        channelCount: AUDIO_CHANNELS,
+        timescale: AUDIO_SAMPLE_RATE,
+        description,
+        samples: toMp4Samples(chunks, AUDIO_SAMPLE_RATE, 1024 * 1e6 / AUDIO_SAMPLE_RATE),
+    };
+};
+
+/**
+ * Renders the timeline (clip order, trims and transitions) into one MP4, with each clip's
+ * voiceover mixed over its own soundtrack at the clip's position in the sequence, and the
+ * soundtrack cues, ducked under the voiceovers, beneath them.
+ */
+export async function exportTimelineVideo(timeline: TimelineSegment[], onProgress: ExportProgress, signal?: AbortSignal, soundtrack: SoundtrackCue[] = []): Promise<Blob> {
+    if (!isVideoExportSupported()) {
+        throw new Error("Exporting a full video requires WebCodecs support (a recent Chrome or Edge).");
+    }
+    if (timeline.length === 0) {
+        throw new Error("There are no generated video clips to export.");
+    }
+
+    const loaded: { item: LoadedClip; entry: TimelineSegment['entry']; clipDuration: number }[] = [];
+    for (let i = 0; i < timeline.length; i++) {
+        onProgress(`Loading clip ${i + 1} of ${timeline.length}...`);
+        const item = await loadClip(timeline[i].clip, timeline[i].sceneIndex, signal);
+        loaded.push({ item, entry: timeline[i].entry, clipDuration: item.track.duration / 1e6 });
+    }
+    const { segments, totalDuration } = layoutTimeline(loaded);
+    if (totalDuration <= 0) {
+        throw new Error("The timeline is empty after trimming.");
+    }
+
+    const videoTrack = await encodeVideo(segments, onProgress, signal);
+    throwIfAborted(signal);
+    const audioTrack = await encodeAudio(await mixAudio(segments, totalDuration, soundtrack, onProgress), onProgress);
+    throwIfAborted(signal);
+
+    onProgress("Writing MP4...");
+    return new Blob(muxMp4([videoTrack, audioTrack]), { type: 'video/mp4' });
+}
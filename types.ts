@@ -0,0 +1,127 @@
+import { Character, LineTiming, StoryboardScene } from './services/geminiService';
+import { ContentProfile } from './services/contentProfiles';
+import { ScriptScene } from './services/screenplay';
+
+export type AppStoryboardScene = StoryboardScene & { 
+    isRegenerating?: boolean;
+    isGeneratingAngles?: boolean;
+    isEditing?: boolean;
+    isCheckingConsistency?: boolean;
+    previousSrc?: string | null;
+};
+
+export type GenerationItem = {
+  id: number;
+  prompt: string;
+  imageSet: AppStoryboardScene[];
+  videoStates: VideoState[];
+  aspectRatio: string;
+  imageStyle: string;
+  genre: string;
+  characters: Character[];
+  imageModel: string;
+  timeline?: TimelineEntry[]; // Edited clip order, trims and transitions; absent until first edited.
+  contentProfile?: ContentProfile; // Casting & safety profile used for this generation; the default when absent.
+  script?: ScriptScene[]; // The screenplay as approved before rendering; absent for older generations.
+  soundtrack?: SoundtrackCue[]; // Music and sound effects mixed under the timeline.
+};
+
+export type TimelineTransition = 'cut' | 'crossfade' | 'dipToBlack';
+
+export type TimelineEntry = {
+  clipId: string;
+  trimStart: number; // seconds into the clip
+  trimEnd: number | null; // seconds into the clip; null plays to the end
+  transition: TimelineTransition; // transition into the next entry
+  transitionDuration: number; // seconds
+};
+
+export type SoundtrackKind = 'music' | 'sfx';
+
+// A music or sound-effects file laid under the timeline, either across the whole sequence or
+// under one scene's clips.
+export type SoundtrackCue = {
+  id: string;
+  name: string;
+  kind: SoundtrackKind;
+  audioBase64: string;
+  mimeType: string;
+  durationSeconds: number | null; // length of the audio; null when the browser could not tell
+  sceneIndex: number | null; // null for the whole sequence
+  offsetSeconds: number; // start, from the beginning of the sequence or the scene
+  volume: number; // 0-1
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+  loop: boolean; // repeat until the sequence or scene ends
+  duck: boolean; // drop under voiceover lines
+};
+
+export type SavedItem = {
+  id: string; // Unique ID, e.g., `${generationId}-${sceneIndex}`
+  scene: StoryboardScene;
+  videoState: VideoState;
+  originalPrompt: string;
+  aspectRatio: string;
+  imageStyle: string;
+  genre: string;
+  characters: Character[];
+  imageModel: string;
+  contentProfile?: ContentProfile;
+  savedAt: number; // UTC timestamp
+  assets: SavedItemAssets;
+};
+
+// Ids of the asset-store records backing a SavedItem's binary data. Only these ids are written
+// to the synced metadata; the media itself stays in the local asset store.
+export type SavedItemAssets = {
+  image: string | null;
+  clips: { video: string | null; audio: string | null }[];
+  characterImages: Record<number, string>; // character id -> asset id
+};
+
+export type UploadedItem = {
+    id: string;
+    generationItem: Omit<GenerationItem, 'id' | 'videoStates'> & { imageSet: AppStoryboardScene[] };
+    videoStates: VideoState[];
+    mimeType: string;
+    detectedCharacters: string[];
+    addedCharacterIds?: number[];
+};
+
+export type VideoClip = {
+  id: string;
+  videoUrl: string | null;
+  audioUrl: string | null;
+  videoObject: any;
+  audioBase64: string | null;
+  audioMimeType?: string | null; // e.g. "audio/webm" for a recorded voiceover; generated voiceovers are WAV
+  audioTimings?: LineTiming[] | null; // where each script line is heard, for generated voiceovers
+};
+
+// One microphone recording of a scene's voiceover. Only the part between the trim points is used.
+export type VoiceoverTake = {
+  id: string;
+  name: string;
+  file: File; // as recorded, typed with the container's mime type (e.g. "audio/webm")
+  durationSeconds: number;
+  trimStartSeconds: number;
+  trimEndSeconds: number;
+  peaks: number[]; // waveform levels from 0 to 1, for drawing
+};
+
+export type VideoState = {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  clips: VideoClip[];
+  currentClipIndex: number;
+  error: string | null;
+  loadingMessage: string;
+  showScriptInput: boolean;
+  scriptPrompt: string;
+  voiceoverMode: 'tts' | 'upload' | 'record';
+  voiceoverFile: File | null;
+  voiceoverTakes?: VoiceoverTake[]; // microphone takes, for voiceoverMode 'record'
+  selectedTakeId?: string | null; // the take the video uses
+  speaker: string; // Note: This is now legacy, kept for state structure but multi-speaker is handled dynamically
+  linePauseSeconds?: number; // silence between voiceover lines; DEFAULT_LINE_PAUSE_SECONDS when unset
+  cameraMovement: string;
+};
@@ -0,0 +1,47 @@
+// Cancellation is signalled with the standard AbortError, the same error fetch and the Gemini SDK
+// throw for an aborted request, so callers can treat every cancelled operation alike.
+
+export function createAbortError(): Error {
+    return new DOMException('The operation was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+    return (error as any)?.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) throw createAbortError();
+}
+
+/** Waits for `ms`, rejecting with an AbortError as soon as the signal fires. */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/** Settles with `promise`, or rejects with an AbortError when the signal fires first. */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
@@ -0,0 +1,83 @@
+// Generated ambience beds. Each is shaped noise rendered to a loopable WAV here in the browser,
+// so a scene can have a background without the user supplying a file.
+import { pcmToWav } from "./wavUtils";
+
+export type AmbiencePreset = 'roomTone' | 'wind' | 'rain' | 'ocean';
+
+export const AMBIENCE_PRESET_LABELS: Record<AmbiencePreset, string> = {
+    roomTone: 'Room Tone',
+    wind: 'Wind',
+    rain: 'Rain',
+    ocean: 'Ocean Waves',
+};
+
+const AMBIENCE_SAMPLE_RATE = 24000;
+export const AMBIENCE_SECONDS = 20;
+// The end of the bed is blended into its start over this long so that it loops without a click.
+const LOOP_BLEND_SECONDS = 1;
+
+// mulberry32: a small seeded generator, so every bed of a preset sounds the same.
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const renderPreset = (preset: AmbiencePreset, samples: Float32Array, sampleRate: number) => {
+    const random = createRandom(preset.length * 7919);
+    const white = () => random() * 2 - 1;
+    let brown = 0;
+    let lowpass = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const time = i / sampleRate;
+        brown = (brown + white() * 0.02) * 0.998;
+        switch (preset) {
+            case 'roomTone':
+                samples[i] = brown * 0.6;
+                break;
+            case 'wind': {
+                // Gusts: a slowly wandering cutoff and level over brown noise.
+                const gust = 0.55 + 0.45 * Math.sin(time * 0.7) * Math.sin(time * 0.23 + 1);
+                lowpass += (white() - lowpass) * (0.01 + 0.04 * gust);
+                samples[i] = lowpass * 1.8 * gust + brown * 0.3;
+                break;
+            }
+            case 'rain': {
+                lowpass += (white() - lowpass) * 0.35;
+                const drop = random() < 0.0015 ? white() * 0.6 : 0;
+                samples[i] = lowpass * 0.25 + drop;
+                break;
+            }
+            case 'ocean': {
+                // A wave every eight seconds, breaking brighter at its peak.
+                const swell = Math.pow(0.5 + 0.5 * Math.sin((time / 8) * Math.PI * 2), 2);
+                lowpass += (white() - lowpass) * (0.02 + 0.2 * swell);
+                samples[i] = lowpass * (0.2 + 0.8 * swell) + brown * 0.4;
+                break;
+            }
+        }
+    }
+};
+
+/** A loopable ambience bed as a WAV file. */
+export function generateAmbience(preset: AmbiencePreset, seconds: number = AMBIENCE_SECONDS): Uint8Array {
+    const sampleRate = AMBIENCE_SAMPLE_RATE;
+    const blend = Math.round(LOOP_BLEND_SECONDS * sampleRate);
+    const length = Math.round(seconds * sampleRate);
+    const raw = new Float32Array(length + blend);
+    renderPreset(preset, raw, sampleRate);
+
+    // Crossfade the extra tail into the head, then normalise.
+    const samples = raw.slice(0, length);
+    for (let i = 0; i < blend; i++) {
+        const weight = i / blend;
+        samples[i] = samples[i] * weight + raw[length + i] * (1 - weight);
+    }
+    const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+
+    const pcm = new Uint8Array(length * 2);
+    const view = new DataView(pcm.buffer);
+    samples.forEach((value, i) => view.setInt16(i * 2, Math.round((value / peak) * 0.8 * 32767), true));
+    return pcmToWav(pcm, sampleRate);
+}
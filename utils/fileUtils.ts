@@ -27,3 +27,24 @@ export function base64ToBytes(base64: string): Uint8Array {
     }
     return bytes;
 }
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binString = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binString += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binString);
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB'];
+    let value = bytes / 1024;
+    let unitIndex = 0;
+    while (value >= 1024 && unitIndex < units.length - 1) {
+        value /= 1024;
+        unitIndex++;
+    }
+    return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
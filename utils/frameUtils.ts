@@ -0,0 +1,40 @@
+// Grabs still frames from videos in the browser.
+
+/** The last frame of a video as base64 PNG data. */
+export const extractFrameAsBase64 = (videoUrl: string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.crossOrigin = "anonymous";
+        video.preload = 'metadata';
+
+        video.onloadedmetadata = () => {
+            video.currentTime = Math.max(0, video.duration - 0.1); 
+        };
+
+        video.onseeked = () => {
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                const ctx = canvas.getContext('2d');
+                if (!ctx) {
+                    return reject(new Error('Could not get canvas context.'));
+                }
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                const base64 = canvas.toDataURL('image/png').split(',')[1];
+                if (!base64) {
+                     return reject(new Error('Canvas toDataURL returned empty.'));
+                }
+                resolve(base64); 
+            } catch (e) {
+                reject(e);
+            }
+        };
+
+        video.onerror = (e) => {
+            reject(new Error('Failed to load video for frame extraction.'));
+        };
+
+        video.src = videoUrl;
+    });
+};
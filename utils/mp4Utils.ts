@@ -0,0 +1,345 @@
+// Minimal ISO-BMFF (MP4) reading and writing: enough to pull H.264 samples out of a clip and to
+// write a progressive MP4 with one H.264 track and an optional AAC or Opus track.
+
+export const u32 = (n: number): number[] => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+export const u16 = (n: number): number[] => [(n >>> 8) & 0xff, n & 0xff];
+export const ascii = (text: string): number[] => Array.from(text, ch => ch.charCodeAt(0));
+
+export const concatBytes = (parts: (Uint8Array | number[])[]): Uint8Array => {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+};
+
+const box = (type: string, ...payload: (Uint8Array | number[])[]): Uint8Array => {
+    const body = concatBytes(payload);
+    return concatBytes([u32(body.length + 8), ascii(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: (Uint8Array | number[])[]): Uint8Array =>
+    box(type, [version, (flags >>> 16) & 0xff, (flags >>> 8) & 0xff, flags & 0xff], ...payload);
+
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].flatMap(u32);
+const MOVIE_TIMESCALE = 1000;
+
+export type Mp4Sample = {
+    data: Uint8Array;
+    duration: number; // in track timescale units
+    isKey: boolean;
+    compositionOffset?: number;
+};
+
+export type Mp4VideoTrack = {
+    kind: 'video';
+    width: number;
+    height: number;
+    timescale: number;
+    avcC: Uint8Array; // AVCDecoderConfigurationRecord
+    samples: Mp4Sample[];
+};
+
+export type Mp4AudioTrack = {
+    kind: 'audio';
+    codec: 'aac' | 'opus';
+    sampleRate: number;
+    channelCount: number;
+    timescale: number;
+    // AudioSpecificConfig for AAC; OpusHead (or nothing) for Opus.
+    description: Uint8Array | null;
+    samples: Mp4Sample[];
+};
+
+export type Mp4Track = Mp4VideoTrack | Mp4AudioTrack;
+
+// --- Writing ---
+
+// MPEG-4 descriptors use a variable-length size; the fixed four-byte form is always valid.
+const descriptor = (tag: number, ...payload: (Uint8Array | number[])[]): Uint8Array => {
+    const body = concatBytes(payload);
+    const n = body.length;
+    return concatBytes([[tag, 0x80 | ((n >>> 21) & 0x7f), 0x80 | ((n >>> 14) & 0x7f), 0x80 | ((n >>> 7) & 0x7f), n & 0x7f], body]);
+};
+
+const visualSampleEntry = (track: Mp4VideoTrack): Uint8Array => box('avc1',
+    [0, 0, 0, 0, 0, 0], u16(1), // reserved, data_reference_index
+    u16(0), u16(0), u32(0), u32(0), u32(0), // pre_defined / reserved
+    u16(track.width), u16(track.height),
+    u32(0x00480000), u32(0x00480000), u32(0), // 72 dpi, reserved
+    u16(1), new Uint8Array(32), // frame_count, compressorname
+    u16(0x0018), u16(0xffff), // depth, pre_defined
+    box('avcC', track.avcC),
+);
+
+const readOpusPreSkip = (opusHead: Uint8Array | null): number => {
+    // OpusHead: "OpusHead", version, channel count, pre-skip (little endian), ...
+    if (opusHead && opusHead.length >= 12 && String.fromCharCode(...opusHead.subarray(0, 8)) === 'OpusHead') {
+        return opusHead[10] | (opusHead[11] << 8);
+    }
+    return 312;
+};
+
+const audioSampleEntry = (track: Mp4AudioTrack, trackId: number): Uint8Array => {
+    const header = [
+        [0, 0, 0, 0, 0, 0], u16(1), // reserved, data_reference_index
+        u32(0), u32(0), // reserved
+        u16(track.channelCount), u16(16), u16(0), u16(0),
+        u32(track.sampleRate * 0x10000),
+    ];
+    if (track.codec === 'opus') {
+        const dOps = box('dOps', [0, track.channelCount], u16(readOpusPreSkip(track.description)), u32(track.sampleRate), u16(0), [0]);
+        return box('Opus', ...header, dOps);
+    }
+    const esds = fullBox('esds', 0, 0, descriptor(3,
+        u16(trackId), [0],
+        descriptor(4,
+            [0x40, 0x15], [0, 0, 0], u32(0), u32(0), // MPEG-4 audio, audio stream, buffer size, bitrates
+            descriptor(5, track.description ?? new Uint8Array(0)),
+        ),
+        descriptor(6, [0x02]),
+    ));
+    return box('mp4a', ...header, esds);
+};
+
+const runLengthEncode = (values: number[]): [number, number][] => {
+    const runs: [number, number][] = [];
+    for (const value of values) {
+        const last = runs[runs.length - 1];
+        if (last && last[1] === value) last[0]++;
+        else runs.push([1, value]);
+    }
+    return runs;
+};
+
+const buildTrak = (track: Mp4Track, trackId: number, sampleOffsets: number[]): Uint8Array => {
+    const { samples, timescale } = track;
+    const mediaDuration = samples.reduce((sum, sample) => sum + sample.duration, 0);
+    const movieDuration = Math.round(mediaDuration * MOVIE_TIMESCALE / timescale);
+    const isVideo = track.kind === 'video';
+
+    const sttsRuns = runLengthEncode(samples.map(sample => sample.duration));
+    const hasCompositionOffsets = samples.some(sample => sample.compositionOffset);
+    const cttsRuns = runLengthEncode(samples.map(sample => sample.compositionOffset ?? 0));
+    const keySamples = samples.flatMap((sample, index) => sample.isKey ? [index + 1] : []);
+
+    const stbl = box('stbl',
+        fullBox('stsd', 0, 0, u32(1), track.kind === 'video' ? visualSampleEntry(track) : audioSampleEntry(track, trackId)),
+        fullBox('stts', 0, 0, u32(sttsRuns.length), sttsRuns.flatMap(([count, delta]) => [...u32(count), ...u32(delta)])),
+        hasCompositionOffsets ? fullBox('ctts', 0, 0, u32(cttsRuns.length), cttsRuns.flatMap(([count, offset]) => [...u32(count), ...u32(offset)])) : [],
+        isVideo && keySamples.length < samples.length ? fullBox('stss', 0, 0, u32(keySamples.length), keySamples.flatMap(u32)) : [],
+        // One sample per chunk keeps the tables trivial; the chunk offset table does the rest.
+        fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)),
+        fullBox('stsz', 0, 0, u32(0), u32(samples.length), samples.flatMap(sample => u32(sample.data.length))),
+        fullBox('stco', 0, 0, u32(sampleOffsets.length), sampleOffsets.flatMap(u32)),
+    );
+
+    return box('trak',
+        fullBox('tkhd', 0, 3, u32(0), u32(0), u32(trackId), u32(0), u32(movieDuration), u32(0), u32(0), u16(0), u16(0),
+            u16(isVideo ? 0 : 0x0100), u16(0), UNITY_MATRIX,
+            u32(isVideo ? track.width * 0x10000 : 0), u32(isVideo ? track.height * 0x10000 : 0)),
+        box('mdia',
+            fullBox('mdhd', 0, 0, u32(0), u32(0), u32(timescale), u32(mediaDuration), u16(0x55c4), u16(0)),
+            isVideo
+                ? fullBox('hdlr', 0, 0, u32(0), ascii('vide'), u32(0), u32(0), u32(0), ascii('VideoHandler'), [0])
+                : fullBox('hdlr', 0, 0, u32(0), ascii('soun'), u32(0), u32(0), u32(0), ascii('SoundHandler'), [0]),
+            box('minf',
+                isVideo ? fullBox('vmhd', 0, 1, u16(0), u16(0), u16(0), u16(0)) : fullBox('smhd', 0, 0, u16(0), u16(0)),
+                box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+                stbl,
+            ),
+        ),
+    );
+};
+
+/**
+ * Writes a progressive MP4 (ftyp, moov, mdat). Returns the file as a list of byte segments in
+ * order, so large files can be wrapped in a Blob without one more full copy.
+ */
+export function muxMp4(tracks: Mp4Track[]): Uint8Array[] {
+    const ftyp = box('ftyp', ascii('isom'), u32(512), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+    const movieDuration = Math.max(0, ...tracks.map(track =>
+        Math.round(track.samples.reduce((sum, sample) => sum + sample.duration, 0) * MOVIE_TIMESCALE / track.timescale)));
+
+    const buildMoov = (mdatDataStart: number) => {
+        let offset = mdatDataStart;
+        const traks = tracks.map((track, index) => {
+            const offsets = track.samples.map(sample => {
+                const sampleOffset = offset;
+                offset += sample.data.length;
+                return sampleOffset;
+            });
+            return buildTrak(track, index + 1, offsets);
+        });
+        return box('moov',
+            fullBox('mvhd', 0, 0, u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration), u32(0x00010000), u16(0x0100), u16(0), u32(0), u32(0), UNITY_MATRIX, new Uint8Array(24), u32(tracks.length + 1)),
+            ...traks,
+        );
+    };
+
+    const moovSize = buildMoov(0).length;
+    const moov = buildMoov(ftyp.length + moovSize + 8);
+    const mdatSize = 8 + tracks.reduce((sum, track) => sum + track.samples.reduce((s, sample) => s + sample.data.length, 0), 0);
+    return [ftyp, moov, concatBytes([u32(mdatSize), ascii('mdat')]), ...tracks.flatMap(track => track.samples.map(sample => sample.data))];
+}
+
+// --- Reading ---
+
+export type DemuxedVideoSample = {
+    data: Uint8Array;
+    timestamp: number; // presentation time, microseconds
+    duration: number; // microseconds
+    isKey: boolean;
+};
+
+export type DemuxedVideoTrack = {
+    codec: string; // WebCodecs codec string, e.g. "avc1.64001f"
+    description: Uint8Array; // avcC payload, as expected by VideoDecoder.configure
+    width: number;
+    height: number;
+    duration: number; // microseconds
+    samples: DemuxedVideoSample[]; // decode order
+};
+
+type BoxInfo = { type: string; start: number; end: number; bodyStart: number };
+
+const readBoxes = (view: DataView, start: number, end: number): BoxInfo[] => {
+    const boxes: BoxInfo[] = [];
+    let cursor = start;
+    while (cursor + 8 <= end) {
+        let size = view.getUint32(cursor);
+        const type = String.fromCharCode(view.getUint8(cursor + 4), view.getUint8(cursor + 5), view.getUint8(cursor + 6), view.getUint8(cursor + 7));
+        let headerSize = 8;
+        if (size === 1) {
+            size = Number(view.getBigUint64(cursor + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            size = end - cursor;
+        }
+        if (size < headerSize || cursor + size > end) break;
+        boxes.push({ type, start: cursor, end: cursor + size, bodyStart: cursor + headerSize });
+        cursor += size;
+    }
+    return boxes;
+};
+
+const findBox = (view: DataView, parent: BoxInfo, path: string[]): BoxInfo | null => {
+    let current: BoxInfo | null = parent;
+    for (const type of path) {
+        if (!current) return null;
+        current = readBoxes(view, current.bodyStart, current.end).find(child => child.type === type) ?? null;
+    }
+    return current;
+};
+
+const toHex = (byte: number) => byte.toString(16).padStart(2, '0');
+
+/** Extracts the first H.264 video track from an MP4 file. */
+export function demuxMp4Video(bytes: Uint8Array): DemuxedVideoTrack {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const moov = readBoxes(view, 0, bytes.length).find(b => b.type === 'moov');
+    if (!moov) {
+        throw new Error("The video clip is not a valid MP4 file (no moov box).");
+    }
+
+    for (const trak of readBoxes(view, moov.bodyStart, moov.end).filter(b => b.type === 'trak')) {
+        const hdlr = findBox(view, trak, ['mdia', 'hdlr']);
+        if (!hdlr || String.fromCharCode(...bytes.subarray(hdlr.bodyStart + 8, hdlr.bodyStart + 12)) !== 'vide') continue;
+
+        const mdhd = findBox(view, trak, ['mdia', 'mdhd'])!;
+        const mdhdVersion = view.getUint8(mdhd.bodyStart);
+        const timescale = view.getUint32(mdhd.bodyStart + (mdhdVersion === 1 ? 20 : 12));
+
+        const stbl = findBox(view, trak, ['mdia', 'minf', 'stbl']);
+        const stsd = stbl && findBox(view, stbl, ['stsd']);
+        if (!stbl || !stsd) continue;
+
+        // stsd: full box header (4) + entry count (4), then the first sample entry.
+        const entry = readBoxes(view, stsd.bodyStart + 8, stsd.end)[0];
+        if (!entry || (entry.type !== 'avc1' && entry.type !== 'avc3')) {
+            throw new Error(`Unsupported video codec "${entry?.type ?? 'unknown'}" in clip; only H.264 can be stitched.`);
+        }
+        const width = view.getUint16(entry.bodyStart + 24);
+        const height = view.getUint16(entry.bodyStart + 26);
+        const avcC = readBoxes(view, entry.bodyStart + 78, entry.end).find(b => b.type === 'avcC');
+        if (!avcC) {
+            throw new Error("The video clip is missing its H.264 decoder configuration.");
+        }
+        const description = bytes.slice(avcC.bodyStart, avcC.end);
+        const codec = `avc1.${toHex(description[1])}${toHex(description[2])}${toHex(description[3])}`;
+
+        const table = (type: string) => findBox(view, stbl, [type]);
+
+        const stsz = table('stsz')!;
+        const fixedSize = view.getUint32(stsz.bodyStart + 4);
+        const sampleCount = view.getUint32(stsz.bodyStart + 8);
+        const sizes = Array.from({ length: sampleCount }, (_, i) => fixedSize || view.getUint32(stsz.bodyStart + 12 + i * 4));
+
+        const durations: number[] = [];
+        const stts = table('stts')!;
+        for (let i = 0, n = view.getUint32(stts.bodyStart + 4); i < n; i++) {
+            const count = view.getUint32(stts.bodyStart + 8 + i * 8);
+            const delta = view.getUint32(stts.bodyStart + 12 + i * 8);
+            for (let j = 0; j < count; j++) durations.push(delta);
+        }
+
+        const compositionOffsets = new Array(sampleCount).fill(0);
+        const ctts = table('ctts');
+        if (ctts) {
+            let index = 0;
+            for (let i = 0, n = view.getUint32(ctts.bodyStart + 4); i < n; i++) {
+                const count = view.getUint32(ctts.bodyStart + 8 + i * 8);
+                const offset = view.getInt32(ctts.bodyStart + 12 + i * 8);
+                for (let j = 0; j < count && index < sampleCount; j++) compositionOffsets[index++] = offset;
+            }
+        }
+
+        const stss = table('stss');
+        const keySamples = stss
+            ? new Set(Array.from({ length: view.getUint32(stss.bodyStart + 4) }, (_, i) => view.getUint32(stss.bodyStart + 8 + i * 4) - 1))
+            : null;
+
+        const chunkOffsets: number[] = [];
+        const stco = table('stco');
+        const co64 = table('co64');
+        if (stco) {
+            for (let i = 0, n = view.getUint32(stco.bodyStart + 4); i < n; i++) chunkOffsets.push(view.getUint32(stco.bodyStart + 8 + i * 4));
+        } else if (co64) {
+            for (let i = 0, n = view.getUint32(co64.bodyStart + 4); i < n; i++) chunkOffsets.push(Number(view.getBigUint64(co64.bodyStart + 8 + i * 8)));
+        }
+
+        const stsc = table('stsc')!;
+        const stscEntries = Array.from({ length: view.getUint32(stsc.bodyStart + 4) }, (_, i) => ({
+            firstChunk: view.getUint32(stsc.bodyStart + 8 + i * 12) - 1,
+            samplesPerChunk: view.getUint32(stsc.bodyStart + 12 + i * 12),
+        }));
+
+        const samples: DemuxedVideoSample[] = [];
+        let sampleIndex = 0;
+        let decodeTime = 0;
+        const toMicros = (units: number) => Math.round(units * 1e6 / timescale);
+        for (let chunk = 0; chunk < chunkOffsets.length && sampleIndex < sampleCount; chunk++) {
+            const run = [...stscEntries].reverse().find(e => e.firstChunk <= chunk);
+            let offset = chunkOffsets[chunk];
+            for (let i = 0; i < (run?.samplesPerChunk ?? 1) && sampleIndex < sampleCount; i++) {
+                const size = sizes[sampleIndex];
+                samples.push({
+                    data: bytes.subarray(offset, offset + size),
+                    timestamp: toMicros(decodeTime + compositionOffsets[sampleIndex]),
+                    duration: toMicros(durations[sampleIndex] ?? 0),
+                    isKey: keySamples ? keySamples.has(sampleIndex) : true,
+                });
+                offset += size;
+                decodeTime += durations[sampleIndex] ?? 0;
+                sampleIndex++;
+            }
+        }
+
+        return { codec, description, width, height, duration: toMicros(decodeTime), samples };
+    }
+
+    throw new Error("The video clip has no video track.");
+}
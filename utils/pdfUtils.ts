@@ -0,0 +1,56 @@
+// Minimal PDF writing. Every page is a single full-page JPEG image, which keeps the writer
+// small and lets pages be laid out with canvas text, whatever the script of the text.
+
+export type PdfPage = {
+    width: number; // points
+    height: number; // points
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+};
+
+export function createPdf(pages: PdfPage[]): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n${body}\n`);
+        if (stream) {
+            write('stream\n');
+            write(stream);
+            write('\nendstream\n');
+        }
+        write('endobj\n');
+    };
+
+    // Objects 1 and 2 are the catalog and page tree; each page then takes three: the page, its
+    // content stream and its image.
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+    write('%PDF-1.4\n%âãÏÓ\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+    pages.forEach((page, index) => {
+        const pageId = pageIds[index];
+        const content = encoder.encode(`q ${page.width} 0 0 ${page.height} 0 0 cm /Im0 Do Q`);
+        writeObject(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`);
+        writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+        writeObject(pageId + 2, `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`, page.jpeg);
+    });
+
+    const objectCount = 3 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,297 @@
+// Deterministic placeholder media used by the local mock provider. Everything here is
+// encoded by hand so the mock backend works fully offline with no extra dependencies.
+import { crc32 } from "./zipUtils";
+import { ascii, concatBytes, muxMp4, u16, u32 } from "./mp4Utils";
+
+type Rgb = [number, number, number];
+
+export function hashString(text: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+const seedToColor = (seed: string): Rgb => {
+    const hue = hashString(seed) % 360;
+    const s = 0.55;
+    const l = 0.45;
+    const c = (1 - Math.abs(2 * l - 1)) * s;
+    const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+    const m = l - c / 2;
+    const [r, g, b] = hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] : hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+    return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+};
+
+// Darkens the base colour towards the bottom of the frame and adds a light diagonal band,
+// so placeholders for different prompts are easy to tell apart at a glance.
+const shadePixel = (base: Rgb, x: number, y: number, width: number, height: number): Rgb => {
+    const shade = 1 - (y / height) * 0.4;
+    const onBand = Math.abs((x / width) - (y / height)) < 0.04;
+    return base.map(channel => onBand ? 235 : Math.round(channel * shade)) as Rgb;
+};
+
+// --- PNG ---
+
+const adler32 = (bytes: Uint8Array): number => {
+    let a = 1;
+    let b = 0;
+    for (let i = 0; i < bytes.length; i++) {
+        a = (a + bytes[i]) % 65521;
+        b = (b + a) % 65521;
+    }
+    return ((b << 16) | a) >>> 0;
+};
+
+// zlib stream made of uncompressed ("stored") deflate blocks.
+const zlibStore = (data: Uint8Array): Uint8Array => {
+    const parts: (Uint8Array | number[])[] = [[0x78, 0x01]];
+    const maxBlock = 0xffff;
+    let offset = 0;
+    do {
+        const block = data.subarray(offset, offset + maxBlock);
+        offset += block.length;
+        const isFinal = offset >= data.length ? 1 : 0;
+        parts.push([isFinal, block.length & 0xff, block.length >>> 8, ~block.length & 0xff, (~block.length >>> 8) & 0xff]);
+        parts.push(block);
+    } while (offset < data.length);
+    parts.push(u32(adler32(data)));
+    return concatBytes(parts);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const typeAndData = concatBytes([ascii(type), data]);
+    return concatBytes([u32(data.length), typeAndData, u32(crc32(typeAndData))]);
+};
+
+export function getPlaceholderImageSize(aspectRatio: string): { width: number; height: number } {
+    if (aspectRatio === '16:9') return { width: 320, height: 180 };
+    if (aspectRatio === '9:16') return { width: 180, height: 320 };
+    return { width: 256, height: 256 };
+}
+
+export function createPlaceholderPng(seed: string, aspectRatio: string): Uint8Array {
+    const { width, height } = getPlaceholderImageSize(aspectRatio);
+    const base = seedToColor(seed);
+    const rowLength = width * 3 + 1;
+    const raw = new Uint8Array(rowLength * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * rowLength] = 0; // No filter
+        for (let x = 0; x < width; x++) {
+            const [r, g, b] = shadePixel(base, x, y, width, height);
+            const offset = y * rowLength + 1 + x * 3;
+            raw[offset] = r;
+            raw[offset + 1] = g;
+            raw[offset + 2] = b;
+        }
+    }
+
+    const header = new Uint8Array([...u32(width), ...u32(height), 8, 2, 0, 0, 0]); // 8-bit RGB
+    return concatBytes([
+        [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+        pngChunk('IHDR', header),
+        pngChunk('IDAT', zlibStore(raw)),
+        pngChunk('IEND', new Uint8Array(0)),
+    ]);
+}
+
+// --- MP4 (H.264 baseline, I_PCM keyframe followed by all-skip P frames) ---
+
+class BitWriter {
+    private bytes: number[] = [];
+    private current = 0;
+    private bitCount = 0;
+
+    writeBit(bit: number) {
+        this.current = (this.current << 1) | (bit & 1);
+        this.bitCount++;
+        if (this.bitCount === 8) {
+            this.bytes.push(this.current);
+            this.current = 0;
+            this.bitCount = 0;
+        }
+    }
+
+    writeBits(value: number, count: number) {
+        for (let i = count - 1; i >= 0; i--) {
+            this.writeBit((value >>> i) & 1);
+        }
+    }
+
+    writeUe(value: number) {
+        const codeNum = value + 1;
+        const length = 31 - Math.clz32(codeNum);
+        this.writeBits(0, length);
+        this.writeBits(codeNum, length + 1);
+    }
+
+    writeSe(value: number) {
+        this.writeUe(value <= 0 ? -2 * value : 2 * value - 1);
+    }
+
+    alignWithZeros() {
+        while (this.bitCount !== 0) this.writeBit(0);
+    }
+
+    writeTrailingBits() {
+        this.writeBit(1);
+        this.alignWithZeros();
+    }
+
+    toBytes(): Uint8Array {
+        return new Uint8Array(this.bytes);
+    }
+}
+
+const toNalUnit = (header: number, rbsp: Uint8Array): Uint8Array => {
+    const out: number[] = [header];
+    let zeroRun = 0;
+    for (const byte of rbsp) {
+        if (zeroRun >= 2 && byte <= 3) {
+            out.push(3); // emulation_prevention_three_byte
+            zeroRun = 0;
+        }
+        out.push(byte);
+        zeroRun = byte === 0 ? zeroRun + 1 : 0;
+    }
+    return new Uint8Array(out);
+};
+
+const LOG2_MAX_FRAME_NUM = 8;
+const H264_PROFILE_BASELINE = 66;
+const H264_LEVEL = 30;
+
+const rgbToYCbCr = ([r, g, b]: Rgb): Rgb => {
+    const clamp = (v: number) => Math.max(16, Math.min(235, Math.round(v)));
+    return [
+        clamp(16 + (65.481 * r + 128.553 * g + 24.966 * b) / 255),
+        clamp(128 + (-37.797 * r - 74.203 * g + 112 * b) / 255),
+        clamp(128 + (112 * r - 93.786 * g - 18.214 * b) / 255),
+    ];
+};
+
+const buildSps = (widthInMbs: number, heightInMbs: number): Uint8Array => {
+    const w = new BitWriter();
+    w.writeBits(H264_PROFILE_BASELINE, 8);
+    w.writeBits(0xc0, 8); // constraint_set0_flag, constraint_set1_flag
+    w.writeBits(H264_LEVEL, 8);
+    w.writeUe(0); // seq_parameter_set_id
+    w.writeUe(LOG2_MAX_FRAME_NUM - 4);
+    w.writeUe(2); // pic_order_cnt_type
+    w.writeUe(1); // max_num_ref_frames
+    w.writeBit(0); // gaps_in_frame_num_value_allowed_flag
+    w.writeUe(widthInMbs - 1);
+    w.writeUe(heightInMbs - 1);
+    w.writeBit(1); // frame_mbs_only_flag
+    w.writeBit(1); // direct_8x8_inference_flag
+    w.writeBit(0); // frame_cropping_flag
+    w.writeBit(0); // vui_parameters_present_flag
+    w.writeTrailingBits();
+    return toNalUnit(0x67, w.toBytes());
+};
+
+const buildPps = (): Uint8Array => {
+    const w = new BitWriter();
+    w.writeUe(0); // pic_parameter_set_id
+    w.writeUe(0); // seq_parameter_set_id
+    w.writeBit(0); // entropy_coding_mode_flag (CAVLC)
+    w.writeBit(0); // bottom_field_pic_order_in_frame_present_flag
+    w.writeUe(0); // num_slice_groups_minus1
+    w.writeUe(0); // num_ref_idx_l0_default_active_minus1
+    w.writeUe(0); // num_ref_idx_l1_default_active_minus1
+    w.writeBit(0); // weighted_pred_flag
+    w.writeBits(0, 2); // weighted_bipred_idc
+    w.writeSe(0); // pic_init_qp_minus26
+    w.writeSe(0); // pic_init_qs_minus26
+    w.writeSe(0); // chroma_qp_index_offset
+    w.writeBit(0); // deblocking_filter_control_present_flag
+    w.writeBit(0); // constrained_intra_pred_flag
+    w.writeBit(0); // redundant_pic_cnt_present_flag
+    w.writeTrailingBits();
+    return toNalUnit(0x68, w.toBytes());
+};
+
+const buildIdrSlice = (widthInMbs: number, heightInMbs: number, seed: string): Uint8Array => {
+    const width = widthInMbs * 16;
+    const height = heightInMbs * 16;
+    const base = seedToColor(seed);
+    const w = new BitWriter();
+    w.writeUe(0); // first_mb_in_slice
+    w.writeUe(7); // slice_type: I (all slices)
+    w.writeUe(0); // pic_parameter_set_id
+    w.writeBits(0, LOG2_MAX_FRAME_NUM); // frame_num
+    w.writeUe(0); // idr_pic_id
+    w.writeBit(0); // no_output_of_prior_pics_flag
+    w.writeBit(0); // long_term_reference_flag
+    w.writeSe(0); // slice_qp_delta
+
+    for (let mbY = 0; mbY < heightInMbs; mbY++) {
+        for (let mbX = 0; mbX < widthInMbs; mbX++) {
+            w.writeUe(25); // mb_type: I_PCM
+            w.alignWithZeros();
+            for (let y = 0; y < 16; y++) {
+                for (let x = 0; x < 16; x++) {
+                    const [luma] = rgbToYCbCr(shadePixel(base, mbX * 16 + x, mbY * 16 + y, width, height));
+                    w.writeBits(luma, 8);
+                }
+            }
+            for (const plane of [1, 2]) {
+                for (let y = 0; y < 8; y++) {
+                    for (let x = 0; x < 8; x++) {
+                        const chroma = rgbToYCbCr(shadePixel(base, mbX * 16 + x * 2, mbY * 16 + y * 2, width, height))[plane];
+                        w.writeBits(chroma, 8);
+                    }
+                }
+            }
+        }
+    }
+    w.writeTrailingBits();
+    return toNalUnit(0x65, w.toBytes());
+};
+
+const buildSkipSlice = (frameNum: number, totalMbs: number): Uint8Array => {
+    const w = new BitWriter();
+    w.writeUe(0); // first_mb_in_slice
+    w.writeUe(5); // slice_type: P (all slices)
+    w.writeUe(0); // pic_parameter_set_id
+    w.writeBits(frameNum, LOG2_MAX_FRAME_NUM);
+    w.writeBit(0); // num_ref_idx_active_override_flag
+    w.writeBit(0); // ref_pic_list_modification_flag_l0
+    w.writeBit(0); // adaptive_ref_pic_marking_mode_flag
+    w.writeSe(0); // slice_qp_delta
+    w.writeUe(totalMbs); // mb_skip_run
+    w.writeTrailingBits();
+    return toNalUnit(0x41, w.toBytes());
+};
+
+export function getPlaceholderVideoSize(aspectRatio: string): { width: number; height: number } {
+    // H.264 frames are built from 16x16 macroblocks, so keep both sides a multiple of 16.
+    return aspectRatio === '9:16' ? { width: 144, height: 256 } : { width: 256, height: 144 };
+}
+
+export function createPlaceholderMp4(seed: string, aspectRatio: string, durationSeconds: number = 2, fps: number = 8): Uint8Array {
+    const { width, height } = getPlaceholderVideoSize(aspectRatio);
+    const widthInMbs = width / 16;
+    const heightInMbs = height / 16;
+    const frameCount = Math.max(1, Math.min(1 << LOG2_MAX_FRAME_NUM, Math.round(durationSeconds * fps)));
+    const timescale = 1000;
+    const sampleDelta = Math.round(timescale / fps);
+
+    const sps = buildSps(widthInMbs, heightInMbs);
+    const pps = buildPps();
+    const frames: Uint8Array[] = [buildIdrSlice(widthInMbs, heightInMbs, seed)];
+    for (let i = 1; i < frameCount; i++) {
+        frames.push(buildSkipSlice(i, widthInMbs * heightInMbs));
+    }
+    const samples = frames.map((nal, index) => ({
+        data: concatBytes([u32(nal.length), nal]),
+        duration: sampleDelta,
+        isKey: index === 0,
+    }));
+
+    const avcC = concatBytes([[1, sps[1], sps[2], sps[3], 0xff, 0xe1], u16(sps.length), sps, [1], u16(pps.length), pps]);
+    return concatBytes(muxMp4([{ kind: 'video', width, height, timescale, avcC, samples }]));
+}
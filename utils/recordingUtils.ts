@@ -0,0 +1,58 @@
+// Voiceover takes recorded from the microphone. A take keeps the recording as the browser made
+// it; trimming is applied only when the take is used, so the trim points can be moved freely.
+
+import { VideoState, VoiceoverTake } from '../types';
+import { bytesToBase64, fileToBase64 } from './fileUtils';
+import { decodeToPcm, pcmPeaks, pcmToWav, slicePcm, TTS_SAMPLE_RATE } from './wavUtils';
+
+export const WAVEFORM_PEAKS = 160;
+
+// Trim points closer than this to the ends of a take count as untrimmed.
+const TRIM_EPSILON_SECONDS = 0.01;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    'audio/webm': 'webm',
+    'audio/ogg': 'ogg',
+    'audio/mp4': 'm4a',
+    'audio/mpeg': 'mp3',
+    'audio/wav': 'wav',
+};
+
+// MediaRecorder reports the codecs too ("audio/webm;codecs=opus"); files and AudioOptions carry
+// only the container type.
+const containerType = (mimeType: string): string => mimeType.split(';')[0].trim() || 'audio/webm';
+
+/** Reads a finished recording into a take: measures it and draws its waveform. */
+export async function createTake(recording: Blob, name: string): Promise<VoiceoverTake> {
+    const mimeType = containerType(recording.type);
+    const bytes = new Uint8Array(await recording.arrayBuffer());
+    const pcm = await decodeToPcm(bytes);
+    const durationSeconds = pcm.length / 2 / TTS_SAMPLE_RATE;
+    return {
+        id: `take-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        file: new File([bytes], `${name.replace(/\s+/g, '-').toLowerCase()}.${FILE_EXTENSIONS[mimeType] ?? 'webm'}`, { type: mimeType }),
+        durationSeconds,
+        trimStartSeconds: 0,
+        trimEndSeconds: durationSeconds,
+        peaks: pcmPeaks(pcm, WAVEFORM_PEAKS),
+    };
+}
+
+export const isTakeTrimmed = (take: VoiceoverTake): boolean =>
+    take.trimStartSeconds > TRIM_EPSILON_SECONDS || take.trimEndSeconds < take.durationSeconds - TRIM_EPSILON_SECONDS;
+
+export const getSelectedTake = (videoState: VideoState): VoiceoverTake | null =>
+    videoState.voiceoverTakes?.find(take => take.id === videoState.selectedTakeId) ?? null;
+
+/**
+ * The take as uploaded voiceover audio. An untrimmed take is sent as recorded, with its own
+ * mime type; a trimmed one is cut out of the decoded recording and sent as a WAV.
+ */
+export async function takeToUpload(take: VoiceoverTake): Promise<{ data: string; mimeType: string }> {
+    if (!isTakeTrimmed(take)) {
+        return { data: await fileToBase64(take.file), mimeType: take.file.type };
+    }
+    const pcm = await decodeToPcm(new Uint8Array(await take.file.arrayBuffer()));
+    return { data: bytesToBase64(pcmToWav(slicePcm(pcm, take.trimStartSeconds, take.trimEndSeconds))), mimeType: 'audio/wav' };
+}
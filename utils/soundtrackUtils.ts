@@ -0,0 +1,108 @@
+import { SoundtrackCue, SoundtrackKind, VideoClip } from "../types";
+import { PlacedSegment } from "./timelineUtils";
+
+// Music and sound effects drop to this share of their volume while a voiceover line is heard.
+export const DUCKING_GAIN = 0.25;
+// How long the drop and the recovery take, in seconds.
+export const DUCKING_RAMP_SECONDS = 0.3;
+// Resolution of the gain curves handed to the audio mixer.
+export const GAIN_CURVE_STEPS_PER_SECOND = 20;
+
+export const SOUNDTRACK_KIND_LABELS: Record<SoundtrackKind, string> = {
+    music: 'Music',
+    sfx: 'Sound Effects',
+};
+
+export const createSoundtrackCue = (changes: Partial<SoundtrackCue> & Pick<SoundtrackCue, 'name' | 'audioBase64' | 'mimeType'>): SoundtrackCue => ({
+    id: `cue-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: 'music',
+    durationSeconds: null,
+    sceneIndex: null,
+    offsetSeconds: 0,
+    volume: 0.6,
+    fadeIn: 1,
+    fadeOut: 1,
+    loop: true,
+    duck: true,
+    ...changes,
+});
+
+type Interval = { start: number; end: number };
+
+// A clip's place in the sequence, with the times its voiceover lines are heard.
+export type SoundtrackSpan = Interval & {
+    sceneIndex: number;
+    dialogue: Interval[];
+};
+
+/**
+ * Where a placed clip sits for the soundtrack. Lines with timings duck only while they are
+ * heard; a voiceover without timings (an uploaded file) ducks the whole clip.
+ */
+export function toSoundtrackSpan(segment: PlacedSegment<unknown>, sceneIndex: number, clip: Pick<VideoClip, 'audioBase64' | 'audioTimings'>): SoundtrackSpan {
+    const start = segment.start;
+    const end = segment.start + segment.duration;
+    const dialogue = clip.audioTimings
+        ? clip.audioTimings
+            .map(timing => ({ start: Math.max(start, start + timing.startSeconds - segment.trimStart), end: Math.min(end, start + timing.endSeconds - segment.trimStart) }))
+            .filter(interval => interval.end > interval.start)
+        : clip.audioBase64 ? [{ start, end }] : [];
+    return { start, end, sceneIndex, dialogue };
+}
+
+// A cue resolved onto the sequence: where it starts and where it must have stopped.
+export type PlacedCue = Interval & {
+    cue: SoundtrackCue;
+    dialogue: Interval[]; // the lines it ducks under, empty when it doesn't duck
+};
+
+/**
+ * Places cues on the sequence. Sequence cues run from their offset to the end of the sequence,
+ * scene cues from their offset into the scene's first clip to the end of its last. A cue that
+ * doesn't loop also stops when its audio runs out. Cues for scenes without clips are dropped.
+ */
+export function placeSoundtrack(cues: SoundtrackCue[], spans: SoundtrackSpan[], totalDuration: number): PlacedCue[] {
+    const dialogue = spans.flatMap(span => span.dialogue);
+    return cues.flatMap(cue => {
+        const sceneSpans = cue.sceneIndex === null ? spans : spans.filter(span => span.sceneIndex === cue.sceneIndex);
+        if (sceneSpans.length === 0) return [];
+        const from = cue.sceneIndex === null ? 0 : Math.min(...sceneSpans.map(span => span.start));
+        const until = cue.sceneIndex === null ? totalDuration : Math.max(...sceneSpans.map(span => span.end));
+        const start = from + Math.max(0, cue.offsetSeconds);
+        const end = cue.loop || !cue.durationSeconds ? until : Math.min(until, start + cue.durationSeconds);
+        if (end <= start) return [];
+        return [{ cue, start, end, dialogue: cue.duck ? dialogue.filter(interval => interval.end > start && interval.start < end) : [] }];
+    });
+}
+
+/** The cue's gain (0-1) at a time on the sequence: its volume, shaped by its fades and ducking. */
+export function cueGainAt(placed: PlacedCue, time: number): number {
+    const { cue, start, end } = placed;
+    if (time < start || time >= end) return 0;
+    const local = time - start;
+    const length = end - start;
+    let fade = 1;
+    if (cue.fadeIn > 0 && local < cue.fadeIn) fade = Math.min(fade, local / cue.fadeIn);
+    if (cue.fadeOut > 0 && local > length - cue.fadeOut) fade = Math.min(fade, (length - local) / cue.fadeOut);
+
+    // Full ducking inside a line, easing in just before it and out just after.
+    const depth = placed.dialogue.reduce((deepest, interval) => {
+        const distance = time < interval.start ? interval.start - time : time > interval.end ? time - interval.end : 0;
+        return Math.max(deepest, 1 - Math.min(1, distance / DUCKING_RAMP_SECONDS));
+    }, 0);
+    const duck = 1 - (1 - DUCKING_GAIN) * depth;
+
+    return Math.max(0, cue.volume * fade * duck);
+}
+
+/** cueGainAt sampled across the cue, for AudioParam.setValueCurveAtTime. */
+export function cueGainCurve(placed: PlacedCue): Float32Array {
+    const steps = Math.max(2, Math.ceil((placed.end - placed.start) * GAIN_CURVE_STEPS_PER_SECOND) + 1);
+    const curve = new Float32Array(steps);
+    for (let i = 0; i < steps; i++) {
+        // The last sample sits just inside the end, where the fade out reaches zero.
+        const time = placed.start + (placed.end - placed.start) * Math.min(i / (steps - 1), 0.9999);
+        curve[i] = cueGainAt(placed, time);
+    }
+    return curve;
+}
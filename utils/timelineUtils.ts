@@ -0,0 +1,144 @@
+import { TimelineEntry, TimelineTransition, VideoClip, VideoState } from "../types";
+import { base64ToBytes } from "./fileUtils";
+import { detectAudioMimeType } from "./wavUtils";
+
+export const DEFAULT_TRANSITION_SECONDS = 0.5;
+// Veo renders eight-second clips; used until a clip's real duration is known.
+export const DEFAULT_CLIP_SECONDS = 8;
+// Veo clips carry their own generated soundtrack; keep it under the voiceover when both exist.
+export const CLIP_AUDIO_GAIN_UNDER_VOICEOVER = 0.35;
+
+export const TRANSITION_LABELS: Record<TimelineTransition, string> = {
+    cut: 'Cut',
+    crossfade: 'Crossfade',
+    dipToBlack: 'Dip to Black',
+};
+
+export const createClipId = (): string => `clip-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Clips made before they kept their audio's mime type are recognised from the data; generated
+// voiceovers, WAV or headerless PCM, count as WAV.
+export const clipAudioMimeType = (clip: VideoClip): string =>
+    clip.audioMimeType || (clip.audioBase64 && detectAudioMimeType(base64ToBytes(clip.audioBase64.slice(0, 16)))) || 'audio/wav';
+
+export const createTimelineEntry = (clipId: string): TimelineEntry => ({
+    clipId,
+    trimStart: 0,
+    trimEnd: null,
+    transition: 'cut',
+    transitionDuration: DEFAULT_TRANSITION_SECONDS,
+});
+
+export type TimelineSegment = {
+    entry: TimelineEntry;
+    clip: VideoClip;
+    sceneIndex: number;
+};
+
+/**
+ * Pairs every clip of a generation with its timeline entry. Clips keep their edited order;
+ * clips generated since the timeline was last edited are appended in storyboard order, and
+ * entries for deleted clips are dropped.
+ */
+export function resolveTimeline(videoStates: VideoState[], timeline: TimelineEntry[] | undefined): TimelineSegment[] {
+    const available = new Map<string, { clip: VideoClip; sceneIndex: number }>();
+    videoStates.forEach((videoState, sceneIndex) => {
+        (videoState?.clips ?? [])
+            .filter(clip => clip.videoUrl || clip.videoObject)
+            .forEach(clip => available.set(clip.id, { clip, sceneIndex }));
+    });
+
+    const segments: TimelineSegment[] = [];
+    for (const entry of timeline ?? []) {
+        const match = available.get(entry.clipId);
+        if (!match) continue;
+        segments.push({ entry, ...match });
+        available.delete(entry.clipId);
+    }
+    available.forEach((match, clipId) => segments.push({ entry: createTimelineEntry(clipId), ...match }));
+    return segments;
+}
+
+export type PlacedSegment<T> = {
+    item: T;
+    entry: TimelineEntry;
+    start: number; // position on the combined timeline, seconds
+    duration: number; // trimmed length, seconds
+    trimStart: number;
+    trimEnd: number;
+    // Effective (clamped) transition lengths; zero for cuts.
+    transitionIn: { type: TimelineTransition; duration: number };
+    transitionOut: { type: TimelineTransition; duration: number };
+};
+
+/**
+ * Resolves trims and transitions into absolute positions. Crossfades overlap neighbouring
+ * clips; dips to black split their duration between fading out and fading back in. Transition
+ * lengths are clamped so they never exceed half of either clip.
+ */
+export function layoutTimeline<T>(items: { item: T; entry: TimelineEntry; clipDuration: number }[]): { segments: PlacedSegment<T>[]; totalDuration: number } {
+    const trimmed = items.map(({ item, entry, clipDuration }) => {
+        const trimStart = Math.min(Math.max(0, entry.trimStart), clipDuration);
+        const trimEnd = Math.max(trimStart, Math.min(entry.trimEnd ?? clipDuration, clipDuration));
+        return { item, entry, trimStart, trimEnd, duration: trimEnd - trimStart };
+    });
+
+    const outgoing = trimmed.map((current, index) => {
+        const next = trimmed[index + 1];
+        if (!next || current.entry.transition === 'cut') return { type: 'cut' as TimelineTransition, duration: 0 };
+        const duration = Math.max(0, Math.min(current.entry.transitionDuration, current.duration / 2, next.duration / 2));
+        return { type: current.entry.transition, duration };
+    });
+
+    const segments: PlacedSegment<T>[] = [];
+    let cursor = 0;
+    trimmed.forEach((current, index) => {
+        const transitionIn = index > 0 ? outgoing[index - 1] : { type: 'cut' as TimelineTransition, duration: 0 };
+        const start = transitionIn.type === 'crossfade' ? cursor - transitionIn.duration : cursor;
+        segments.push({ ...current, start, transitionIn, transitionOut: outgoing[index] });
+        cursor = start + current.duration;
+    });
+
+    return { segments, totalDuration: cursor };
+}
+
+/** Opacity of a black overlay at a point within a segment, for dip-to-black transitions. */
+export function dipToBlackOpacity(segment: PlacedSegment<unknown>, localTime: number): number {
+    const { transitionIn, transitionOut, duration } = segment;
+    if (transitionIn.type === 'dipToBlack' && transitionIn.duration > 0 && localTime < transitionIn.duration / 2) {
+        return 1 - localTime / (transitionIn.duration / 2);
+    }
+    const fadeOutStart = duration - transitionOut.duration / 2;
+    if (transitionOut.type === 'dipToBlack' && transitionOut.duration > 0 && localTime > fadeOutStart) {
+        return Math.min(1, (localTime - fadeOutStart) / (transitionOut.duration / 2));
+    }
+    return 0;
+}
+
+/** Opacity of a segment itself, which is below one only while it is crossfading in. */
+export function crossfadeOpacity(segment: PlacedSegment<unknown>, localTime: number): number {
+    const { transitionIn } = segment;
+    if (transitionIn.type === 'crossfade' && transitionIn.duration > 0 && localTime < transitionIn.duration) {
+        return localTime / transitionIn.duration;
+    }
+    return 1;
+}
+
+/**
+ * Audio fade lengths matching the picture: a crossfade ramps over its whole overlap, a dip to
+ * black over the half of the transition that belongs to this segment.
+ */
+export function audioFades(segment: PlacedSegment<unknown>): { fadeIn: number; fadeOut: number } {
+    const fade = ({ type, duration }: PlacedSegment<unknown>['transitionIn']) =>
+        type === 'crossfade' ? duration : type === 'dipToBlack' ? duration / 2 : 0;
+    return { fadeIn: fade(segment.transitionIn), fadeOut: fade(segment.transitionOut) };
+}
+
+/** Audio gain (0-1) at a point within a segment, following audioFades. */
+export function audioFadeGain(segment: PlacedSegment<unknown>, localTime: number): number {
+    const { fadeIn, fadeOut } = audioFades(segment);
+    let gain = 1;
+    if (fadeIn > 0 && localTime < fadeIn) gain = Math.min(gain, localTime / fadeIn);
+    if (fadeOut > 0 && localTime > segment.duration - fadeOut) gain = Math.min(gain, (segment.duration - localTime) / fadeOut);
+    return Math.max(0, gain);
+}
@@ -0,0 +1,158 @@
+// Gemini TTS returns raw 16-bit little-endian mono PCM at 24kHz.
+export const TTS_SAMPLE_RATE = 24000;
+
+const writeAscii = (view: DataView, offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+        view.setUint8(offset + i, text.charCodeAt(i));
+    }
+};
+
+export function pcmToWav(pcm: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE, channels: number = 1, bitsPerSample: number = 16): Uint8Array {
+    const blockAlign = channels * (bitsPerSample / 8);
+    const buffer = new ArrayBuffer(44 + pcm.length);
+    const view = new DataView(buffer);
+
+    writeAscii(view, 0, 'RIFF');
+    view.setUint32(4, 36 + pcm.length, true);
+    writeAscii(view, 8, 'WAVE');
+    writeAscii(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // PCM header size
+    view.setUint16(20, 1, true); // Linear PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * blockAlign, true);
+    view.setUint16(32, blockAlign, true);
+    view.setUint16(34, bitsPerSample, true);
+    writeAscii(view, 36, 'data');
+    view.setUint32(40, pcm.length, true);
+
+    const bytes = new Uint8Array(buffer);
+    bytes.set(pcm, 44);
+    return bytes;
+}
+
+export function createSilentWav(durationSeconds: number, sampleRate: number = TTS_SAMPLE_RATE): Uint8Array {
+    const sampleCount = Math.max(1, Math.round(durationSeconds * sampleRate));
+    return pcmToWav(new Uint8Array(sampleCount * 2), sampleRate);
+}
+
+const startsWith = (bytes: Uint8Array, signature: string, offset: number = 0) =>
+    bytes.length >= offset + signature.length && Array.from(signature).every((ch, i) => bytes[offset + i] === ch.charCodeAt(0));
+
+/** The container format of audio bytes, or null for anything unrecognised such as headerless PCM. */
+export const detectAudioMimeType = (bytes: Uint8Array): string | null =>
+    startsWith(bytes, 'RIFF') ? 'audio/wav'
+    : startsWith(bytes, 'OggS') ? 'audio/ogg'
+    : startsWith(bytes, 'fLaC') ? 'audio/flac'
+    : startsWith(bytes, 'ftyp', 4) ? 'audio/mp4'
+    : bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3 ? 'audio/webm'
+    : startsWith(bytes, 'ID3') || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) ? 'audio/mpeg' // MPEG audio frame sync
+    : null;
+
+// Uploaded voiceovers are ordinary audio files, while Gemini TTS output is headerless PCM.
+const isAudioContainer = (bytes: Uint8Array): boolean => detectAudioMimeType(bytes) !== null;
+
+/** Returns audio bytes a browser can decode, adding a WAV header to raw TTS PCM when needed. */
+export function toPlayableAudio(bytes: Uint8Array): Uint8Array {
+    return isAudioContainer(bytes) ? bytes : pcmToWav(bytes);
+}
+
+/** The PCM samples of TTS audio, whether it arrived as headerless PCM or as a WAV file. */
+export function readPcm(bytes: Uint8Array): Uint8Array {
+    if (!startsWith(bytes, 'RIFF') || !startsWith(bytes, 'WAVE', 8)) return bytes;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 12;
+    while (offset + 8 <= bytes.length) {
+        const size = view.getUint32(offset + 4, true);
+        if (startsWith(bytes, 'data', offset)) return bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size));
+        offset += 8 + size + (size % 2); // chunks are padded to an even length
+    }
+    return new Uint8Array(0);
+}
+
+export type PcmSpan = { startSeconds: number; endSeconds: number };
+
+/**
+ * Joins 16-bit mono PCM segments with `pauseSeconds` of silence between them. Returns the joined
+ * PCM and where each segment starts and ends in it.
+ */
+export function joinPcm(segments: Uint8Array[], pauseSeconds: number, sampleRate: number = TTS_SAMPLE_RATE): { pcm: Uint8Array; spans: PcmSpan[] } {
+    const pauseBytes = Math.max(0, Math.round(pauseSeconds * sampleRate)) * 2;
+    // Odd byte counts would shift every later sample by half, so segments are trimmed to whole samples.
+    const lengths = segments.map(segment => segment.length - (segment.length % 2));
+    const pcm = new Uint8Array(lengths.reduce((total, length) => total + length, 0) + pauseBytes * Math.max(0, segments.length - 1));
+    const spans: PcmSpan[] = [];
+    let offset = 0;
+    segments.forEach((segment, index) => {
+        if (index > 0) offset += pauseBytes;
+        pcm.set(segment.subarray(0, lengths[index]), offset);
+        spans.push({ startSeconds: offset / 2 / sampleRate, endSeconds: (offset + lengths[index]) / 2 / sampleRate });
+        offset += lengths[index];
+    });
+    return { pcm, spans };
+}
+
+/** The part of 16-bit mono PCM between two times, in seconds. */
+export function slicePcm(pcm: Uint8Array, startSeconds: number, endSeconds: number, sampleRate: number = TTS_SAMPLE_RATE): Uint8Array {
+    const toByte = (seconds: number) => Math.min(pcm.length - (pcm.length % 2), Math.max(0, Math.round(seconds * sampleRate)) * 2);
+    return pcm.slice(toByte(startSeconds), toByte(endSeconds));
+}
+
+/**
+ * Decodes any audio file the browser can play into 16-bit mono PCM at `sampleRate`, mixing the
+ * channels down and resampling on the way. Browser only: it relies on OfflineAudioContext.
+ */
+export async function decodeToPcm(bytes: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE): Promise<Uint8Array> {
+    // decodeAudioData detaches its input and resamples to its context's rate.
+    const decoded = await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(bytes.slice().buffer);
+    const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * sampleRate)), sampleRate);
+    const source = context.createBufferSource();
+    source.buffer = decoded;
+    source.connect(context.destination);
+    source.start();
+    const samples = (await context.startRendering()).getChannelData(0);
+
+    const pcm = new Uint8Array(samples.length * 2);
+    const view = new DataView(pcm.buffer);
+    samples.forEach((sample, index) => view.setInt16(index * 2, Math.round(Math.max(-1, Math.min(1, sample)) * 32767), true));
+    return pcm;
+}
+
+/** The peak level of each of `count` equal slices of 16-bit mono PCM, from 0 to 1. */
+export function pcmPeaks(pcm: Uint8Array, count: number): number[] {
+    const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    const sampleCount = Math.floor(pcm.length / 2);
+    return Array.from({ length: count }, (_, index) => {
+        const start = Math.floor(index * sampleCount / count);
+        const end = Math.max(start + 1, Math.floor((index + 1) * sampleCount / count));
+        let peak = 0;
+        for (let i = start; i < Math.min(end, sampleCount); i++) {
+            peak = Math.max(peak, Math.abs(view.getInt16(i * 2, true)));
+        }
+        return peak / 32768;
+    });
+}
+
+/**
+ * The quietest moment of 16-bit mono PCM between two times: the middle of the 20ms frame with
+ * the least energy. Used to cut long audio where it pauses rather than mid-word.
+ */
+export function quietestPoint(pcm: Uint8Array, fromSeconds: number, toSeconds: number, sampleRate: number = TTS_SAMPLE_RATE): number {
+    const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    const sampleCount = Math.floor(pcm.length / 2);
+    const frameSamples = Math.max(1, Math.round(sampleRate * 0.02));
+    let best = toSeconds;
+    let bestEnergy = Infinity;
+    for (let start = Math.max(0, Math.round(fromSeconds * sampleRate)); start + frameSamples <= Math.min(sampleCount, Math.round(toSeconds * sampleRate)); start += frameSamples) {
+        let energy = 0;
+        for (let i = start; i < start + frameSamples; i++) {
+            const sample = view.getInt16(i * 2, true);
+            energy += sample * sample;
+        }
+        if (energy < bestEnergy) {
+            bestEnergy = energy;
+            best = (start + frameSamples / 2) / sampleRate;
+        }
+    }
+    return best;
+}